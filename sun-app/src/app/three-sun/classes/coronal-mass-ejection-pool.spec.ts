@@ -0,0 +1,29 @@
+import { ShaderMaterial } from 'three';
+import { CoronalMassEjectionPool } from './coronal-mass-ejection-pool';
+
+describe('CoronalMassEjectionPool', () => {
+  let pool: CoronalMassEjectionPool;
+
+  beforeEach(() => {
+    pool = new CoronalMassEjectionPool(2, new ShaderMaterial());
+  });
+
+  afterEach(() => {
+    pool.dispose();
+  });
+
+  it('should not allocate beyond its capacity', () => {
+    expect(pool.allocate(2).length).toBe(2);
+    expect(pool.allocate(1)).toEqual([]);
+  });
+
+  it('should hide released slots', () => {
+    const [slot] = pool.allocate(1);
+    pool.setInstance(slot, { distance: 4, radius: 2, opacity: 1, seed: 0.5 });
+    pool.release([slot]);
+
+    const state = pool.geometry.getAttribute('ejectionState');
+    expect(state.getY(slot)).toBe(0);
+    expect(pool.mesh.count).toBe(0);
+  });
+});
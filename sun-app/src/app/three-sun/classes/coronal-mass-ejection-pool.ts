@@ -0,0 +1,73 @@
+/**
+ * Coronal Mass Ejection Pool
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Small fixed-size pool of coronal mass ejection bubbles rendered as one instanced mesh.
+ * CMEs are rare, so a handful of slots covers random and scripted launches alike.
+ */
+
+import {
+  InstancedBufferAttribute,
+  InstancedMesh,
+  ShaderMaterial,
+  SphereGeometry,
+} from 'three';
+import { InstancedPool } from './instanced-pool';
+
+/**
+ * Per-instance values of one CME.
+ * The instance origin is the sun center; the bubble travels along local +Z.
+ */
+export interface CoronalMassEjectionInstance {
+  /** Distance of the bubble center from the sun center in world units */
+  distance: number;
+  /** Bubble radius in world units (0 hides the slot) */
+  radius: number;
+  /** Fade multiplied into the shader opacity */
+  opacity: number;
+  /** Random offset for the plasma noise */
+  seed: number;
+}
+
+export class CoronalMassEjectionPool extends InstancedPool<SphereGeometry> {
+  /** Number of CMEs that can be alive at the same time per sun */
+  static readonly defaultCapacity = 8;
+
+  readonly mesh: InstancedMesh;
+
+  private readonly states: InstancedBufferAttribute;
+
+  /**
+   * @param capacity Maximum number of CMEs alive at the same time.
+   * @param material Shared CME material.
+   */
+  constructor(capacity: number, material: ShaderMaterial) {
+    // Unit bubble, scaled and displaced in the vertex shader
+    super(capacity, new SphereGeometry(1, 48, 32));
+
+    this.states = this.createAttribute('ejectionState', 4);
+
+    this.mesh = this.createMesh(material);
+  }
+
+  protected resetSlot(slot: number): void {
+    this.setInstance(slot, { distance: 0, radius: 0, opacity: 0, seed: 0 });
+  }
+
+  /**
+   * Writes the per-instance shader attributes of a slot.
+   */
+  setInstance(slot: number, instance: CoronalMassEjectionInstance): void {
+    this.states.setXYZW(
+      slot,
+      instance.distance,
+      instance.radius,
+      instance.opacity,
+      instance.seed
+    );
+    this.states.needsUpdate = true;
+  }
+}
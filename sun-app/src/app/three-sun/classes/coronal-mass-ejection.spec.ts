@@ -0,0 +1,58 @@
+import { PerspectiveCamera, Scene, Vector3 } from 'three';
+import { CoronalMassEjection } from './coronal-mass-ejection';
+import { ThreeSunService } from '../three-sun.service';
+
+describe('CoronalMassEjection', () => {
+  let sun: ThreeSunService;
+  const options = { speed: 2, angularWidth: 60, maxDistance: 12 };
+
+  beforeEach(() => {
+    sun = new ThreeSunService();
+    sun.options.coronalMassEjections.active = false;
+    sun.initSun(new Scene(), new PerspectiveCamera());
+  });
+
+  afterEach(() => {
+    sun.destroy();
+  });
+
+  it('should launch from the surface along the given direction', () => {
+    const ejection = new CoronalMassEjection(sun, new Vector3(0, 3, 0), options);
+
+    expect(ejection.launch()).toBeTrue();
+    expect(ejection.direction.y).toBeCloseTo(1, 5);
+    expect(ejection.distance).toBe(sun.sunGeometry.parameters.radius);
+  });
+
+  it('should grow with distance at a constant angular width', () => {
+    const ejection = new CoronalMassEjection(sun, new Vector3(1, 0, 0), options);
+    ejection.launch();
+    ejection.animate(2);
+
+    const state = sun.coronalMassEjectionPool.geometry.getAttribute('ejectionState');
+    const slot = ejection.slots[0];
+    expect(state.getX(slot)).toBeCloseTo(6, 5);
+    expect(state.getY(slot)).toBeCloseTo(6 * Math.sin(Math.PI / 6), 5);
+    expect(state.getZ(slot)).toBeGreaterThan(0);
+  });
+
+  it('should fade out and be removed at its max distance', () => {
+    const ejection = new CoronalMassEjection(sun, new Vector3(1, 0, 0), options);
+    ejection.launch();
+    ejection.animate(10);
+
+    expect(sun.coronalMassEjections).not.toContain(ejection);
+    expect(sun.coronalMassEjectionPool.activeCount).toBe(0);
+  });
+
+  it('should be triggerable from the sun in a given direction', () => {
+    const ejection = sun.triggerCoronalMassEjection(new Vector3(0, 0, -1), {
+      speed: 4,
+    });
+
+    expect(ejection).toBeDefined();
+    expect(ejection!.direction.z).toBeCloseTo(-1, 5);
+    expect(ejection!.options.speed).toBe(4);
+    expect(sun.coronalMassEjections).toContain(ejection!);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Represents a coronal mass ejection (CME): an expanding plasma bubble that launches
+ * from a surface region, travels outward past the corona layers and fades with distance.
+ * Its angular width stays constant as seen from the sun center, so the bubble grows
+ * while it travels.
+ * The bubble is a slot of the sun's CoronalMassEjectionPool, so CMEs allocate
+ * no GPU resources of their own.
+ *
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ */
+
+import { MathUtils, Quaternion, Vector3 } from 'three';
+import { ThreeSunService } from '../three-sun.service';
+import { CoronalMassEjectionLaunchOptions } from '../services/coronal-mass-ejection.service';
+import { CoronalMassEjectionInstance } from './coronal-mass-ejection-pool';
+
+/** Share of the travel distance used to fade in */
+const FADE_IN_END = 0.05;
+
+export class CoronalMassEjection {
+  /** Normalized launch direction (local to the sun root) */
+  direction = new Vector3();
+
+  /** Distance of the bubble center from the sun center in world units */
+  distance = 0;
+
+  /** Pool slots used by the bubble */
+  slots: number[] = [];
+
+  private instance: CoronalMassEjectionInstance;
+  private startDistance: number;
+
+  /** Internal state tracking for cleanup */
+  private destroyed = false;
+
+  /**
+   * @param sun Reference to the global sun service.
+   * @param direction Launch direction from the sun center.
+   * @param options Speed, angular width and fade distance of this CME.
+   */
+  constructor(
+    private sun: ThreeSunService,
+    direction: Vector3,
+    public options: CoronalMassEjectionLaunchOptions
+  ) {
+    this.direction.copy(direction).normalize();
+    this.startDistance = sun.sunGeometry.parameters.radius;
+    this.distance = this.startDistance;
+    this.instance = {
+      distance: this.distance,
+      radius: 0,
+      opacity: 0,
+      seed: sun.random.next(),
+    };
+  }
+
+  /**
+   * Reserves a pool slot and points the bubble along the launch direction.
+   * @returns false when the CME pool is exhausted and the CME was dropped.
+   */
+  launch(): boolean {
+    const pool = this.sun.coronalMassEjectionPool;
+    this.slots = pool.allocate(1);
+    if (this.slots.length === 0) {
+      return false;
+    }
+
+    const quaternion = new Quaternion().setFromUnitVectors(
+      new Vector3(0, 0, 1),
+      this.direction
+    );
+    pool.setTransform(this.slots[0], new Vector3(), quaternion);
+    this.update();
+
+    this.sun.coronalMassEjections.push(this);
+    return true;
+  }
+
+  /**
+   * Moves the bubble outward, grows it with distance and fades it out
+   * until it reaches `maxDistance`.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  animate(deltaTime: number): void {
+    if (this.destroyed) return;
+
+    this.distance += this.options.speed * deltaTime;
+    this.update();
+
+    if (this.distance >= this.options.maxDistance) {
+      this.destroy();
+    }
+  }
+
+  /**
+   * Writes distance, radius and opacity of the current travel progress to the pool.
+   */
+  private update(): void {
+    const halfWidth = MathUtils.degToRad(
+      MathUtils.clamp(this.options.angularWidth, 1, 179) / 2
+    );
+    const range = Math.max(this.options.maxDistance - this.startDistance, 1e-6);
+    const travel = MathUtils.clamp(
+      (this.distance - this.startDistance) / range,
+      0,
+      1
+    );
+
+    this.instance.distance = this.distance;
+    this.instance.radius = this.distance * Math.sin(halfWidth);
+    this.instance.opacity =
+      Math.min(travel / FADE_IN_END, 1) * (1 - Math.pow(travel, 1.5));
+
+    this.slots.forEach((slot) =>
+      this.sun.coronalMassEjectionPool.setInstance(slot, this.instance)
+    );
+  }
+
+  /**
+   * Returns the bubble to the pool and removes the CME from the update list.
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+
+    const index = this.sun.coronalMassEjections.indexOf(this);
+    if (index !== -1) {
+      this.sun.coronalMassEjections.splice(index, 1);
+    }
+
+    this.sun.coronalMassEjectionPool.release(this.slots);
+    this.slots = [];
+
+    this.destroyed = true;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Instanced Pool
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Base class for fixed-size pools of instanced meshes.
+ * Manages slot allocation, shared per-instance attributes and transforms,
+ * so short-lived effects render with a constant number of draw calls.
+ */
+
+import {
+  BufferGeometry,
+  DynamicDrawUsage,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  Material,
+  Matrix4,
+  Quaternion,
+  Vector3,
+} from 'three';
+
+export abstract class InstancedPool<G extends BufferGeometry = BufferGeometry> {
+  /** Instanced meshes sharing geometry, attributes and transforms */
+  readonly meshes: InstancedMesh[] = [];
+
+  private freeSlots: number[] = [];
+  private usedSlots = new Set<number>();
+  private matrix = new Matrix4();
+  private rotation = new Matrix4();
+  private unitScale = new Vector3(1, 1, 1);
+
+  /**
+   * @param capacity Maximum number of instances alive at the same time.
+   * @param geometry Geometry shared by all meshes of the pool.
+   */
+  constructor(public readonly capacity: number, readonly geometry: G) {
+    for (let slot = capacity - 1; slot >= 0; slot--) {
+      this.freeSlots.push(slot);
+    }
+  }
+
+  /** Number of slots currently in use */
+  get activeCount(): number {
+    return this.usedSlots.size;
+  }
+
+  /**
+   * Adds a dynamic per-instance attribute to the shared geometry.
+   */
+  protected createAttribute(
+    name: string,
+    itemSize = 1
+  ): InstancedBufferAttribute {
+    const attribute = new InstancedBufferAttribute(
+      new Float32Array(this.capacity * itemSize),
+      itemSize
+    );
+    attribute.setUsage(DynamicDrawUsage);
+    this.geometry.setAttribute(name, attribute);
+    return attribute;
+  }
+
+  /**
+   * Creates an instanced mesh for one material. All meshes of the pool share
+   * the transforms of the first one.
+   */
+  protected createMesh(material: Material): InstancedMesh {
+    const mesh = new InstancedMesh(this.geometry, material, this.capacity);
+    if (this.meshes.length > 0) {
+      mesh.instanceMatrix = this.meshes[0].instanceMatrix;
+    } else {
+      mesh.instanceMatrix.setUsage(DynamicDrawUsage);
+    }
+    // Instances move every frame; bounds are not worth recomputing
+    mesh.frustumCulled = false;
+    mesh.count = 0;
+    this.meshes.push(mesh);
+    return mesh;
+  }
+
+  /**
+   * Hides a slot, e.g. by zeroing its size. Called when a slot is released.
+   */
+  protected abstract resetSlot(slot: number): void;
+
+  /**
+   * Reserves `count` slots. Returns an empty list when the pool is exhausted.
+   */
+  allocate(count: number): number[] {
+    if (count > this.freeSlots.length) {
+      return [];
+    }
+    const slots = this.freeSlots.splice(this.freeSlots.length - count, count);
+    slots.forEach((slot) => this.usedSlots.add(slot));
+    this.updateCount();
+    return slots;
+  }
+
+  /**
+   * Hides and returns slots to the pool.
+   */
+  release(slots: number[]): void {
+    for (const slot of slots) {
+      if (!this.usedSlots.delete(slot)) continue;
+      this.resetSlot(slot);
+      this.freeSlots.push(slot);
+    }
+    this.updateCount();
+  }
+
+  /**
+   * Places a slot in the local space of the pool meshes.
+   */
+  setTransform(slot: number, position: Vector3, quaternion: Quaternion): void {
+    this.matrix.compose(position, quaternion, this.unitScale);
+    this.meshes[0].setMatrixAt(slot, this.matrix);
+    this.meshes[0].instanceMatrix.needsUpdate = true;
+  }
+
+  /**
+   * Turns slots around the origin of the pool meshes, keeping their own orientation
+   * relative to the origin (e.g. to carry them along a rotating surface).
+   */
+  rotateSlots(slots: number[], quaternion: Quaternion): void {
+    if (slots.length === 0) return;
+    this.rotation.makeRotationFromQuaternion(quaternion);
+    for (const slot of slots) {
+      this.meshes[0].getMatrixAt(slot, this.matrix);
+      this.meshes[0].setMatrixAt(slot, this.matrix.premultiply(this.rotation));
+    }
+    this.meshes[0].instanceMatrix.needsUpdate = true;
+  }
+
+  /**
+   * Only draws up to the highest used slot.
+   */
+  private updateCount(): void {
+    let count = 0;
+    this.usedSlots.forEach((slot) => (count = Math.max(count, slot + 1)));
+    this.meshes.forEach((mesh) => (mesh.count = count));
+  }
+
+  /**
+   * Detaches all meshes and releases geometry and instance buffers.
+   * Materials belong to the service that created them.
+   */
+  dispose(): void {
+    this.meshes.forEach((mesh) => {
+      mesh.removeFromParent();
+      mesh.dispose();
+    });
+    this.geometry.dispose();
+  }
+}
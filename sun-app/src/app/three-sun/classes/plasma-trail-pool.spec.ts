@@ -0,0 +1,39 @@
+import { ShaderMaterial } from 'three';
+import { PlasmaTrailPool } from './plasma-trail-pool';
+
+describe('PlasmaTrailPool', () => {
+  let pool: PlasmaTrailPool;
+
+  beforeEach(() => {
+    pool = new PlasmaTrailPool(4, new ShaderMaterial());
+  });
+
+  afterEach(() => {
+    pool.dispose();
+  });
+
+  it('should only draw up to the highest used slot', () => {
+    const slots = pool.allocate(3);
+    expect(pool.mesh.count).toBe(3);
+
+    pool.release(slots);
+    expect(pool.mesh.count).toBe(0);
+  });
+
+  it('should hide released slots', () => {
+    const [slot] = pool.allocate(1);
+    pool.setInstance(slot, {
+      length: 2,
+      width: 0.1,
+      bend: 0.5,
+      progress: 0.5,
+      seed: 1,
+      turbulence: 1,
+    });
+    pool.release([slot]);
+
+    const shape = pool.geometry.getAttribute('trailShape');
+    expect(shape.getX(slot)).toBe(0);
+    expect(shape.getY(slot)).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Plasma Trail Pool
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Fixed-size pool of plasma trail ribbons rendered as one instanced mesh.
+ * Each ribbon is a strip whose vertices are bent along a curve in the vertex shader,
+ * so trails of every flare render in a single draw call.
+ */
+
+import {
+  InstancedBufferAttribute,
+  InstancedMesh,
+  PlaneGeometry,
+  ShaderMaterial,
+} from 'three';
+import { InstancedPool } from './instanced-pool';
+
+/**
+ * Per-instance values of one plasma trail.
+ * The curve starts at the instance origin, leaves along local +Z
+ * and bends towards local +X.
+ */
+export interface PlasmaTrailInstance {
+  /** Reach of the trail in world units (0 hides the slot) */
+  length: number;
+  /** Ribbon width at the head in world units */
+  width: number;
+  /** How far the curve bends sideways (0 = straight) */
+  bend: number;
+  /** Normalized lifetime progress [0..1] */
+  progress: number;
+  /** Random offset for the noise pattern */
+  seed: number;
+  /** Strength and speed of the ribbon wobble */
+  turbulence: number;
+}
+
+export class PlasmaTrailPool extends InstancedPool<PlaneGeometry> {
+  readonly mesh: InstancedMesh;
+
+  private readonly shapes: InstancedBufferAttribute;
+  private readonly states: InstancedBufferAttribute;
+
+  /**
+   * @param capacity Maximum number of trails alive at the same time.
+   * @param material Shared plasma trail material.
+   */
+  constructor(capacity: number, material: ShaderMaterial) {
+    // Unit strip: uv.x runs along the trail, uv.y across it
+    super(capacity, new PlaneGeometry(1, 1, 32, 1));
+
+    this.shapes = this.createAttribute('trailShape', 3);
+    this.states = this.createAttribute('trailState', 3);
+
+    this.mesh = this.createMesh(material);
+  }
+
+  protected resetSlot(slot: number): void {
+    this.setInstance(slot, {
+      length: 0,
+      width: 0,
+      bend: 0,
+      progress: 0,
+      seed: 0,
+      turbulence: 0,
+    });
+  }
+
+  /**
+   * Writes the per-instance shader attributes of a slot.
+   */
+  setInstance(slot: number, instance: PlasmaTrailInstance): void {
+    this.shapes.setXYZ(slot, instance.length, instance.width, instance.bend);
+    this.states.setXYZ(
+      slot,
+      instance.progress,
+      instance.seed,
+      instance.turbulence
+    );
+    this.shapes.needsUpdate = true;
+    this.states.needsUpdate = true;
+  }
+}
@@ -0,0 +1,35 @@
+import { ShaderMaterial } from 'three';
+import { SolarFlarePool } from './solar-flare-pool';
+
+describe('SolarFlarePool', () => {
+  let pool: SolarFlarePool;
+
+  beforeEach(() => {
+    pool = new SolarFlarePool(8, new ShaderMaterial(), new ShaderMaterial());
+  });
+
+  afterEach(() => {
+    pool.dispose();
+  });
+
+  it('should share one geometry and transform buffer across both layers', () => {
+    expect(pool.fallingBackMesh.geometry).toBe(pool.flyAwayMesh.geometry);
+    expect(pool.fallingBackMesh.instanceMatrix).toBe(
+      pool.flyAwayMesh.instanceMatrix
+    );
+  });
+
+  it('should not allocate beyond its capacity', () => {
+    expect(pool.allocate(6).length).toBe(6);
+    expect(pool.allocate(3)).toEqual([]);
+    expect(pool.activeCount).toBe(6);
+  });
+
+  it('should reuse released slots', () => {
+    const slots = pool.allocate(8);
+    pool.release(slots.slice(0, 4));
+
+    expect(pool.activeCount).toBe(4);
+    expect(pool.allocate(4).sort()).toEqual(slots.slice(0, 4).sort());
+  });
+});
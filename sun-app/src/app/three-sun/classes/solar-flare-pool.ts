@@ -0,0 +1,84 @@
+/**
+ * Solar Flare Pool
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Fixed-size pool of flare planes rendered as two instanced meshes
+ * (falling back and flying away) that share one geometry.
+ * Draw calls stay constant no matter how many flares are alive.
+ */
+
+import {
+  CircleGeometry,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  ShaderMaterial,
+} from 'three';
+import { InstancedPool } from './instanced-pool';
+
+/**
+ * Per-instance values of one flare plane.
+ */
+export interface SolarFlareInstance {
+  /** Turbulence-scaled age, added to the shader time (in seconds) */
+  age: number;
+  /** Radius of the flare plane in world units (0 hides the slot) */
+  size: number;
+  /** Random offset for the noise pattern */
+  seed: number;
+  /** Lifetime fade multiplied into the shader opacity */
+  opacity: number;
+}
+
+export class SolarFlarePool extends InstancedPool<CircleGeometry> {
+  readonly fallingBackMesh: InstancedMesh;
+  readonly flyAwayMesh: InstancedMesh;
+
+  private readonly ages: InstancedBufferAttribute;
+  private readonly sizes: InstancedBufferAttribute;
+  private readonly seeds: InstancedBufferAttribute;
+  private readonly opacities: InstancedBufferAttribute;
+
+  /**
+   * @param capacity Maximum number of flare planes alive at the same time.
+   * @param fallingBackMaterial Shared material of the falling-back layer.
+   * @param flyAwayMaterial Shared material of the fly-away layer.
+   */
+  constructor(
+    capacity: number,
+    fallingBackMaterial: ShaderMaterial,
+    flyAwayMaterial: ShaderMaterial
+  ) {
+    // Unit circle shared by all flare planes
+    super(capacity, new CircleGeometry(1, 64));
+
+    this.ages = this.createAttribute('flareAge');
+    this.sizes = this.createAttribute('flareSize');
+    this.seeds = this.createAttribute('flareSeed');
+    this.opacities = this.createAttribute('flareOpacity');
+
+    // Both layers share the same transforms
+    this.fallingBackMesh = this.createMesh(fallingBackMaterial);
+    this.flyAwayMesh = this.createMesh(flyAwayMaterial);
+  }
+
+  protected resetSlot(slot: number): void {
+    this.setInstance(slot, { age: 0, size: 0, seed: 0, opacity: 0 });
+  }
+
+  /**
+   * Writes the per-instance shader attributes of a slot.
+   */
+  setInstance(slot: number, instance: SolarFlareInstance): void {
+    this.ages.setX(slot, instance.age);
+    this.sizes.setX(slot, instance.size);
+    this.seeds.setX(slot, instance.seed);
+    this.opacities.setX(slot, instance.opacity);
+    this.ages.needsUpdate = true;
+    this.sizes.needsUpdate = true;
+    this.seeds.needsUpdate = true;
+    this.opacities.needsUpdate = true;
+  }
+}
@@ -1,7 +1,83 @@
+import { Matrix4, PerspectiveCamera, Scene, Vector3 } from 'three';
 import { SolarFlare } from './solar-flare';
+import { ThreeSunService } from '../three-sun.service';
 
 describe('SolarFlare', () => {
+  let sun: ThreeSunService;
+
+  beforeEach(() => {
+    sun = new ThreeSunService();
+    sun.initSun(new Scene(), new PerspectiveCamera());
+  });
+
+  afterEach(() => {
+    sun.destroy();
+  });
+
   it('should create an instance', () => {
-    expect(new SolarFlare()).toBeTruthy();
+    expect(new SolarFlare(sun)).toBeTruthy();
+  });
+
+  it('should return its pool slots when its lifetime ends', () => {
+    const before = sun.flarePool.activeCount;
+    const flare = new SolarFlare(sun, {
+      size: 4,
+      lifetime: 1,
+      plasmaTrails: 0,
+      flareCount: 3,
+      turbulence: 1,
+    });
+
+    expect(flare.spawnSolarFlare()).toBeTrue();
+    expect(sun.flarePool.activeCount).toBe(before + 3);
+
+    flare.animate(1);
+    expect(sun.solarFlares).not.toContain(flare);
+    expect(sun.flarePool.activeCount).toBe(before);
+  });
+
+  it('should emit one plasma trail per configured trail', () => {
+    const before = sun.trailPool.activeCount;
+    const flare = new SolarFlare(sun, {
+      size: 4,
+      lifetime: 2,
+      plasmaTrails: 4,
+      flareCount: 3,
+      turbulence: 1,
+    });
+
+    expect(flare.spawnSolarFlare()).toBeTrue();
+    expect(sun.trailPool.activeCount).toBe(before + 4);
+
+    flare.animate(2);
+    expect(sun.trailPool.activeCount).toBe(before);
+  });
+
+  it('should follow the surface in differential rotation', () => {
+    sun.options.rotation.differential.active = true;
+    const flare = new SolarFlare(sun, {
+      size: 4,
+      lifetime: 10,
+      plasmaTrails: 2,
+      flareCount: 3,
+      turbulence: 1,
+    });
+    flare.spawnSolarFlare();
+    const start = flare.spawnLocation.clone();
+
+    flare.animate(1);
+
+    const pole = sun.getRotationPole();
+    const latitude = Math.asin(start.clone().normalize().dot(pole));
+    const expected = start
+      .clone()
+      .applyAxisAngle(pole, sun.getSurfaceAngularVelocity(latitude));
+    expect(flare.spawnLocation.distanceTo(expected)).toBeLessThan(1e-6);
+
+    const matrix = new Matrix4();
+    sun.flarePool.meshes[0].getMatrixAt(flare.slots[0], matrix);
+    expect(
+      new Vector3().setFromMatrixPosition(matrix).distanceTo(expected)
+    ).toBeLessThan(1e-6);
   });
 });
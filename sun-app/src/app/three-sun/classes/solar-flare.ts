@@ -1,23 +1,19 @@
 /**
  * Represents a procedurally animated solar flare.
- * Includes two layered flare meshes (falling back and flying away) with dynamic shader-driven effects.
+ * Includes two layered flare planes (falling back and flying away) with dynamic shader-driven effects
+ * and curved plasma trails leaving the spawn location. In differential rotation the
+ * spawn location is carried along with the surface at the rate of its latitude.
+ * Planes and trails are slots of the sun's SolarFlarePool and PlasmaTrailPool,
+ * so flares allocate no GPU resources of their own.
  *
  * Author: Moritz Petzka
  * Website: https://petzka.com
  * Email: info@petzka.com
  */
 
-import {
-  ShaderMaterial,
-  Vector3,
-  Mesh,
-  CircleGeometry,
-  Color,
-  Euler,
-  Quaternion,
-} from 'three';
-import { SolarFlareService } from '../services/solar-flare.service';
+import { Vector3, Color, Quaternion, Matrix4, MathUtils } from 'three';
 import { ThreeSunService } from '../three-sun.service';
+import { PlasmaTrailInstance } from './plasma-trail-pool';
 
 export interface SolarFlareShaderOptions {
   baseColor: Color;
@@ -37,44 +33,39 @@ export interface SolarFlareOptions {
   lifetime: number;
   plasmaTrails: number;
   flareCount: number;
-  turbulance: number;
+  turbulence: number;
 }
 
 export class SolarFlare {
-  /** Service managing flare shader materials and animation */
-  solarFlareService!: SolarFlareService;
-
-  /** Spawn location on the sun's surface */
+  /** Spawn location on the sun's surface (local to the sun root) */
   spawnLocation = new Vector3();
 
+  /** Random offset for the noise pattern of this flare */
+  seed = 0;
+
   /** Elapsed lifetime in seconds */
   age = 0;
 
-  /** Internal state tracking for cleanup */
-  private destroyed = false;
-
-  /** Circle geometry for both visual layers */
-  fallingBackGeometry!: CircleGeometry;
-  flyAwayGeometry!: CircleGeometry;
+  /** Pool slots used by the flare planes */
+  slots: number[] = [];
 
-  fallingBackMeshes: Mesh[] = [];
-  flyAwayMeshes: Mesh[] = [];
+  /** Pool slots used by the plasma trails */
+  trailSlots: number[] = [];
 
-  /** Material for falling back flare layer */
-  fallingBackMaterial!: ShaderMaterial;
+  /** Shape of each plasma trail, parallel to `trailSlots` */
+  private trails: PlasmaTrailInstance[] = [];
 
-  /** Material for fly-away flare layer */
-  flyAwaykMaterial!: ShaderMaterial;
+  /** Internal state tracking for cleanup */
+  private destroyed = false;
 
   /**
    *
    * @param sun Reference to the global sun service.
    * @param size Visual size of the flare in world units.
    * @param lifetime Total duration in seconds before self-destruction.
-   * @param plasmaTrails Not yet used (placeholder for trail emission).
+   * @param plasmaTrails Number of curved plasma trails emitted from the spawn location.
    * @param flareCount Number of flare planes.
-   * @param turbulance Multiplier for shader noise animation speed.
-   * @param shaderOptions Uniform-driven shader visual configuration.
+   * @param turbulence Multiplier for shader noise animation speed and trail wobble.
    */
   constructor(
     private sun: ThreeSunService,
@@ -83,34 +74,23 @@ export class SolarFlare {
       lifetime: 5,
       plasmaTrails: 4,
       flareCount: 3,
-      turbulance: 1,
-    },
-    public shaderOptions: SolarFlareShaderOptions = {
-      baseColor: new Color('#ffd000ff'),
-      hotColor: new Color('#ffee00'),
-      deepColor: new Color('#4b0000'),
-      emissiveStrength: 1.2,
-      opacity: 1.0,
-      distortionScale: 1.0,
-      fadeStart: 0.45,
-      fadeEnd: 0.49,
-      noiseScaleX: 4.0,
-      noiseScaleY: 1.5,
-      speed: 1.0,
+      turbulence: 1,
     }
   ) {
-    this.solarFlareService = new SolarFlareService(sun, this.shaderOptions);
     this.spawnLocation = sun.randomPointOnSurface();
+    this.seed = sun.random.next();
   }
 
   /**
-   * Initializes the solar flare and attaches it to the scene.
-   * Builds both animated visual layers and aligns them outward from the sun.
+   * Reserves pool slots for the flare planes and aligns them outward from the sun.
+   * @returns false when the flare pool is exhausted and the flare was dropped.
    */
-
-  spawnSolarFlare(): void {
-    this.fallingBackMaterial = this.solarFlareService.fallingBackMaterial;
-    this.flyAwaykMaterial = this.solarFlareService.flyAwayMaterial;
+  spawnSolarFlare(): boolean {
+    const pool = this.sun.flarePool;
+    this.slots = pool.allocate(this.options.flareCount);
+    if (this.slots.length === 0) {
+      return false;
+    }
 
     const normal = this.spawnLocation.clone().normalize(); // surface normal (outward)
     const tangent = new Vector3(); // axis for fan spread
@@ -120,7 +100,7 @@ export class SolarFlare {
 
     const coneAngle = Math.PI / 0.25; // small = tighter fan
 
-    for (let i = 0; i < this.options.flareCount; i++) {
+    this.slots.forEach((slot, i) => {
       const angle =
         ((i - this.options.flareCount / 2) / this.options.flareCount) * coneAngle * 2;
 
@@ -129,44 +109,70 @@ export class SolarFlare {
         .clone()
         .applyAxisAngle(tangent, angle)
         .normalize();
-      const lookTarget = this.spawnLocation.clone().add(flareDir);
 
-      // Create rotation quaternion to align flare mesh toward flareDir
+      // Create rotation quaternion to align flare plane toward flareDir
       const quaternion = new Quaternion().setFromUnitVectors(
         new Vector3(0, 0, 1),
         flareDir
       );
 
-      // Optionally rotate to correct local orientation (e.g., keep "up" in screen space)
-      const upTwist = new Quaternion().setFromAxisAngle(flareDir, 0); // if needed
-      quaternion.multiply(upTwist);
+      pool.setTransform(slot, this.spawnLocation, quaternion);
+      pool.setInstance(slot, { age: 0, size: 0, seed: this.seed + i, opacity: 0 });
+    });
 
-      // Falling back
-      const fbMesh = new Mesh(
-        new CircleGeometry(this.options.size / 2, 64),
-        this.fallingBackMaterial
-      );
-      fbMesh.position.copy(this.spawnLocation);
-      fbMesh.quaternion.copy(quaternion);
-      this.sun.scene.add(fbMesh);
-      this.fallingBackMeshes.push(fbMesh);
-
-      // Flying away
-      const faMesh = new Mesh(
-        new CircleGeometry(this.options.size / 2, 64),
-        this.flyAwaykMaterial
-      );
-      faMesh.position.copy(this.spawnLocation);
-      faMesh.quaternion.copy(quaternion);
-      this.sun.scene.add(faMesh);
-      this.flyAwayMeshes.push(faMesh);
-    }
+    this.spawnPlasmaTrails(normal);
 
     this.sun.solarFlares.push(this);
+    return true;
+  }
+
+  /**
+   * Reserves trail slots and points each trail outward within a cone around the normal,
+   * bending towards a random side. Trails are skipped when the trail pool is exhausted.
+   * @param normal Outward surface normal at the spawn location.
+   */
+  private spawnPlasmaTrails(normal: Vector3): void {
+    const pool = this.sun.trailPool;
+    this.trailSlots = pool.allocate(this.options.plasmaTrails);
+
+    // Peak flare plane radius, so trails grow with their flare
+    const reach = (this.options.size * this.options.size) / 20;
+
+    this.trailSlots.forEach((slot, i) => {
+      const tilt = this.sun.randomPerpendicular(normal);
+      const direction = normal
+        .clone()
+        .applyAxisAngle(tilt, this.sun.randomBetween(-0.6, 0.6))
+        .normalize();
+      const side = this.sun.randomPerpendicular(direction);
+
+      // Local frame: +Z along the launch direction, +X towards the bend
+      const quaternion = new Quaternion().setFromRotationMatrix(
+        new Matrix4().makeBasis(
+          side,
+          new Vector3().crossVectors(direction, side),
+          direction
+        )
+      );
+
+      const length = reach * this.sun.randomBetween(0.8, 1.6);
+      const trail: PlasmaTrailInstance = {
+        length,
+        width: length * 0.08,
+        bend: this.sun.randomBetween(0.3, 1),
+        progress: 0,
+        seed: this.seed + i * 0.37,
+        turbulence: this.options.turbulence,
+      };
+      this.trails.push(trail);
+
+      pool.setTransform(slot, this.spawnLocation, quaternion);
+      pool.setInstance(slot, trail);
+    });
   }
 
   /**
-   * Animates shader values, lifetime-based fading, and scale for all flare meshes.
+   * Animates lifetime-based fading and scale for all flare planes.
    * Applies symmetric fade-in/out based on lifetime progression and destroys the flare when expired.
    *
    * @param deltaTime Time since last frame (in seconds).
@@ -176,32 +182,30 @@ export class SolarFlare {
 
     this.age += deltaTime;
 
-    // Sync shader options and animate uniforms
-    this.solarFlareService.options = this.shaderOptions;
-    this.solarFlareService.animate(deltaTime);
+    if (this.sun.options.rotation.differential.active) {
+      this.followSurface(deltaTime);
+    }
 
     const normalizedAge = this.age / this.options.lifetime;
     const fade = Math.max(Math.sin(normalizedAge * Math.PI), 0); // full sine fade [0 → 1 → 0]
 
-    // Common scale based on fade strength
-    const scale = (this.options.size * fade) / 10;
+    // Plane radius: half the flare size, scaled by fade strength
+    const size = (this.options.size / 2) * ((this.options.size * fade) / 10);
 
-    // Animate fly-away flare meshes
-    this.flyAwayMeshes.forEach((mesh) => {
-      if (!(mesh.material instanceof ShaderMaterial)) return;
-      const mat = mesh.material;
-      mat.uniforms['opacity'].value = fade * fade; // extra smooth fade
-      mat.uniforms['time'].value += deltaTime * this.options.turbulance;
-      mesh.scale.set(scale, scale, scale);
+    this.slots.forEach((slot, i) => {
+      this.sun.flarePool.setInstance(slot, {
+        age: this.age * this.options.turbulence,
+        size,
+        seed: this.seed + i,
+        opacity: fade * fade, // extra smooth fade
+      });
     });
 
-    // Animate falling-back flare meshes
-    this.fallingBackMeshes.forEach((mesh) => {
-      if (!(mesh.material instanceof ShaderMaterial)) return;
-      const mat = mesh.material;
-      mat.uniforms['opacity'].value = fade * fade; // symmetric to flyaway
-      mat.uniforms['time'].value += deltaTime * this.options.turbulance;
-      mesh.scale.set(scale, scale, scale);
+    // Trails travel outward and fade over the same lifetime
+    this.trailSlots.forEach((slot, i) => {
+      const trail = this.trails[i];
+      trail.progress = Math.min(normalizedAge, 1);
+      this.sun.trailPool.setInstance(slot, trail);
     });
 
     // Remove flare after lifespan ends
@@ -211,8 +215,27 @@ export class SolarFlare {
   }
 
   /**
-   * Cleans up all flare meshes from the scene, disposes geometries, and
-   * removes the flare instance from the update list.
+   * Carries the spawn location, flare planes and trails around the rotation axis
+   * at the angular velocity of their latitude.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  private followSurface(deltaTime: number): void {
+    const pole = this.sun.getRotationPole();
+    const latitude = Math.asin(
+      MathUtils.clamp(this.spawnLocation.clone().normalize().dot(pole), -1, 1)
+    );
+    const rotation = new Quaternion().setFromAxisAngle(
+      pole,
+      this.sun.getSurfaceAngularVelocity(latitude) * deltaTime
+    );
+
+    this.spawnLocation.applyQuaternion(rotation);
+    this.sun.flarePool.rotateSlots(this.slots, rotation);
+    this.sun.trailPool.rotateSlots(this.trailSlots, rotation);
+  }
+
+  /**
+   * Returns the flare planes and trails to their pools and removes the flare instance from the update list.
    */
   destroy(): void {
     if (this.destroyed) return;
@@ -223,35 +246,11 @@ export class SolarFlare {
       this.sun.solarFlares.splice(index, 1);
     }
 
-    // Remove and dispose all fly-away flare meshes
-    this.flyAwayMeshes.forEach((mesh) => {
-      this.sun.scene.remove(mesh);
-      mesh.geometry.dispose();
-      if (mesh.material instanceof ShaderMaterial) {
-        // Optionally dispose material only if unique per flare
-        // mesh.material.dispose();
-      }
-    });
-    this.flyAwayMeshes = [];
-
-    // Remove and dispose all falling-back flare meshes
-    this.fallingBackMeshes.forEach((mesh) => {
-      this.sun.scene.remove(mesh);
-      mesh.geometry.dispose();
-      if (mesh.material instanceof ShaderMaterial) {
-        // Optionally dispose material only if not shared
-        // mesh.material.dispose();
-      }
-    });
-    this.fallingBackMeshes = [];
-
-    // Remove any active flare reference
-    if (this.solarFlareService.flareMesh) {
-      this.sun.scene.remove(this.solarFlareService.flareMesh);
-      this.solarFlareService.flareMesh.geometry.dispose();
-      // Optionally: this.solarFlareService.flareMesh.material.dispose();
-      this.solarFlareService.flareMesh = undefined;
-    }
+    this.sun.flarePool.release(this.slots);
+    this.slots = [];
+    this.sun.trailPool.release(this.trailSlots);
+    this.trailSlots = [];
+    this.trails = [];
 
     this.destroyed = true;
   }
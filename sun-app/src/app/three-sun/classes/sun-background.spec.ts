@@ -0,0 +1,134 @@
+import {
+  CubeTexture,
+  EquirectangularReflectionMapping,
+  Scene,
+  Texture,
+} from 'three';
+import { ThreeSunConfig } from '../three-sun.config';
+import { SunBackground, SunBackgroundOptions } from './sun-background';
+
+describe('SunBackground', () => {
+  let scene: Scene;
+  let options: SunBackgroundOptions;
+  let background: SunBackground;
+
+  beforeEach(() => {
+    scene = new Scene();
+    options = new ThreeSunConfig().options.background;
+    options.starfield.count = 500;
+    background = new SunBackground(scene, options);
+  });
+
+  afterEach(() => {
+    background.dispose();
+  });
+
+  it('should clear with the background color in color mode', () => {
+    options.mode = 'color';
+    background.update();
+
+    expect(scene.background).toBe(options.color);
+    expect(background.stars?.visible).toBeFalse();
+  });
+
+  it('should place the stars on the sky sphere', () => {
+    const stars = background.stars!;
+    const positions = stars.geometry.getAttribute('position');
+    expect(stars.visible).toBeTrue();
+    expect(positions.count).toBe(500);
+    for (let i = 0; i < positions.count; i += 50) {
+      const x = positions.getX(i);
+      const y = positions.getY(i);
+      const z = positions.getZ(i);
+      expect(Math.hypot(x, y, z)).toBeCloseTo(1, 5);
+    }
+
+    const magnitudes = stars.geometry.getAttribute('magnitude');
+    for (let i = 0; i < magnitudes.count; i++) {
+      expect(magnitudes.getX(i)).toBeGreaterThanOrEqual(0);
+      expect(magnitudes.getX(i)).toBeLessThanOrEqual(
+        options.starfield.limitingMagnitude
+      );
+    }
+  });
+
+  it('should have more faint than bright stars', () => {
+    const magnitudes = background.stars!.geometry.getAttribute('magnitude');
+    const half = options.starfield.limitingMagnitude / 2;
+    let faint = 0;
+    for (let i = 0; i < magnitudes.count; i++) {
+      if (magnitudes.getX(i) > half) faint++;
+    }
+    expect(faint).toBeGreaterThan(magnitudes.count / 2);
+  });
+
+  it('should rebuild the stars only when their distribution changes', () => {
+    const geometry = background.stars!.geometry;
+    options.starfield.twinkle = 1;
+    background.update(0.5);
+    expect(background.stars!.geometry).toBe(geometry);
+    expect(background.stars!.material.uniforms['time'].value).toBe(0.5);
+
+    spyOn(geometry, 'dispose').and.callThrough();
+    options.starfield.count = 100;
+    background.update();
+    expect(geometry.dispose).toHaveBeenCalled();
+    expect(
+      background.stars!.geometry.getAttribute('position').count
+    ).toBe(100);
+  });
+
+  it('should draw the same sky for the same seed', () => {
+    const other = new SunBackground(new Scene(), options);
+    const a = background.stars!.geometry.getAttribute('position').array;
+    const b = other.stars!.geometry.getAttribute('position').array;
+    expect(b).toEqual(a);
+    other.dispose();
+  });
+
+  it('should show the nebula behind the stars in nebula mode', () => {
+    expect(background.nebula).toBeUndefined();
+
+    options.mode = 'nebula';
+    background.update();
+    expect(background.nebula?.visible).toBeTrue();
+    expect(background.stars?.visible).toBeTrue();
+    expect(background.nebula!.renderOrder).toBeLessThan(
+      background.stars!.renderOrder
+    );
+
+    options.mode = 'starfield';
+    background.update();
+    expect(background.nebula?.visible).toBeFalse();
+  });
+
+  it('should load equirectangular and cube-map images', () => {
+    options.mode = 'image';
+    background.update();
+    expect(scene.background).toBe(options.color);
+
+    options.image.urls = ['assets/lensflare0.png'];
+    options.image.intensity = 0.5;
+    background.update();
+    const texture = scene.background as Texture;
+    expect(texture.mapping).toBe(EquirectangularReflectionMapping);
+    expect(scene.backgroundIntensity).toBe(0.5);
+
+    background.update();
+    expect(scene.background).toBe(texture);
+
+    options.image.projection = 'cube';
+    background.update();
+    expect(scene.background).toBe(options.color);
+
+    options.image.urls = Array(6).fill('assets/lensflare0.png');
+    background.update();
+    expect(scene.background).toBeInstanceOf(CubeTexture);
+  });
+
+  it('should remove itself from the scene on dispose', () => {
+    background.dispose();
+    expect(background.group.parent).toBeNull();
+    expect(scene.background).toBeNull();
+  });
+});
@@ -0,0 +1,448 @@
+/**
+ * Sun Background Class
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Deep-space background of a scene: a plain color, a procedural starfield,
+ * a noise nebula behind the stars, or an equirectangular / cube-map image.
+ * Stars and nebula are drawn at infinity, so they follow camera rotation but
+ * never move with the camera position.
+ */
+
+import {
+  AdditiveBlending,
+  BackSide,
+  BoxGeometry,
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  CubeTextureLoader,
+  EquirectangularReflectionMapping,
+  Group,
+  Mesh,
+  Points,
+  Scene,
+  ShaderMaterial,
+  SRGBColorSpace,
+  Texture,
+  TextureLoader,
+  Uniform,
+  Vector3,
+} from 'three';
+import { SeededSunRandom } from './sun-random';
+import { getBlackbodyColor } from './sun-blackbody';
+
+export type SunBackgroundMode = 'color' | 'starfield' | 'nebula' | 'image';
+
+export type SunBackgroundProjection = 'equirectangular' | 'cube';
+
+/** Order of the cube-map faces in `SunBackgroundImageOptions.urls` */
+export const SUN_BACKGROUND_CUBE_FACES = ['px', 'nx', 'py', 'ny', 'pz', 'nz'];
+
+/** Drawn before all other transparent objects, behind everything opaque */
+const BACKGROUND_RENDER_ORDER = -1000;
+
+export interface SunStarfieldOptions {
+  /** Number of stars on the whole sky */
+  count: number;
+  /** Seed of the star positions, magnitudes and colors */
+  seed: number;
+  /** Magnitude of the faintest stars; brighter stars have lower magnitudes */
+  limitingMagnitude: number;
+  /**
+   * Growth of the star count per magnitude: N(m) ∝ 10^(slope · m).
+   * 0 spreads the stars evenly over all magnitudes.
+   */
+  magnitudeSlope: number;
+  /** Point size (in pixels) of a magnitude 0 star */
+  size: number;
+  brightness: number;
+  /** Range of the star color temperatures (in Kelvin), sampled log-uniformly */
+  minTemperature: number;
+  maxTemperature: number;
+  /** Depth of the brightness flicker [0..1] */
+  twinkle: number;
+  twinkleSpeed: number;
+}
+
+export interface SunNebulaOptions {
+  primaryColor: Color;
+  secondaryColor: Color;
+  intensity: number;
+  /** Noise frequency on the sky: higher values give smaller clouds */
+  scale: number;
+  /** Share of the sky covered by clouds [0..1] */
+  coverage: number;
+  /** Seed of the noise offset */
+  seed: number;
+}
+
+export interface SunBackgroundImageOptions {
+  projection: SunBackgroundProjection;
+  /**
+   * One equirectangular image, or six cube-map faces in the order of
+   * `SUN_BACKGROUND_CUBE_FACES`
+   */
+  urls: string[];
+  intensity: number;
+}
+
+export interface SunBackgroundOptions {
+  mode: SunBackgroundMode;
+  /** Clear color; also shows behind stars and nebula */
+  color: Color;
+  starfield: SunStarfieldOptions;
+  /** Nebula mode draws the starfield in front of the nebula */
+  nebula: SunNebulaOptions;
+  image: SunBackgroundImageOptions;
+}
+
+/**
+ * Projects a world-space direction to the far plane, ignoring the camera
+ * position.
+ */
+const AT_INFINITY_VERTEX = `
+  vec4 projectDirection(vec3 direction) {
+    vec4 clip = projectionMatrix * vec4(mat3(viewMatrix) * direction, 0.0);
+    return clip.xyww;
+  }
+`;
+
+export class SunBackground {
+  /** Holds stars and nebula, attached to the scene */
+  group = new Group();
+  stars?: Points<BufferGeometry, ShaderMaterial>;
+  nebula?: Mesh<BoxGeometry, ShaderMaterial>;
+
+  /** Accumulated time driving the twinkle (in seconds) */
+  time = 0;
+
+  private starsKey = '';
+  private nebulaSeed?: number;
+  private imageKey = '';
+  private imageTexture: Texture | null = null;
+  private textureLoader = new TextureLoader();
+  private cubeTextureLoader = new CubeTextureLoader();
+
+  /**
+   * @param scene Scene whose background is managed.
+   * @param options Background options.
+   */
+  constructor(
+    private scene: Scene,
+    public options: SunBackgroundOptions
+  ) {
+    this.scene.add(this.group);
+    this.update();
+  }
+
+  /**
+   * Syncs the background with the options and advances the twinkle.
+   * @param deltaTime Frame delta time (in seconds).
+   */
+  update(deltaTime = 0): void {
+    this.time += deltaTime;
+    const { mode, starfield, nebula } = this.options;
+
+    const image = mode === 'image' ? this.syncImage(this.options.image) : null;
+    this.scene.background = image ?? this.options.color;
+    this.scene.backgroundIntensity = image ? this.options.image.intensity : 1;
+
+    const showStars = mode === 'starfield' || mode === 'nebula';
+    if (showStars) this.syncStars(starfield);
+    if (this.stars) this.stars.visible = showStars;
+
+    const showNebula = mode === 'nebula';
+    if (showNebula) this.syncNebula(nebula);
+    if (this.nebula) this.nebula.visible = showNebula;
+  }
+
+  /**
+   * Rebuilds the stars when their distribution changed and updates the
+   * per-frame uniforms.
+   */
+  private syncStars(options: SunStarfieldOptions): void {
+    const key = [
+      options.count,
+      options.seed,
+      options.limitingMagnitude,
+      options.magnitudeSlope,
+      options.minTemperature,
+      options.maxTemperature,
+    ].join();
+
+    if (!this.stars) {
+      this.stars = new Points(new BufferGeometry(), this.createStarMaterial());
+      this.stars.frustumCulled = false;
+      this.stars.renderOrder = BACKGROUND_RENDER_ORDER + 1;
+      this.group.add(this.stars);
+    }
+    if (key !== this.starsKey) {
+      this.starsKey = key;
+      this.stars.geometry.dispose();
+      this.stars.geometry = this.createStarGeometry(options);
+    }
+
+    const uniforms = this.stars.material.uniforms;
+    uniforms['size'].value = options.size;
+    uniforms['brightness'].value = options.brightness;
+    uniforms['twinkle'].value = options.twinkle;
+    uniforms['time'].value = this.time * options.twinkleSpeed;
+  }
+
+  private syncNebula(options: SunNebulaOptions): void {
+    if (!this.nebula) {
+      this.nebula = new Mesh(
+        new BoxGeometry(2, 2, 2),
+        this.createNebulaMaterial()
+      );
+      this.nebula.frustumCulled = false;
+      this.nebula.renderOrder = BACKGROUND_RENDER_ORDER;
+      this.group.add(this.nebula);
+    }
+
+    const uniforms = this.nebula.material.uniforms;
+    uniforms['primaryColor'].value.copy(options.primaryColor);
+    uniforms['secondaryColor'].value.copy(options.secondaryColor);
+    uniforms['intensity'].value = options.intensity;
+    uniforms['scale'].value = options.scale;
+    uniforms['coverage'].value = options.coverage;
+    if (this.nebulaSeed !== options.seed) {
+      const random = new SeededSunRandom(options.seed);
+      this.nebulaSeed = options.seed;
+      uniforms['offset'].value.set(
+        random.next() * 100,
+        random.next() * 100,
+        random.next() * 100
+      );
+    }
+  }
+
+  /**
+   * Loads the background image when the URLs changed.
+   * @returns The texture, or null while no complete set of URLs is given.
+   */
+  private syncImage(options: SunBackgroundImageOptions): Texture | null {
+    const urls = options.urls.filter((url) => !!url);
+    const complete =
+      options.projection === 'cube'
+        ? urls.length === SUN_BACKGROUND_CUBE_FACES.length
+        : urls.length > 0;
+    const key = complete ? [options.projection, ...urls].join('|') : '';
+
+    if (key !== this.imageKey) {
+      this.imageKey = key;
+      this.imageTexture?.dispose();
+      this.imageTexture = null;
+
+      if (options.projection === 'cube' && complete) {
+        this.imageTexture = this.cubeTextureLoader.load(urls);
+      } else if (complete) {
+        this.imageTexture = this.textureLoader.load(urls[0]);
+        this.imageTexture.mapping = EquirectangularReflectionMapping;
+      }
+      if (this.imageTexture) this.imageTexture.colorSpace = SRGBColorSpace;
+    }
+    return this.imageTexture;
+  }
+
+  /**
+   * Places `count` stars uniformly on the sky. Magnitudes follow
+   * N(m) ∝ 10^(slope · m) up to the limiting magnitude, colors a log-uniform
+   * blackbody temperature.
+   */
+  private createStarGeometry(options: SunStarfieldOptions): BufferGeometry {
+    const random = new SeededSunRandom(options.seed);
+    const count = Math.max(0, Math.floor(options.count));
+    const positions = new Float32Array(count * 3);
+    const magnitudes = new Float32Array(count);
+    const colors = new Float32Array(count * 3);
+    const twinkles = new Float32Array(count * 2);
+    const direction = new Vector3();
+    const color = new Color();
+
+    const slope = options.magnitudeSlope;
+    const limit = options.limitingMagnitude;
+    const minTemperature = Math.max(1, options.minTemperature);
+    const maxTemperature = Math.max(minTemperature, options.maxTemperature);
+
+    for (let i = 0; i < count; i++) {
+      const z = random.next() * 2 - 1;
+      const phi = random.next() * Math.PI * 2;
+      const ring = Math.sqrt(1 - z * z);
+      direction.set(ring * Math.cos(phi), ring * Math.sin(phi), z);
+      direction.toArray(positions, i * 3);
+
+      // Inverse of the cumulative distribution of N(m)
+      const u = random.next();
+      magnitudes[i] =
+        slope === 0
+          ? u * limit
+          : Math.log10(1 + u * (Math.pow(10, slope * limit) - 1)) / slope;
+
+      const temperature =
+        minTemperature *
+        Math.pow(maxTemperature / minTemperature, random.next());
+      getBlackbodyColor(temperature, color).toArray(colors, i * 3);
+
+      twinkles[i * 2] = random.next() * Math.PI * 2;
+      twinkles[i * 2 + 1] = 0.5 + random.next() * 2.5;
+    }
+
+    const geometry = new BufferGeometry();
+    geometry.setAttribute('position', new BufferAttribute(positions, 3));
+    geometry.setAttribute('magnitude', new BufferAttribute(magnitudes, 1));
+    geometry.setAttribute('starColor', new BufferAttribute(colors, 3));
+    geometry.setAttribute('twinkleWave', new BufferAttribute(twinkles, 2));
+    return geometry;
+  }
+
+  private createStarMaterial(): ShaderMaterial {
+    return new ShaderMaterial({
+      uniforms: {
+        size: new Uniform(1),
+        brightness: new Uniform(1),
+        twinkle: new Uniform(0),
+        time: new Uniform(0),
+      },
+      vertexShader: `
+        uniform float size;
+        uniform float brightness;
+        uniform float twinkle;
+        uniform float time;
+
+        attribute float magnitude;
+        attribute vec3 starColor;
+        attribute vec2 twinkleWave;
+
+        varying vec3 vColor;
+
+        ${AT_INFINITY_VERTEX}
+
+        void main() {
+          gl_Position = projectDirection(position);
+
+          // Faint stars shrink to a minimum size and lose brightness instead
+          float flux = pow(10.0, -0.4 * magnitude);
+          gl_PointSize = max(size * sqrt(flux), 1.5);
+          float energy = flux * size * size / (gl_PointSize * gl_PointSize);
+
+          float wave = sin(time * twinkleWave.y + twinkleWave.x);
+          float flicker = 1.0 - twinkle * (0.5 + 0.5 * wave);
+          vColor = starColor * brightness * energy * flicker;
+        }
+      `,
+      fragmentShader: `
+        varying vec3 vColor;
+
+        void main() {
+          vec2 p = gl_PointCoord * 2.0 - 1.0;
+          float falloff = max(1.0 - dot(p, p), 0.0);
+          gl_FragColor = vec4(vColor * falloff * falloff, 1.0);
+        }
+      `,
+      transparent: true,
+      depthWrite: false,
+      blending: AdditiveBlending,
+    });
+  }
+
+  private createNebulaMaterial(): ShaderMaterial {
+    return new ShaderMaterial({
+      uniforms: {
+        primaryColor: new Uniform(new Color()),
+        secondaryColor: new Uniform(new Color()),
+        intensity: new Uniform(1),
+        scale: new Uniform(1),
+        coverage: new Uniform(0.5),
+        offset: new Uniform(new Vector3()),
+      },
+      vertexShader: `
+        varying vec3 vDirection;
+
+        ${AT_INFINITY_VERTEX}
+
+        void main() {
+          vDirection = position;
+          gl_Position = projectDirection(position);
+        }
+      `,
+      fragmentShader: `
+        uniform vec3 primaryColor;
+        uniform vec3 secondaryColor;
+        uniform float intensity;
+        uniform float scale;
+        uniform float coverage;
+        uniform vec3 offset;
+
+        varying vec3 vDirection;
+
+        // 3D noise helpers
+        float hash(vec3 p) {
+          return fract(sin(dot(p, vec3(127.1, 311.7, 74.7))) * 43758.5453);
+        }
+
+        float noise(vec3 p) {
+          vec3 i = floor(p);
+          vec3 f = fract(p);
+          vec3 u = f * f * (3.0 - 2.0 * f);
+          return mix(
+            mix(mix(hash(i), hash(i + vec3(1,0,0)), u.x),
+                mix(hash(i + vec3(0,1,0)), hash(i + vec3(1,1,0)), u.x), u.y),
+            mix(mix(hash(i + vec3(0,0,1)), hash(i + vec3(1,0,1)), u.x),
+                mix(hash(i + vec3(0,1,1)), hash(i + vec3(1,1,1)), u.x), u.y),
+            u.z
+          );
+        }
+
+        float fbm(vec3 p) {
+          float value = 0.0;
+          float amplitude = 0.5;
+          for (int i = 0; i < 5; i++) {
+            value += amplitude * noise(p);
+            p *= 2.0;
+            amplitude *= 0.5;
+          }
+          return value;
+        }
+
+        void main() {
+          vec3 p = normalize(vDirection) * scale + offset;
+
+          // Layers: a coarse warp, the cloud shape and fine filaments
+          float warp = fbm(p * 0.5);
+          float cloud = fbm(p + warp * 2.0);
+          float detail = fbm(p * 4.0 + cloud);
+
+          float threshold = 1.0 - coverage;
+          float density = smoothstep(threshold, threshold + 0.35, cloud);
+          density *= 0.6 + 0.4 * detail;
+          float tint = smoothstep(0.3, 0.7, detail);
+          vec3 color = mix(primaryColor, secondaryColor, tint);
+          gl_FragColor = vec4(color * density * intensity, 1.0);
+        }
+      `,
+      side: BackSide,
+      transparent: true,
+      depthWrite: false,
+      blending: AdditiveBlending,
+    });
+  }
+
+  /**
+   * Removes stars and nebula from the scene, releases their resources and
+   * the background image.
+   */
+  dispose(): void {
+    this.stars?.geometry.dispose();
+    this.stars?.material.dispose();
+    this.nebula?.geometry.dispose();
+    this.nebula?.material.dispose();
+    this.imageTexture?.dispose();
+    this.imageTexture = null;
+    this.group.removeFromParent();
+    this.scene.background = null;
+  }
+}
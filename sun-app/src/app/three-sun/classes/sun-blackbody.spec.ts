@@ -0,0 +1,30 @@
+import { Color, SRGBColorSpace } from 'three';
+import { getBlackbodyColor } from './sun-blackbody';
+
+describe('getBlackbodyColor', () => {
+  it('should turn from red over white to blue with rising temperature', () => {
+    const cool = getBlackbodyColor(2000).getRGB(new Color(), SRGBColorSpace);
+    expect(cool.r).toBeCloseTo(1);
+    expect(cool.b).toBeLessThan(0.2);
+
+    const white = getBlackbodyColor(6600).getRGB(new Color(), SRGBColorSpace);
+    expect(white.r).toBeCloseTo(1, 1);
+    expect(white.g).toBeCloseTo(1, 1);
+    expect(white.b).toBeCloseTo(1);
+
+    const hot = getBlackbodyColor(20000).getRGB(new Color(), SRGBColorSpace);
+    expect(hot.r).toBeLessThan(hot.b);
+  });
+
+  it('should clamp temperatures outside the fitted range', () => {
+    expect(getBlackbodyColor(100).equals(getBlackbodyColor(1000))).toBeTrue();
+    expect(
+      getBlackbodyColor(1e6).equals(getBlackbodyColor(40000))
+    ).toBeTrue();
+  });
+
+  it('should write into the target color', () => {
+    const target = new Color();
+    expect(getBlackbodyColor(5800, target)).toBe(target);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Sun Blackbody
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Approximates the color of a blackbody radiator at a given temperature,
+ * e.g. for star colors. Curve fit by Tanner Helland, valid from 1000 K to
+ * 40000 K.
+ */
+
+import { Color, MathUtils, SRGBColorSpace } from 'three';
+
+/** Temperature range covered by the curve fit (in Kelvin) */
+export const BLACKBODY_MIN_TEMPERATURE = 1000;
+export const BLACKBODY_MAX_TEMPERATURE = 40000;
+
+/**
+ * Returns the normalized color of a blackbody: the brightest channel is 1.
+ * @param temperature Temperature (in Kelvin), clamped to the fitted range.
+ * @param target Color receiving the result.
+ */
+export function getBlackbodyColor(
+  temperature: number,
+  target = new Color()
+): Color {
+  const t =
+    MathUtils.clamp(
+      temperature,
+      BLACKBODY_MIN_TEMPERATURE,
+      BLACKBODY_MAX_TEMPERATURE
+    ) / 100;
+
+  const red = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const green =
+    t <= 66
+      ? 99.4708025861 * Math.log(t) - 161.1195681661
+      : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  const blue =
+    t >= 66
+      ? 255
+      : t <= 19
+      ? 0
+      : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+
+  return target.setRGB(
+    MathUtils.clamp(red, 0, 255) / 255,
+    MathUtils.clamp(green, 0, 255) / 255,
+    MathUtils.clamp(blue, 0, 255) / 255,
+    SRGBColorSpace
+  );
+}
@@ -25,6 +25,7 @@ export class SunCorona {
   lastCameraPosition: any;
   private lastSunRotation?: Euler;
   private reactiveRotationAccumulator = { x: 0, y: 0, z: 0 };
+  private sunWorldPosition = new Vector3();
   /**
    *
    * @param sun Reference to the main Three.js sun service.
@@ -120,7 +121,6 @@ export class SunCorona {
     this.mesh.renderOrder = this.options.zIndex || 0;
     this.coronaService.options = this.options;
     this.coronaService.animate(deltaTime);
-    this.mesh.position.copy(this.sun.sunMesh.position);
     const currentSunRotation = this.sun.sunMesh.rotation.clone();
     let sunRotationDelta = { x: 0, y: 0, z: 0 };
     if (this.lastSunRotation) {
@@ -136,13 +136,16 @@ export class SunCorona {
       this.lastSunRotation.copy(currentSunRotation);
     }
     const cameraMovementThreshold = 0.001; // Adjust based on your scene scale
-    const currentCameraPosition = this.sun.camera.position;
+    // Camera position relative to the sun, so moving or orbiting suns re-face the camera too
+    const currentCameraPosition = this.sun.camera.position
+      .clone()
+      .sub(this.sun.getWorldPosition(this.sunWorldPosition));
     if (
       !this.lastCameraPosition ||
       this.lastCameraPosition.distanceTo(currentCameraPosition) >
         cameraMovementThreshold
     ) {
-      this.mesh.lookAt(currentCameraPosition);
+      this.mesh.lookAt(this.sun.camera.position);
       if (!this.lastCameraPosition) {
         this.lastCameraPosition = currentCameraPosition.clone();
       } else {
@@ -200,4 +203,13 @@ export class SunCorona {
       }
     }
   }
+
+  /**
+   * Detaches the corona from the sun and disposes its geometry and material.
+   */
+  destroy(): void {
+    this.mesh.removeFromParent();
+    this.geometry.dispose();
+    this.coronaService.dispose();
+  }
 }
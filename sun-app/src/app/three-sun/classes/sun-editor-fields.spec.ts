@@ -0,0 +1,161 @@
+import { Color } from 'three';
+import { ThreeSunConfig } from '../three-sun.config';
+import { ThreeSunOptions } from '../three-sun.service';
+import {
+  addSunEditorItem,
+  formatSunOptionsPath,
+  getSunEditorSections,
+  getSunEditorStructureKey,
+  getSunOptionsValue,
+  isSunEditorFieldVisible,
+  moveSunEditorItem,
+  parseSunOptionsPath,
+  removeSunEditorItem,
+  setSunOptionsValue,
+  SUN_EDITOR_GROUPS,
+  SunEditorField,
+} from './sun-editor-fields';
+import { SUN_BUILT_IN_PRESETS } from './sun-preset-library';
+
+describe('SunEditorFields', () => {
+  let options: ThreeSunOptions;
+
+  const getFields = () =>
+    getSunEditorSections(options).flatMap((section) => section.fields);
+  const getField = (id: string): SunEditorField =>
+    getFields().find((field) => field.id === id)!;
+
+  beforeEach(() => {
+    options = new ThreeSunConfig().options;
+  });
+
+  it('should parse and format option paths', () => {
+    const path = parseSunOptionsPath('postProcessing.passes[2].density');
+    expect(path).toEqual(['postProcessing', 'passes', 2, 'density']);
+    expect(formatSunOptionsPath(path)).toBe('postProcessing.passes[2].density');
+    expect(getSunOptionsValue(options, parseSunOptionsPath('coronas[0]'))).toBe(
+      options.coronas[0]
+    );
+  });
+
+  it('should set colors in place', () => {
+    const color = options.shader.baseColor;
+    expect(
+      setSunOptionsValue(options, ['shader', 'baseColor'], '#ff0000')
+    ).toBe(true);
+    expect(options.shader.baseColor).toBe(color);
+    expect(color.getHexString()).toBe('ff0000');
+    expect(setSunOptionsValue(options, ['missing', 'value'], 1)).toBe(false);
+  });
+
+  it('should group the fields into ordered sections', () => {
+    const titles = getSunEditorSections(options).map(
+      (section) => section.title
+    );
+    expect(titles).toEqual(
+      SUN_EDITOR_GROUPS.filter((group) => titles.includes(group))
+    );
+    expect(titles).toContain('Rotation');
+
+    const ids = getFields().map((field) => field.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain('rotation.direction.x');
+    expect(ids).toContain('rotation.speed');
+    expect(ids).toContain('geometry.radius');
+    expect(ids).toContain('geometry.segments');
+    expect(ids).not.toContain('postProcessing.passes[0].type');
+  });
+
+  it('should label fields with the labels of their objects', () => {
+    expect(getField('sunspots.active').label).toBe('sunspots');
+    expect(getField('sunspots.min.size').label).toBe('min size');
+    expect(getField('solarEruptions.flareOptions.max.turbulence').label).toBe(
+      'flare max turbulence'
+    );
+    expect(getField('rotation.differential.active').label).toBe('differential');
+    expect(getField('light.intensity').label).toBe('light intensity');
+    expect(getField('coronas[1]').label).toBe('corona 2');
+    expect(getField('postProcessing.passes[0]').label).toBe('1. god rays');
+  });
+
+  it('should only offer slider ranges that hold the defaults and presets', () => {
+    const presets = [
+      options,
+      ...SUN_BUILT_IN_PRESETS.map((preset) => preset.createOptions()),
+    ];
+    for (const preset of presets) {
+      options = preset;
+      for (const field of getFields()) {
+        if (field.kind !== 'number') continue;
+        expect(field.min).withContext(field.id).toBeDefined();
+        expect(field.max).withContext(field.id).toBeDefined();
+        expect(field.step).withContext(field.id).toBeGreaterThan(0);
+
+        const value = getSunOptionsValue(preset, field.path) as number;
+        // Optional, e.g. `seed`
+        if (value === undefined) continue;
+        expect(value).withContext(field.id).toBeGreaterThanOrEqual(field.min!);
+        expect(value).withContext(field.id).toBeLessThanOrEqual(field.max!);
+      }
+    }
+  });
+
+  it('should hide fields of inactive objects and unmet conditions', () => {
+    const count = getField('sunspots.count');
+    options.sunspots.active = false;
+    expect(isSunEditorFieldVisible(count, options)).toBeFalse();
+    options.sunspots.active = true;
+    expect(isSunEditorFieldVisible(count, options)).toBeTrue();
+
+    const baseColor = getField('shader.baseColor');
+    options.temperature.active = true;
+    expect(isSunEditorFieldVisible(baseColor, options)).toBeFalse();
+    expect(getField('coronas[0].edgeFadeEnd').minPath).toEqual([
+      'coronas',
+      0,
+      'edgeFadeStart',
+    ]);
+  });
+
+  it('should add, move and remove list items', () => {
+    const key = getSunEditorStructureKey(options);
+    const count = options.coronas.length;
+    addSunEditorItem(options, getField('coronas[]'));
+    expect(options.coronas.length).toBe(count + 1);
+    expect(options.coronas[count]).not.toBe(options.coronas[count - 1]);
+    expect(options.coronas[count].glowColor).not.toBe(
+      options.coronas[count - 1].glowColor
+    );
+    expect(getSunEditorStructureKey(options)).not.toBe(key);
+
+    const passes = options.postProcessing.passes;
+    const first = passes[0];
+    moveSunEditorItem(options, getField('postProcessing.passes[0]'), 1);
+    expect(passes[1]).toBe(first);
+    addSunEditorItem(options, getField('postProcessing.passes[]'), 'vignette');
+    expect(passes[passes.length - 1].type).toBe('vignette');
+    removeSunEditorItem(options, getField('postProcessing.passes[1]'));
+    expect(passes).not.toContain(first);
+
+    options.planets.bodies = [];
+    addSunEditorItem(options, getField('planets.bodies[]'));
+    expect(options.planets.bodies[0].name).toBe('Planet 1');
+    expect(options.planets.bodies[0].color).toEqual(new Color('#a0a0a0'));
+  });
+
+  it('should size fixed lists by their options', () => {
+    options.background.image.projection = 'cube';
+    const urls = getFields().filter(
+      (field) => field.path[2] === 'urls' && field.kind === 'string'
+    );
+    expect(urls.map((field) => field.label)).toEqual([
+      'px',
+      'nx',
+      'py',
+      'ny',
+      'pz',
+      'nz',
+    ]);
+    expect(getField('background.image.urls[]')).toBeUndefined();
+  });
+});
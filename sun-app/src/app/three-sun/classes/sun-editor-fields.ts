@@ -0,0 +1,575 @@
+/**
+ * Sun Editor Fields
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Turns the editor metadata of SUN_OPTIONS_SCHEMA into a flat list of editor
+ * fields, grouped into sections. Fields address their value by path (e.g.
+ * `coronas[0].size`), so the editor needs no code per option: a new option
+ * only needs its schema node. List items get a header field (remove, move)
+ * and lists an add field.
+ */
+
+import { Color } from 'three';
+import { ThreeSunOptions } from '../three-sun.service';
+import { ThreeSunConfig } from '../three-sun.config';
+import {
+  SUN_OPTIONS_SCHEMA,
+  SunArraySchema,
+  SunObjectSchema,
+  SunSchemaNode,
+} from './sun-options-schema';
+
+/** Path into ThreeSunOptions, e.g. `['coronas', 0, 'size']` */
+export type SunOptionsPath = (string | number)[];
+
+export type SunEditorFieldKind =
+  | 'number'
+  | 'boolean'
+  | 'select'
+  | 'string'
+  | 'color'
+  /** Header of a list item */
+  | 'item'
+  /** Adds an item to a list */
+  | 'add'
+  /** Button handled by the editor, see `SunSchemaAction` */
+  | 'action';
+
+export interface SunEditorChoice {
+  value: string;
+  label: string;
+}
+
+export interface SunEditorField {
+  /** Unique within the editor, e.g. `coronas[0].size` */
+  id: string;
+  kind: SunEditorFieldKind;
+  /** Path of the value; of the item for `item`, of the list for `add` */
+  path: SunOptionsPath;
+  label: string;
+  description?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  /** Value used as the minimum instead of `min`, from order constraints */
+  minPath?: SunOptionsPath;
+  /** Options of `select` fields, variants of `add` fields of union lists */
+  choices?: SunEditorChoice[];
+  /** Schema of the list of `item` and `add` fields */
+  list?: SunArraySchema;
+  /** Position of `item` fields in their list */
+  index?: number;
+  /** Length of the list of `item` fields */
+  count?: number;
+  /** Id of `action` fields */
+  action?: string;
+  /** `active` toggles that have to be on, e.g. `sunspots.active` */
+  switches: SunOptionsPath[];
+  /** `visible` conditions of the node and its ancestors */
+  conditions: ((options: ThreeSunOptions) => boolean)[];
+}
+
+export interface SunEditorSection {
+  title: string;
+  fields: SunEditorField[];
+}
+
+/**
+ * Order of the editor sections. Groups not listed here follow at the end.
+ */
+export const SUN_EDITOR_GROUPS = [
+  'Colors',
+  'Sun',
+  'Sun Shader',
+  'Rotation',
+  'Orbit',
+  'Sunspots',
+  'Solar Eruptions',
+  'Prominences',
+  'Coronal Mass Ejections',
+  'Lens Flare',
+  'Light & Planets',
+  'Background',
+  'Post Processing',
+  'Coronas',
+];
+
+/** Section of nodes without a group */
+const DEFAULT_GROUP = 'Other';
+
+interface WalkContext {
+  group: string;
+  /** Prepended to the labels, e.g. `flare min` */
+  prefix: string;
+  switches: SunOptionsPath[];
+  conditions: SunEditorField['conditions'];
+  /** Lower bounds by field id, from the order constraints of ancestors */
+  minPaths: Map<string, SunOptionsPath>;
+}
+
+/**
+ * Parses a path like `coronas[0].size`.
+ */
+export function parseSunOptionsPath(path: string): SunOptionsPath {
+  return path
+    .split(/\.|\[(\d+)\]/)
+    .filter((key) => key !== undefined && key !== '')
+    .map((key) => (/^\d+$/.test(key) ? Number(key) : key));
+}
+
+/**
+ * Formats a path like `coronas[0].size`.
+ */
+export function formatSunOptionsPath(path: SunOptionsPath): string {
+  return path
+    .map((key, index) =>
+      typeof key === 'number' ? `[${key}]` : index ? `.${key}` : key
+    )
+    .join('');
+}
+
+export function getSunOptionsValue(
+  options: ThreeSunOptions,
+  path: SunOptionsPath
+): unknown {
+  return path.reduce<unknown>(
+    (node, key) =>
+      typeof node === 'object' && node !== null
+        ? (node as { [key: string]: unknown })[key]
+        : undefined,
+    options
+  );
+}
+
+/**
+ * Sets a value; colors are updated in place, so references to them stay
+ * valid.
+ * @returns Whether the parent of the value exists.
+ */
+export function setSunOptionsValue(
+  options: ThreeSunOptions,
+  path: SunOptionsPath,
+  value: unknown
+): boolean {
+  const parent = getSunOptionsValue(options, path.slice(0, -1));
+  if (typeof parent !== 'object' || parent === null) return false;
+
+  const record = parent as { [key: string]: unknown };
+  const key = path[path.length - 1];
+  const current = record[key];
+  if (current instanceof Color && value !== undefined) {
+    current.set(value as Color | string | number);
+  } else {
+    record[key] = value;
+  }
+  return true;
+}
+
+/**
+ * Builds the editor sections for the current options. List items and
+ * union variants depend on the options, so rebuild the sections when
+ * `getSunEditorStructureKey` changes.
+ */
+export function getSunEditorSections(
+  options: ThreeSunOptions,
+  schema: SunObjectSchema = SUN_OPTIONS_SCHEMA
+): SunEditorSection[] {
+  const sections = new Map<string, SunEditorField[]>();
+  const add = (group: string, field: SunEditorField) => {
+    if (!sections.has(group)) sections.set(group, []);
+    sections.get(group)!.push(field);
+  };
+  walkObject(options, schema, [], add, {
+    group: schema.group ?? DEFAULT_GROUP,
+    prefix: '',
+    switches: [],
+    conditions: [],
+    minPaths: new Map(),
+  });
+
+  const rank = (title: string) => {
+    const index = SUN_EDITOR_GROUPS.indexOf(title);
+    return index < 0 ? SUN_EDITOR_GROUPS.length : index;
+  };
+  return [...sections.entries()]
+    .map(([title, fields]) => ({ title, fields }))
+    .sort((a, b) => rank(a.title) - rank(b.title));
+}
+
+/**
+ * Changes whenever the editor fields change: list lengths, union variants
+ * and item labels.
+ */
+export function getSunEditorStructureKey(
+  options: ThreeSunOptions,
+  schema: SunObjectSchema = SUN_OPTIONS_SCHEMA
+): string {
+  const parts: string[] = [];
+  collectStructure(options, schema, [], parts);
+  return parts.join(';');
+}
+
+/**
+ * Whether a field applies to the current options: its `active` toggles are
+ * on and its conditions are met.
+ */
+export function isSunEditorFieldVisible(
+  field: SunEditorField,
+  options: ThreeSunOptions
+): boolean {
+  return (
+    field.switches.every(
+      (path) => getSunOptionsValue(options, path) === true
+    ) && field.conditions.every((condition) => condition(options))
+  );
+}
+
+/**
+ * Value an `add` field appends to its list: `create` of the list schema,
+ * otherwise a copy of the last (or first default) item. `type` picks the
+ * variant of union lists.
+ */
+export function createSunEditorItem(
+  options: ThreeSunOptions,
+  field: SunEditorField,
+  type?: string
+): unknown {
+  const items = getList(options, field.path);
+  if (field.list?.create) return field.list.create(items, type);
+
+  const template =
+    items[items.length - 1] ??
+    getList(new ThreeSunConfig().options, field.path)[0];
+  return cloneItem(template);
+}
+
+export function addSunEditorItem(
+  options: ThreeSunOptions,
+  field: SunEditorField,
+  type?: string
+): void {
+  const item = createSunEditorItem(options, field, type);
+  if (item !== undefined) getList(options, field.path).push(item);
+}
+
+export function removeSunEditorItem(
+  options: ThreeSunOptions,
+  field: SunEditorField
+): void {
+  getList(options, field.path.slice(0, -1)).splice(field.index!, 1);
+}
+
+/**
+ * Moves an item by `offset` positions within its list.
+ */
+export function moveSunEditorItem(
+  options: ThreeSunOptions,
+  field: SunEditorField,
+  offset: number
+): void {
+  const items = getList(options, field.path.slice(0, -1));
+  const index = field.index!;
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return;
+  [items[index], items[target]] = [items[target], items[index]];
+}
+
+function walkObject(
+  options: ThreeSunOptions,
+  schema: SunObjectSchema,
+  path: SunOptionsPath,
+  add: (group: string, field: SunEditorField) => void,
+  context: WalkContext
+): void {
+  const minPaths = new Map(context.minPaths);
+  for (const order of schema.order ?? []) {
+    minPaths.set(
+      formatSunOptionsPath([...path, ...parseSunOptionsPath(order.upper)]),
+      [...path, ...parseSunOptionsPath(order.lower)]
+    );
+  }
+  const active = schema.properties['active']?.type === 'boolean';
+
+  for (const [key, node] of Object.entries(schema.properties)) {
+    const switches =
+      active && key !== 'active'
+        ? [...context.switches, [...path, 'active']]
+        : context.switches;
+    walkNode(options, node, [...path, key], key, add, {
+      ...context,
+      switches,
+      minPaths,
+    });
+  }
+
+  for (const action of schema.actions ?? []) {
+    const actionPath = [...path, action.id];
+    add(context.group, {
+      id: formatSunOptionsPath(actionPath),
+      kind: 'action',
+      path: actionPath,
+      label: action.label,
+      action: action.id,
+      switches: context.switches,
+      conditions: context.conditions,
+    });
+  }
+}
+
+function walkNode(
+  options: ThreeSunOptions,
+  node: SunSchemaNode,
+  path: SunOptionsPath,
+  key: string | undefined,
+  add: (group: string, field: SunEditorField) => void,
+  parent: WalkContext
+): void {
+  if (node.hidden) return;
+
+  const group = node.group ?? parent.group;
+  const context: WalkContext = {
+    ...parent,
+    group,
+    conditions: node.visible
+      ? [...parent.conditions, node.visible]
+      : parent.conditions,
+  };
+  const name = node.label ?? (key === undefined ? '' : humanize(key));
+  const label =
+    key === 'active' && node.label === undefined && parent.prefix
+      ? parent.prefix
+      : joinLabel(parent.prefix, name);
+  const id = formatSunOptionsPath(path);
+  const field = (
+    kind: SunEditorFieldKind,
+    settings: Partial<SunEditorField> = {}
+  ): SunEditorField => ({
+    id,
+    kind,
+    path,
+    label,
+    description: node.description,
+    switches: context.switches,
+    conditions: context.conditions,
+    ...settings,
+  });
+
+  switch (node.type) {
+    case 'number': {
+      const [min, max] = node.range ?? [node.min, node.max];
+      add(
+        group,
+        field('number', {
+          min,
+          max,
+          step: node.step ?? getStep(min, max),
+          unit: node.unit,
+          minPath: context.minPaths.get(id),
+        })
+      );
+      return;
+    }
+    case 'boolean':
+      add(group, field('boolean'));
+      return;
+    case 'color':
+      add(group, field('color'));
+      return;
+    case 'string': {
+      const values = node.values ?? node.choices;
+      if (!values) {
+        add(group, field('string'));
+        return;
+      }
+      const choices = values.map((value) => ({
+        value,
+        label: node.valueLabels?.[value] ?? value,
+      }));
+      add(group, field('select', { choices }));
+      return;
+    }
+    case 'vector3': {
+      const [min, max] = node.range ?? [];
+      for (const axis of ['x', 'y', 'z']) {
+        add(group, {
+          ...field('number', {
+            min,
+            max,
+            step: node.step ?? getStep(min, max),
+            unit: node.unit,
+          }),
+          id: formatSunOptionsPath([...path, axis]),
+          path: [...path, axis],
+          label: `${label} ${axis}`,
+        });
+      }
+      return;
+    }
+    case 'object': {
+      // Top-level objects only prefix their fields when labelled explicitly
+      const prefix =
+        path.length === 1 || typeof key !== 'string'
+          ? joinLabel(parent.prefix, node.label ?? '')
+          : joinLabel(parent.prefix, name);
+      walkObject(options, node, path, add, { ...context, prefix });
+      return;
+    }
+    case 'union': {
+      const item = getSunOptionsValue(options, path) as { type?: unknown };
+      const variant =
+        typeof item?.type === 'string' ? node.variants[item.type] : undefined;
+      if (variant) walkNode(options, variant, path, undefined, add, context);
+      return;
+    }
+    case 'array':
+      walkArray(options, node, path, name, add, context);
+  }
+}
+
+function walkArray(
+  options: ThreeSunOptions,
+  node: SunArraySchema,
+  path: SunOptionsPath,
+  name: string,
+  add: (group: string, field: SunEditorField) => void,
+  context: WalkContext
+): void {
+  const items = getList(options, path);
+  const count = node.length ? node.length(options) : items.length;
+  const structured =
+    node.items.type === 'object' || node.items.type === 'union';
+  const itemLabel = (index: number) => {
+    const item = items[index];
+    if (node.itemLabel) return node.itemLabel(item, index, options);
+    if (node.items.type === 'union') {
+      const type = (item as { type?: unknown })?.type;
+      return `${index + 1}. ${humanize(String(type))}`;
+    }
+    return `${name} ${index + 1}`;
+  };
+  const listField = (
+    kind: SunEditorFieldKind,
+    fieldPath: SunOptionsPath,
+    label: string
+  ): SunEditorField => ({
+    id: formatSunOptionsPath(fieldPath),
+    kind,
+    path: fieldPath,
+    label,
+    description: node.description,
+    list: node,
+    switches: context.switches,
+    conditions: context.conditions,
+  });
+
+  for (let index = 0; index < count; index++) {
+    const itemPath = [...path, index];
+    if (!structured) {
+      walkNode(options, node.items, itemPath, undefined, add, {
+        ...context,
+        prefix: itemLabel(index),
+      });
+      continue;
+    }
+    if (!node.length) {
+      add(context.group, {
+        ...listField('item', itemPath, itemLabel(index)),
+        index,
+        count,
+      });
+    }
+    // Items start a new label prefix
+    walkNode(options, node.items, itemPath, undefined, add, {
+      ...context,
+      prefix: '',
+    });
+  }
+
+  if (node.length) return;
+  const addField = listField('add', [...path], `add ${name}`);
+  addField.id = `${addField.id}[]`;
+  if (node.items.type === 'union') {
+    addField.choices = Object.keys(node.items.variants).map((type) => ({
+      value: type,
+      label: humanize(type),
+    }));
+  }
+  add(context.group, addField);
+}
+
+function collectStructure(
+  options: ThreeSunOptions,
+  node: SunSchemaNode,
+  path: SunOptionsPath,
+  parts: string[]
+): void {
+  switch (node.type) {
+    case 'object':
+      for (const [key, property] of Object.entries(node.properties)) {
+        collectStructure(options, property, [...path, key], parts);
+      }
+      return;
+    case 'union': {
+      const item = getSunOptionsValue(options, path) as { type?: unknown };
+      const variant =
+        typeof item?.type === 'string' ? node.variants[item.type] : undefined;
+      parts.push(String(item?.type));
+      if (variant) collectStructure(options, variant, path, parts);
+      return;
+    }
+    case 'array': {
+      const items = getList(options, path);
+      const count = node.length ? node.length(options) : items.length;
+      parts.push(`${formatSunOptionsPath(path)}:${count}`);
+      for (let index = 0; index < count; index++) {
+        if (node.itemLabel) {
+          parts.push(node.itemLabel(items[index], index, options));
+        }
+        collectStructure(options, node.items, [...path, index], parts);
+      }
+    }
+  }
+}
+
+function getList(options: ThreeSunOptions, path: SunOptionsPath): unknown[] {
+  const list = getSunOptionsValue(options, path);
+  return Array.isArray(list) ? list : [];
+}
+
+/**
+ * Copy of a list item, colors and vectors included.
+ */
+function cloneItem(value: unknown): unknown {
+  if (value instanceof Color) return value.clone();
+  if (Array.isArray(value)) return value.map(cloneItem);
+  if (typeof value === 'object' && value !== null) {
+    if ('clone' in value && typeof value.clone === 'function') {
+      return value.clone();
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, cloneItem(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Slider step of about a hundredth of the range, rounded to a power of 10.
+ */
+function getStep(min?: number, max?: number): number | undefined {
+  if (min === undefined || max === undefined || max <= min) return undefined;
+  return Number(`1e${Math.floor(Math.log10((max - min) / 100))}`);
+}
+
+/** `fbmScale` → `fbm scale` */
+function humanize(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+function joinLabel(prefix: string, label: string): string {
+  return [prefix, label].filter(Boolean).join(' ');
+}
@@ -0,0 +1,102 @@
+import {
+  Mesh,
+  MeshBasicMaterial,
+  Object3D,
+  PerspectiveCamera,
+  Scene,
+  SphereGeometry,
+  WebGLRenderer,
+  WebGLRenderTarget,
+} from 'three';
+import { ThreeSunService } from '../three-sun.service';
+import { SunGodRaysPass } from './sun-god-rays-pass';
+
+describe('SunGodRaysPass', () => {
+  let sun: ThreeSunService;
+  let scene: Scene;
+  let camera: PerspectiveCamera;
+  let pass: SunGodRaysPass;
+  let renderer: jasmine.SpyObj<WebGLRenderer>;
+  let readBuffer: WebGLRenderTarget;
+  let writeBuffer: WebGLRenderTarget;
+
+  beforeEach(() => {
+    scene = new Scene();
+    camera = new PerspectiveCamera(60, 1, 0.1, 1000);
+    camera.position.set(0, 0, 30);
+    camera.lookAt(0, 0, 0);
+    camera.updateMatrixWorld();
+
+    sun = new ThreeSunService();
+    sun.initSun(scene, camera);
+    scene.updateMatrixWorld();
+
+    pass = new SunGodRaysPass(sun, camera);
+    renderer = jasmine.createSpyObj<WebGLRenderer>('WebGLRenderer', [
+      'setRenderTarget',
+      'render',
+      'clear',
+    ]);
+    readBuffer = new WebGLRenderTarget(200, 100);
+    writeBuffer = new WebGLRenderTarget(200, 100);
+  });
+
+  afterEach(() => {
+    pass.dispose();
+    readBuffer.dispose();
+    writeBuffer.dispose();
+    sun.destroy();
+  });
+
+  it('should render the occlusion mask at half resolution', () => {
+    pass.setSize(200, 100);
+    expect(pass.occlusionTarget.width).toBe(100);
+    expect(pass.occlusionTarget.height).toBe(50);
+  });
+
+  it('should stream the rays from the projected sun position', () => {
+    pass.render(renderer, writeBuffer, readBuffer);
+
+    const lightPosition = pass.uniforms['lightPosition'].value;
+    expect(lightPosition.x).toBeCloseTo(0.5);
+    expect(lightPosition.y).toBeCloseTo(0.5);
+    expect(pass.uniforms['visibility'].value).toBe(1);
+    expect(pass.uniforms['tDiffuse'].value).toBe(readBuffer.texture);
+    expect(renderer.setRenderTarget).toHaveBeenCalledWith(
+      pass.occlusionTarget
+    );
+    expect(renderer.setRenderTarget).toHaveBeenCalledWith(writeBuffer);
+  });
+
+  it('should mask opaque objects in front of the sun', () => {
+    const planet = new Mesh(new SphereGeometry(3), new MeshBasicMaterial());
+    planet.position.set(0, 0, 15);
+    scene.add(planet);
+    scene.updateMatrixWorld();
+
+    pass.render(renderer, writeBuffer, readBuffer);
+
+    const occlusionScene = renderer.render.calls.first().args[0];
+    const proxies: Object3D[] = [];
+    occlusionScene.traverseVisible((object) => {
+      if (object instanceof Mesh && object.geometry === planet.geometry) {
+        proxies.push(object);
+      }
+    });
+    expect(proxies.length).toBe(1);
+    expect(proxies[0].matrixWorld.equals(planet.matrixWorld)).toBeTrue();
+    expect(planet.parent).toBe(scene);
+  });
+
+  it('should fade out while the sun is behind the camera', () => {
+    camera.lookAt(0, 0, 60);
+    camera.updateMatrixWorld();
+
+    pass.render(renderer, writeBuffer, readBuffer);
+
+    expect(pass.uniforms['visibility'].value).toBe(0);
+    expect(renderer.setRenderTarget).not.toHaveBeenCalledWith(
+      pass.occlusionTarget
+    );
+  });
+});
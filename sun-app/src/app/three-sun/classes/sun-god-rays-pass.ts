@@ -0,0 +1,235 @@
+/**
+ * Sun God Rays Pass
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Screen-space light scattering (volumetric light) streaming from the sun.
+ * Renders an occlusion mask at half resolution, in which the sun disc is white
+ * and every opaque object in front of it is black, then blurs the masked scene
+ * radially towards the projected sun position and adds the result on top.
+ */
+
+import {
+  Camera,
+  Color,
+  Mesh,
+  MeshBasicMaterial,
+  Scene,
+  ShaderMaterial,
+  Uniform,
+  Vector2,
+  Vector3,
+  WebGLRenderer,
+  WebGLRenderTarget,
+} from 'three';
+import {
+  FullScreenQuad,
+  Pass,
+} from 'three/examples/jsm/postprocessing/Pass.js';
+import { ThreeSunService } from '../three-sun.service';
+
+/** Upper bound of `samples`, since GLSL loops need a constant bound */
+export const SUN_GOD_RAYS_MAX_SAMPLES = 200;
+
+/** Size of the occlusion mask relative to the composer targets */
+const OCCLUSION_RESOLUTION = 0.5;
+
+export class SunGodRaysPass extends Pass {
+  /**
+   * Uniforms of the scattering shader: `density`, `decay`, `weight`,
+   * `exposure` and `samples` are set from the pass options.
+   */
+  uniforms: { [name: string]: Uniform };
+
+  /** White sun disc covered by black occluders, sampled by the rays */
+  occlusionTarget = new WebGLRenderTarget(1, 1);
+
+  private occlusionScene = new Scene();
+  private source: Mesh;
+  private sourceMaterial = new MeshBasicMaterial({ color: 0xffffff });
+  private occluderMaterial = new MeshBasicMaterial({ color: 0x000000 });
+  private occluderProxies: Mesh[] = [];
+  private material: ShaderMaterial;
+  private fsQuad: FullScreenQuad;
+  private sunPosition = new Vector3();
+
+  /**
+   * @param sun Sun the rays stream from (`sun.sunMesh`).
+   * @param camera Camera the scene is rendered with.
+   */
+  constructor(
+    private sun: ThreeSunService,
+    private camera: Camera
+  ) {
+    super();
+
+    this.occlusionScene.background = new Color(0x000000);
+    this.source = this.createProxy(this.sourceMaterial);
+
+    this.uniforms = {
+      tDiffuse: new Uniform(null),
+      tOcclusion: new Uniform(this.occlusionTarget.texture),
+      lightPosition: new Uniform(new Vector2(0.5, 0.5)),
+      density: new Uniform(0.96),
+      decay: new Uniform(0.95),
+      weight: new Uniform(0.4),
+      exposure: new Uniform(0.3),
+      samples: new Uniform(60),
+      visibility: new Uniform(1),
+    };
+
+    this.material = new ShaderMaterial({
+      name: 'SunGodRaysShader',
+      uniforms: this.uniforms,
+      defines: { MAX_SAMPLES: SUN_GOD_RAYS_MAX_SAMPLES },
+      vertexShader: `
+        varying vec2 vUv;
+
+        void main() {
+          vUv = uv;
+          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+        }
+      `,
+      fragmentShader: `
+        uniform sampler2D tDiffuse;
+        uniform sampler2D tOcclusion;
+        uniform vec2 lightPosition;
+        uniform float density;
+        uniform float decay;
+        uniform float weight;
+        uniform float exposure;
+        uniform int samples;
+        uniform float visibility;
+
+        varying vec2 vUv;
+
+        void main() {
+          vec4 color = texture2D(tDiffuse, vUv);
+          float strength = exposure * visibility;
+          if (strength <= 0.0 || samples <= 0) {
+            gl_FragColor = color;
+            return;
+          }
+
+          // March from the pixel towards the sun, accumulating the light
+          // of unoccluded sun pixels with exponential decay
+          vec2 delta = (vUv - lightPosition) * density / float(samples);
+          vec2 uv = vUv;
+          float illumination = weight;
+          vec3 rays = vec3(0.0);
+          for (int i = 0; i < MAX_SAMPLES; i++) {
+            if (i >= samples) break;
+            uv -= delta;
+            float mask = texture2D(tOcclusion, uv).r;
+            rays += texture2D(tDiffuse, uv).rgb * mask * illumination;
+            illumination *= decay;
+          }
+
+          gl_FragColor = vec4(color.rgb + rays * strength, color.a);
+        }
+      `,
+    });
+    this.fsQuad = new FullScreenQuad(this.material);
+  }
+
+  /**
+   * Resizes the occlusion mask.
+   */
+  override setSize(width: number, height: number): void {
+    this.occlusionTarget.setSize(
+      Math.max(1, Math.floor(width * OCCLUSION_RESOLUTION)),
+      Math.max(1, Math.floor(height * OCCLUSION_RESOLUTION))
+    );
+  }
+
+  override render(
+    renderer: WebGLRenderer,
+    writeBuffer: WebGLRenderTarget,
+    readBuffer: WebGLRenderTarget
+  ): void {
+    this.uniforms['visibility'].value = this.updateLightPosition();
+    if (this.uniforms['visibility'].value > 0) {
+      this.renderOcclusion(renderer);
+    }
+
+    this.uniforms['tDiffuse'].value = readBuffer.texture;
+    if (this.renderToScreen) {
+      renderer.setRenderTarget(null);
+      this.fsQuad.render(renderer);
+    } else {
+      renderer.setRenderTarget(writeBuffer);
+      if (this.clear) renderer.clear();
+      this.fsQuad.render(renderer);
+    }
+  }
+
+  /**
+   * Projects the sun center to screen uv coordinates.
+   * @returns 0 if the sun is behind the camera, otherwise 1.
+   */
+  private updateLightPosition(): number {
+    this.sun.sunMesh.getWorldPosition(this.sunPosition);
+    const viewZ = this.sunPosition
+      .clone()
+      .applyMatrix4(this.camera.matrixWorldInverse).z;
+    if (viewZ >= 0) return 0;
+
+    this.sunPosition.project(this.camera);
+    this.uniforms['lightPosition'].value.set(
+      this.sunPosition.x * 0.5 + 0.5,
+      this.sunPosition.y * 0.5 + 0.5
+    );
+    return 1;
+  }
+
+  /**
+   * Renders the sun disc and black proxies of all occluders into the mask.
+   * Proxies share the geometry and world matrix of the scene objects, so the
+   * scene itself is left untouched.
+   */
+  private renderOcclusion(renderer: WebGLRenderer): void {
+    const occluders = this.sun.getOccluders();
+    while (this.occluderProxies.length < occluders.length) {
+      this.occluderProxies.push(this.createProxy(this.occluderMaterial));
+    }
+    this.occluderProxies.forEach((proxy, i) => {
+      const occluder = occluders[i];
+      proxy.visible = !!occluder;
+      if (occluder) this.follow(proxy, occluder);
+    });
+    this.follow(this.source, this.sun.sunMesh);
+
+    const autoClear = renderer.autoClear;
+    renderer.autoClear = true;
+    renderer.setRenderTarget(this.occlusionTarget);
+    renderer.render(this.occlusionScene, this.camera);
+    renderer.autoClear = autoClear;
+  }
+
+  private createProxy(material: MeshBasicMaterial): Mesh {
+    const proxy = new Mesh(undefined, material);
+    proxy.matrixAutoUpdate = false;
+    proxy.matrixWorldAutoUpdate = false;
+    this.occlusionScene.add(proxy);
+    return proxy;
+  }
+
+  private follow(proxy: Mesh, target: Mesh): void {
+    proxy.geometry = target.geometry;
+    proxy.matrixWorld.copy(target.matrixWorld);
+  }
+
+  /**
+   * Releases the occlusion mask and the materials of the pass. Geometries
+   * belong to the scene objects.
+   */
+  override dispose(): void {
+    this.occlusionTarget.dispose();
+    this.occluderMaterial.dispose();
+    this.sourceMaterial.dispose();
+    this.material.dispose();
+    this.fsQuad.dispose();
+  }
+}
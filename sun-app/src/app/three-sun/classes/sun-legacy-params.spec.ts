@@ -0,0 +1,84 @@
+import { ThreeSunConfig } from '../three-sun.config';
+import { ThreeSunOptions } from '../three-sun.service';
+import { getSunOptionsValue } from './sun-editor-fields';
+import {
+  applyLegacySunParams,
+  getLegacySunParamPath,
+  SUN_LEGACY_PARAMS,
+} from './sun-legacy-params';
+
+describe('SunLegacyParams', () => {
+  let options: ThreeSunOptions;
+
+  beforeEach(() => {
+    options = new ThreeSunConfig().options;
+  });
+
+  it('should map former ids to option paths', () => {
+    expect(getLegacySunParamPath('brightness')).toEqual([
+      'shader',
+      'brightness',
+    ]);
+    expect(getLegacySunParamPath('coronaSize_2')).toEqual([
+      'coronas',
+      2,
+      'size',
+    ]);
+    expect(getLegacySunParamPath('solarEruptionsMin_turbulance')).toEqual([
+      'solarEruptions',
+      'flareOptions',
+      'min',
+      'turbulence',
+    ]);
+    expect(getLegacySunParamPath('unknown')).toBeUndefined();
+    // Fields added after the share state never had a param of their own
+    expect(getLegacySunParamPath('temperatureActive')).toBeUndefined();
+    expect(getLegacySunParamPath('planet_radius_0')).toBeUndefined();
+  });
+
+  it('should only point to existing options', () => {
+    for (const [id, path] of Object.entries(SUN_LEGACY_PARAMS)) {
+      const resolved = getLegacySunParamPath(id.replace('{i}', '0'))!;
+      expect(resolved).withContext(id).toBeDefined();
+      // Lists may be empty; their parent has to exist
+      const parent = path.includes('{i}')
+        ? path.slice(0, path.indexOf('['))
+        : path;
+      expect(getSunOptionsValue(options, parent.split('.')))
+        .withContext(id)
+        .toBeDefined();
+    }
+  });
+
+  it('should apply the values of old links', () => {
+    const applied = applyLegacySunParams(options, {
+      brightness: '2.5',
+      solarEruptionsActive: 'false',
+      solarEruptionsMax_turbulance: '4',
+      baseColor: '#ff0000',
+      coronaSize_1: '3',
+    });
+
+    expect(applied).toBeTrue();
+    expect(options.shader.brightness).toBe(2.5);
+    expect(options.solarEruptions.active).toBeFalse();
+    expect(options.solarEruptions.flareOptions.max.turbulence).toBe(4);
+    expect(options.shader.baseColor.getHexString()).toBe('ff0000');
+    expect(options.coronas[1].size).toBe(3);
+  });
+
+  it('should skip mistyped values and missing items', () => {
+    const defaults = new ThreeSunConfig().options;
+    const applied = applyLegacySunParams(options, {
+      // The stats toggle used this id as well
+      emissiveColor: 'true',
+      brightness: 'bright',
+      coronaSize_99: '3',
+      sun: 'state',
+    });
+
+    expect(applied).toBeFalse();
+    expect(options.shader.emissiveColor).toEqual(defaults.shader.emissiveColor);
+    expect(options.shader.brightness).toBe(defaults.shader.brightness);
+  });
+});
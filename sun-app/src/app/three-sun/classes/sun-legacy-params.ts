@@ -0,0 +1,142 @@
+/**
+ * Sun Legacy Params
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Links from before the single `sun` share state stored every editor field
+ * in a query param of its own, e.g. `?coronaSize_0=2`. Maps those param
+ * ids to option paths, so old links keep working.
+ */
+
+import { Color } from 'three';
+import { ThreeSunOptions } from '../three-sun.service';
+import {
+  getSunOptionsValue,
+  parseSunOptionsPath,
+  setSunOptionsValue,
+} from './sun-editor-fields';
+
+/**
+ * Option paths by former param id. `{i}` stands for the list index the
+ * id ends with, e.g. `coronaSize_2` → `coronas[2].size`.
+ */
+export const SUN_LEGACY_PARAMS: { [id: string]: string } = {
+  baseColor: 'shader.baseColor',
+  hotColor: 'shader.hotColor',
+  deepColor: 'shader.deepColor',
+  emissiveColor: 'shader.emissiveColor',
+  distortionStrength: 'shader.distortionStrength',
+  emissiveStrength: 'shader.emissiveStrength',
+  fbmFrequency: 'shader.fbmFrequency',
+  brightness: 'shader.brightness',
+  contrastPower: 'shader.contrastPower',
+  fbmScale: 'shader.fbmScale',
+  fbmOffset: 'shader.fbmOffset',
+  emissiveThresholdMin: 'shader.emissiveThresholdMin',
+  emissiveThresholdMax: 'shader.emissiveThresholdMax',
+  solarEruptionsActive: 'solarEruptions.active',
+  solarEruptionsMin_count: 'solarEruptions.min.count',
+  solarEruptionsMax_count: 'solarEruptions.max.count',
+  solarEruptionsMin_interval: 'solarEruptions.min.interval',
+  solarEruptionsMax_interval: 'solarEruptions.max.interval',
+  solarEruptions_emissiveStrength:
+    'solarEruptions.flareOptions.shader.emissiveStrength',
+  solarEruptions_opacity: 'solarEruptions.flareOptions.shader.opacity',
+  solarEruptions_distortionScale:
+    'solarEruptions.flareOptions.shader.distortionScale',
+  solarEruptions_fadeStart: 'solarEruptions.flareOptions.shader.fadeStart',
+  solarEruptions_fadeEnd: 'solarEruptions.flareOptions.shader.fadeEnd',
+  solarEruptions_noiseScaleX: 'solarEruptions.flareOptions.shader.noiseScaleX',
+  solarEruptions_noiseScaleY: 'solarEruptions.flareOptions.shader.noiseScaleY',
+  solarEruptions_shaderSpeed: 'solarEruptions.flareOptions.shader.speed',
+  solarEruptionsMin_size: 'solarEruptions.flareOptions.min.size',
+  solarEruptionsMax_size: 'solarEruptions.flareOptions.max.size',
+  solarEruptionsMin_lifetime: 'solarEruptions.flareOptions.min.lifetime',
+  solarEruptionsMax_lifetime: 'solarEruptions.flareOptions.max.lifetime',
+  solarEruptionsMin_plasmaTrails:
+    'solarEruptions.flareOptions.min.plasmaTrails',
+  solarEruptionsMax_plasmaTrails:
+    'solarEruptions.flareOptions.max.plasmaTrails',
+  solarEruptionsMin_flareCount: 'solarEruptions.flareOptions.min.flareCount',
+  solarEruptionsMax_flareCount: 'solarEruptions.flareOptions.max.flareCount',
+  solarEruptionsMin_turbulance: 'solarEruptions.flareOptions.min.turbulence',
+  solarEruptionsMax_turbulance: 'solarEruptions.flareOptions.max.turbulence',
+  'coronaActive_{i}': 'coronas[{i}].active',
+  'depthTest_{i}': 'coronas[{i}].depthTest',
+  'zIndex_{i}': 'coronas[{i}].zIndex',
+  'coronaSize_{i}': 'coronas[{i}].size',
+  'coronaScale_{i}': 'coronas[{i}].scale',
+  'coronaSpeed_{i}': 'coronas[{i}].speed',
+  'flareStrength_{i}': 'coronas[{i}].flareStrength',
+  'baseGlowStrength_{i}': 'coronas[{i}].baseGlowStrength',
+  'radialFalloff_{i}': 'coronas[{i}].radialFalloff',
+  'flareFalloff_{i}': 'coronas[{i}].flareFalloff',
+  'edgeFadeStart_{i}': 'coronas[{i}].edgeFadeStart',
+  'edgeFadeEnd_{i}': 'coronas[{i}].edgeFadeEnd',
+  'baseGlowThreshold_{i}': 'coronas[{i}].baseGlowThreshold',
+  'animationSpeed_{i}': 'coronas[{i}].animationSpeed',
+  'syncWithSun_{i}': 'coronas[{i}].syncWithSun',
+  'wrapRotation_{i}': 'coronas[{i}].wrapRotation',
+  'enablePulsing_{i}': 'coronas[{i}].enablePulsing',
+  'pulseFrequency_{i}': 'coronas[{i}].pulseFrequency',
+  'pulseAmplitude_{i}': 'coronas[{i}].pulseAmplitude',
+  'enableMultiAxisReaction_{i}': 'coronas[{i}].enableMultiAxisReaction',
+  'rotationReactivity_{i}': 'coronas[{i}].rotationReactivity',
+  'rotationDecay_{i}': 'coronas[{i}].rotationDecay',
+  'reactiveScaling_{i}': 'coronas[{i}].reactiveScaling',
+};
+
+/**
+ * Applies the per-field params of old links. Values that don't match the
+ * type of their option (or point to missing list items) are skipped.
+ * @returns Whether any param was applied.
+ */
+export function applyLegacySunParams(
+  options: ThreeSunOptions,
+  params: { [id: string]: string }
+): boolean {
+  let applied = false;
+  for (const [id, raw] of Object.entries(params)) {
+    const path = getLegacySunParamPath(id);
+    if (!path) continue;
+
+    const current = getSunOptionsValue(options, path);
+    const value = parseValue(raw);
+    if (current instanceof Color) {
+      // `emissiveColor` was the id of the stats toggle as well
+      if (typeof value !== 'string' || !/^#[0-9a-f]{6}$/i.test(value)) {
+        continue;
+      }
+    } else if (typeof value !== typeof current) {
+      continue;
+    }
+    applied = setSunOptionsValue(options, path, value) || applied;
+  }
+  return applied;
+}
+
+/**
+ * Option path of a former param id, undefined for unknown ids.
+ */
+export function getLegacySunParamPath(
+  id: string
+): (string | number)[] | undefined {
+  const path = SUN_LEGACY_PARAMS[id];
+  if (path) return parseSunOptionsPath(path);
+
+  const match = /^(.*)_(\d+)$/.exec(id);
+  const indexed = match && SUN_LEGACY_PARAMS[`${match[1]}_{i}`];
+  return indexed
+    ? parseSunOptionsPath(indexed.replace('{i}', match[2]))
+    : undefined;
+}
+
+function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  Mesh,
+  MeshBasicMaterial,
+  PerspectiveCamera,
+  Scene,
+  SphereGeometry,
+} from 'three';
+import { ThreeSunService } from '../three-sun.service';
+
+describe('SunLensFlare', () => {
+  let sun: ThreeSunService;
+  let scene: Scene;
+  let camera: PerspectiveCamera;
+
+  beforeEach(() => {
+    scene = new Scene();
+    camera = new PerspectiveCamera(60, 1, 0.1, 1000);
+    camera.position.set(0, 0, 30);
+    camera.lookAt(0, 0, 0);
+    camera.updateMatrixWorld();
+
+    sun = new ThreeSunService();
+    sun.initSun(scene, camera);
+  });
+
+  afterEach(() => {
+    sun.destroy();
+  });
+
+  it('should be fully visible when nothing covers the sun', () => {
+    sun.lensFlare.update();
+
+    expect(sun.lensFlare.visibility).toBe(1);
+    expect(sun.lensFlare.group.visible).toBeTrue();
+    expect(sun.lensFlare.group.children.length).toBe(
+      sun.options.lensFlare.elements.length
+    );
+  });
+
+  it('should fade out when an opaque object covers the sun', () => {
+    const planet = new Mesh(new SphereGeometry(3), new MeshBasicMaterial());
+    planet.position.set(0, 0, 15);
+    scene.add(planet);
+
+    sun.lensFlare.update();
+    expect(sun.lensFlare.visibility).toBe(0);
+
+    // Covers only part of the sun disc
+    planet.geometry.dispose();
+    planet.geometry = new SphereGeometry(0.3);
+    sun.lensFlare.update();
+    expect(sun.lensFlare.visibility).toBeGreaterThan(0);
+    expect(sun.lensFlare.visibility).toBeLessThan(1);
+
+    planet.geometry.dispose();
+    planet.material.dispose();
+  });
+
+  it('should fade out towards the screen edge and hide behind the camera', () => {
+    sun.options.lensFlare.edgeFade = 0.25;
+
+    // Sun at 90% of the way to the right screen edge
+    camera.lookAt(30 * 0.9 * Math.tan(Math.PI / 6), 0, 0);
+    sun.lensFlare.update();
+    expect(sun.lensFlare.visibility).toBeGreaterThan(0);
+    expect(sun.lensFlare.visibility).toBeLessThan(1);
+
+    camera.lookAt(0, 0, 60);
+    sun.lensFlare.update();
+    expect(sun.lensFlare.visibility).toBe(0);
+    expect(sun.lensFlare.group.visible).toBeFalse();
+  });
+
+  it('should follow the configured elements', () => {
+    sun.options.lensFlare.elements.splice(1);
+    sun.lensFlare.update();
+    expect(sun.lensFlare.group.children.length).toBe(1);
+
+    sun.options.lensFlare.active = false;
+    sun.lensFlare.update();
+    expect(sun.lensFlare.group.visible).toBeFalse();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Sun Lens Flare Class
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Renders the lens flare of a sun: textured quads in screen space along the
+ * axis from the sun through the screen center. Fades out towards the screen
+ * edges and while other opaque objects (planets, other suns) cover the sun disc,
+ * which is sampled with a few rays. The sun's own layers never occlude its flare.
+ */
+
+import {
+  Group,
+  MathUtils,
+  Mesh,
+  PerspectiveCamera,
+  PlaneGeometry,
+  Raycaster,
+  ShaderMaterial,
+  Vector3,
+} from 'three';
+import { ThreeSunService } from '../three-sun.service';
+import { SunLensFlareElementOptions } from '../services/sun-lens-flare.service';
+
+/** Number of occlusion rays on a ring around the sun center */
+const OCCLUSION_RING_SAMPLES = 8;
+
+/** Radius of the occlusion ring relative to the sun radius */
+const OCCLUSION_RING_RADIUS = 0.8;
+
+export class SunLensFlare {
+  /** Holds the element quads, attached to the sun root */
+  group = new Group();
+
+  /**
+   * Current visibility [0..1]: share of the sun disc that is not occluded,
+   * multiplied by the screen edge fade.
+   */
+  visibility = 0;
+
+  private geometry = new PlaneGeometry(2, 2);
+  private meshes: Mesh<PlaneGeometry, ShaderMaterial>[] = [];
+  private raycaster = new Raycaster();
+  private center = new Vector3();
+  private screenPosition = new Vector3();
+
+  /**
+   * @param sun Reference to the sun the flare belongs to.
+   */
+  constructor(private sun: ThreeSunService) {
+    this.group.visible = false;
+    sun.root.add(this.group);
+  }
+
+  /**
+   * Syncs the elements with the options and places them for the camera.
+   * @param camera Camera the flare is rendered for.
+   */
+  update(camera: PerspectiveCamera = this.sun.camera): void {
+    const options = this.sun.lensFlareService.options;
+    if (!options.active) {
+      this.visibility = 0;
+      this.group.visible = false;
+      return;
+    }
+
+    this.syncElements(options.elements);
+    this.visibility = this.computeVisibility(camera, options.edgeFade);
+    this.group.visible = this.visibility > 0;
+    if (!this.group.visible) return;
+
+    options.elements.forEach((element, i) => {
+      const uniforms = this.meshes[i].material.uniforms;
+      // 0 at the sun, 1 mirrored through the screen center
+      const axis = 1 - 2 * element.distance;
+      uniforms['screenPosition'].value.set(
+        this.screenPosition.x * axis,
+        this.screenPosition.y * axis
+      );
+      uniforms['scale'].value.set(element.size / camera.aspect, element.size);
+      uniforms['opacity'].value = this.visibility * options.intensity;
+    });
+  }
+
+  /**
+   * Creates or removes element quads to match the options and updates
+   * texture and color.
+   */
+  private syncElements(elements: SunLensFlareElementOptions[]): void {
+    const service = this.sun.lensFlareService;
+
+    while (this.meshes.length > elements.length) {
+      const mesh = this.meshes.pop()!;
+      mesh.removeFromParent();
+      mesh.material.dispose();
+    }
+
+    elements.forEach((element, i) => {
+      let mesh = this.meshes[i];
+      if (!mesh) {
+        mesh = new Mesh(this.geometry, service.createElementMaterial(element));
+        // Placed in clip space, so neither culling nor depth sorting applies
+        mesh.frustumCulled = false;
+        mesh.renderOrder = Infinity;
+        this.group.add(mesh);
+        this.meshes.push(mesh);
+      }
+
+      const uniforms = mesh.material.uniforms;
+      uniforms['map'].value = service.getTexture(element.texture);
+      uniforms['color'].value.copy(element.color);
+    });
+  }
+
+  /**
+   * Combines screen edge fade and occlusion of the sun disc.
+   * Leaves the sun position in normalized device coordinates in
+   * `screenPosition`.
+   */
+  private computeVisibility(
+    camera: PerspectiveCamera,
+    edgeFade: number
+  ): number {
+    camera.updateMatrixWorld();
+    this.sun.sunMesh.getWorldPosition(this.center);
+
+    // Sun behind the camera
+    const viewPosition = this.center
+      .clone()
+      .applyMatrix4(camera.matrixWorldInverse);
+    if (viewPosition.z >= 0) return 0;
+
+    this.screenPosition.copy(this.center).project(camera);
+    const edgeDistance =
+      1 -
+      Math.max(
+        Math.abs(this.screenPosition.x),
+        Math.abs(this.screenPosition.y)
+      );
+    const onScreen = MathUtils.smoothstep(edgeDistance, 0, edgeFade);
+    if (onScreen === 0) return 0;
+
+    return onScreen * this.getUnoccludedShare(camera);
+  }
+
+  /**
+   * Casts rays from the camera to the sun center and a ring around it.
+   * @returns Share of the rays that reach the sun unblocked.
+   */
+  private getUnoccludedShare(camera: PerspectiveCamera): number {
+    const occluders = this.sun.getOccluders();
+    if (occluders.length === 0) return 1;
+
+    const eye = camera.getWorldPosition(new Vector3());
+    const toSun = this.center.clone().sub(eye).normalize();
+    const right = new Vector3().crossVectors(toSun, camera.up);
+    if (right.lengthSq() < 1e-6) right.set(1, 0, 0).projectOnPlane(toSun);
+    right.normalize();
+    const up = new Vector3().crossVectors(right, toSun);
+    const ringRadius =
+      this.sun.sunGeometry.parameters.radius * OCCLUSION_RING_RADIUS;
+
+    const samples = [this.center.clone()];
+    for (let i = 0; i < OCCLUSION_RING_SAMPLES; i++) {
+      const angle = (i / OCCLUSION_RING_SAMPLES) * Math.PI * 2;
+      samples.push(
+        this.center
+          .clone()
+          .addScaledVector(right, Math.cos(angle) * ringRadius)
+          .addScaledVector(up, Math.sin(angle) * ringRadius)
+      );
+    }
+
+    let unoccluded = 0;
+    for (const sample of samples) {
+      const direction = sample.sub(eye);
+      this.raycaster.far = direction.length();
+      this.raycaster.set(eye, direction.normalize());
+      if (this.raycaster.intersectObjects(occluders, false).length === 0) {
+        unoccluded++;
+      }
+    }
+    return unoccluded / samples.length;
+  }
+
+  /**
+   * Removes the element quads from the scene and releases their materials
+   * and geometry. Textures belong to the SunLensFlareService.
+   */
+  dispose(): void {
+    this.meshes.forEach((mesh) => mesh.material.dispose());
+    this.meshes = [];
+    this.geometry.dispose();
+    this.group.removeFromParent();
+  }
+}
@@ -0,0 +1,80 @@
+import { ThreeSunConfig } from '../three-sun.config';
+import { SunOptionsHistory } from './sun-options-history';
+
+describe('SunOptionsHistory', () => {
+  let history: SunOptionsHistory;
+
+  beforeEach(() => {
+    history = new SunOptionsHistory();
+  });
+
+  it('should undo and redo snapshots', () => {
+    const options = new ThreeSunConfig().options;
+    history.record(options);
+    options.shader.brightness = 2;
+    history.record(options);
+    options.shader.brightness = 3;
+    history.record(options, 'load preset');
+
+    expect(history.undoLabel).toBe('load preset');
+    expect(history.undo()!.shader.brightness).toBe(2);
+    expect(history.undo()!.shader.brightness).toBe(
+      new ThreeSunConfig().options.shader.brightness
+    );
+    expect(history.canUndo).toBeFalse();
+    expect(history.undo()).toBeUndefined();
+
+    expect(history.redo()!.shader.brightness).toBe(2);
+    expect(history.redoLabel).toBe('load preset');
+  });
+
+  it('should skip snapshots equal to the current entry', () => {
+    const options = new ThreeSunConfig().options;
+    expect(history.record(options)).toBeTrue();
+    expect(history.record(options)).toBeFalse();
+    expect(history.canUndo).toBeFalse();
+  });
+
+  it('should keep snapshots independent of later changes', () => {
+    const options = new ThreeSunConfig().options;
+    history.record(options);
+    options.coronas.pop();
+    history.record(options);
+    options.coronas.pop();
+
+    const length = new ThreeSunConfig().options.coronas.length;
+    const undone = history.undo()!;
+    expect(undone.coronas.length).toBe(length);
+    undone.coronas.pop();
+    expect(history.redo()!.coronas.length).toBe(length - 1);
+    expect(history.undo()!.coronas.length).toBe(length);
+  });
+
+  it('should drop redo entries on a new record', () => {
+    const options = new ThreeSunConfig().options;
+    history.record(options);
+    options.sunspots.count = 1;
+    history.record(options);
+    history.undo();
+
+    options.sunspots.count = 2;
+    history.record(options);
+    expect(history.canRedo).toBeFalse();
+    expect(history.undo()!.sunspots.count).toBe(
+      new ThreeSunConfig().options.sunspots.count
+    );
+  });
+
+  it('should drop the oldest entries beyond the limit', () => {
+    history = new SunOptionsHistory(3);
+    const options = new ThreeSunConfig().options;
+    for (let count = 1; count <= 5; count++) {
+      options.sunspots.count = count;
+      history.record(options);
+    }
+
+    expect(history.undo()!.sunspots.count).toBe(4);
+    expect(history.undo()!.sunspots.count).toBe(3);
+    expect(history.canUndo).toBeFalse();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Sun Options History
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Undo/redo history of ThreeSunOptions. Every entry is a snapshot of the
+ * complete options, so single edits and bulk actions (presets, imports)
+ * are undone the same way. Snapshots equal to the current entry are
+ * skipped, which lets callers record generously.
+ */
+
+import { ThreeSunOptions } from '../three-sun.service';
+import { cloneSunOptions, serializeSunOptions } from './sun-options-serializer';
+
+interface SunOptionsHistoryEntry {
+  /** Describes the change that led to this entry */
+  label: string;
+  options: ThreeSunOptions;
+  /** Serialized options, to compare snapshots */
+  json: string;
+}
+
+export class SunOptionsHistory {
+  private entries: SunOptionsHistoryEntry[] = [];
+  private index = -1;
+
+  /**
+   * @param limit Maximum number of entries; the oldest are dropped first.
+   */
+  constructor(public limit = 100) {}
+
+  get canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.index < this.entries.length - 1;
+  }
+
+  /** Label of the change `undo` reverts */
+  get undoLabel(): string | undefined {
+    return this.canUndo ? this.entries[this.index].label : undefined;
+  }
+
+  /** Label of the change `redo` restores */
+  get redoLabel(): string | undefined {
+    return this.canRedo ? this.entries[this.index + 1].label : undefined;
+  }
+
+  /**
+   * Adds a snapshot of the options unless they equal the current entry.
+   * Drops the entries that could be redone.
+   * @returns Whether an entry was added.
+   */
+  record(options: ThreeSunOptions, label = 'edit'): boolean {
+    const json = JSON.stringify(serializeSunOptions(options));
+    if (json === this.entries[this.index]?.json) return false;
+
+    this.entries.splice(this.index + 1);
+    this.entries.push({ label, options: cloneSunOptions(options), json });
+    if (this.entries.length > this.limit) this.entries.shift();
+    this.index = this.entries.length - 1;
+    return true;
+  }
+
+  /**
+   * Steps back one entry.
+   * @returns A copy of the options to apply, undefined if there is nothing to undo.
+   */
+  undo(): ThreeSunOptions | undefined {
+    if (!this.canUndo) return undefined;
+    this.index--;
+    return cloneSunOptions(this.entries[this.index].options);
+  }
+
+  /**
+   * Steps forward one entry.
+   * @returns A copy of the options to apply, undefined if there is nothing to redo.
+   */
+  redo(): ThreeSunOptions | undefined {
+    if (!this.canRedo) return undefined;
+    this.index++;
+    return cloneSunOptions(this.entries[this.index].options);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.index = -1;
+  }
+}
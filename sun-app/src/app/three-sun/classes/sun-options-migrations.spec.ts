@@ -0,0 +1,63 @@
+import { SUN_OPTIONS_VERSION } from './sun-options-schema';
+import {
+  migrateSunOptionsData,
+  SUN_OPTIONS_MIGRATIONS,
+} from './sun-options-migrations';
+
+describe('migrateSunOptionsData', () => {
+  it('should have a migration for every version step', () => {
+    expect(
+      SUN_OPTIONS_MIGRATIONS.map((migration) => migration.version)
+    ).toEqual(
+      Array.from({ length: SUN_OPTIONS_VERSION - 1 }, (_, index) => index + 2)
+    );
+  });
+
+  it('should rename turbulance to turbulence in unversioned data', () => {
+    const data = {
+      solarEruptions: {
+        flareOptions: {
+          min: { size: 2, turbulance: 0.1 },
+          max: { size: 6, turbulance: 2 },
+        },
+      },
+    };
+
+    const migrated = migrateSunOptionsData<{ [key: string]: unknown }>(data);
+    const { flareOptions } = migrated['solarEruptions'] as {
+      flareOptions: { min: unknown; max: { turbulence: number } };
+    };
+
+    expect(migrated['version']).toBe(SUN_OPTIONS_VERSION);
+    expect(flareOptions.min).toEqual({
+      size: 2,
+      turbulence: 0.1,
+    });
+    expect(flareOptions.max.turbulence).toBe(2);
+    // The input stays untouched
+    expect(data.solarEruptions.flareOptions.min.turbulance).toBe(0.1);
+  });
+
+  it('should leave current data and data without flare options alone', () => {
+    const current = { version: SUN_OPTIONS_VERSION, shader: {} };
+    expect(migrateSunOptionsData(current)).toBe(current);
+    const unversioned: { [key: string]: unknown } = { shader: {} };
+    expect(migrateSunOptionsData(unversioned)).toEqual({
+      shader: {},
+      version: SUN_OPTIONS_VERSION,
+    });
+  });
+
+  it('should skip flare options that are not objects', () => {
+    const data = {
+      solarEruptions: { flareOptions: { min: 'turbulance', max: null } },
+    };
+    expect(migrateSunOptionsData(data).solarEruptions).toEqual(
+      data.solarEruptions
+    );
+    expect(
+      migrateSunOptionsData({ solarEruptions: { flareOptions: 1 } })
+        .solarEruptions
+    ).toEqual({ flareOptions: 1 });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Sun Options Migrations
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Upgrades serialized options saved by older versions (presets, files,
+ * links) to the current layout of SUN_OPTIONS_VERSION. Every migration
+ * lifts data from the previous version to its own.
+ */
+
+import { SUN_OPTIONS_VERSION } from './sun-options-schema';
+
+export interface SunOptionsMigration {
+  /** Version the data has after this migration */
+  version: number;
+  description: string;
+  /** Changes the data in place */
+  migrate(data: { [key: string]: unknown }): void;
+}
+
+/**
+ * All migrations in ascending version order. Data without version is
+ * treated as version 1, the layout before versioning.
+ */
+export const SUN_OPTIONS_MIGRATIONS: SunOptionsMigration[] = [
+  {
+    version: 2,
+    description: 'Rename the flare option `turbulance` to `turbulence`',
+    migrate(data) {
+      const eruptions = data['solarEruptions'];
+      const flareOptions = isObject(eruptions)
+        ? eruptions['flareOptions']
+        : undefined;
+      if (!isObject(flareOptions)) return;
+      for (const key of ['min', 'max']) {
+        const options = flareOptions[key];
+        if (isObject(options) && 'turbulance' in options) {
+          options['turbulence'] ??= options['turbulance'];
+          delete options['turbulance'];
+        }
+      }
+    },
+  },
+];
+
+/**
+ * Version of serialized options data.
+ */
+export function getSunOptionsVersion(data: { [key: string]: unknown }): number {
+  const version = data['version'];
+  return typeof version === 'number' ? version : 1;
+}
+
+/**
+ * Returns a copy of the data upgraded to SUN_OPTIONS_VERSION. Data of newer
+ * versions is returned unchanged.
+ */
+export function migrateSunOptionsData<T extends { [key: string]: unknown }>(
+  data: T
+): T {
+  const version = getSunOptionsVersion(data);
+  if (version >= SUN_OPTIONS_VERSION) return data;
+
+  const migrated = structuredClone(data);
+  for (const migration of SUN_OPTIONS_MIGRATIONS) {
+    if (migration.version > version) migration.migrate(migrated);
+  }
+  return { ...migrated, version: SUN_OPTIONS_VERSION };
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null;
+}
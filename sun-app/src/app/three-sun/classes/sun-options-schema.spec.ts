@@ -0,0 +1,97 @@
+import { ThreeSunConfig } from '../three-sun.config';
+import { SUN_BUILT_IN_PRESETS } from './sun-preset-library';
+import { serializeSunOptions } from './sun-options-serializer';
+import { validateSunOptions } from './sun-options-schema';
+import { SunGodRaysPassOptions } from './sun-post-processing';
+
+describe('validateSunOptions', () => {
+  it('should accept the defaults and every built-in preset', () => {
+    expect(validateSunOptions(new ThreeSunConfig().options)).toEqual([]);
+    for (const preset of SUN_BUILT_IN_PRESETS) {
+      expect(validateSunOptions(preset.createOptions())).toEqual([]);
+    }
+  });
+
+  it('should accept serialized options', () => {
+    const data = serializeSunOptions(new ThreeSunConfig().options);
+    expect(validateSunOptions(data)).toEqual([]);
+  });
+
+  it('should report types and ranges with their path', () => {
+    const options = new ThreeSunConfig().options;
+    (options.shader as { brightness: unknown }).brightness = 'bright';
+    options.coronas[2].rotationDecay = 2;
+    options.sunspots.count = 2.5;
+    (options.background as { mode: string }).mode = 'plasma';
+    (options.light as { color: unknown }).color = '#12345';
+
+    expect(validateSunOptions(options)).toEqual([
+      {
+        path: 'shader.brightness',
+        message: 'must be a finite number',
+        value: 'bright',
+      },
+      { path: 'sunspots.count', message: 'must be an integer', value: 2.5 },
+      {
+        path: 'coronas[2].rotationDecay',
+        message: 'must be at most 1',
+        value: 2,
+      },
+      {
+        path: 'light.color',
+        message: 'must be a color (e.g. "#ffcc00")',
+        value: '#12345',
+      },
+      {
+        path: 'background.mode',
+        message: 'must be one of color, starfield, nebula, image',
+        value: 'plasma',
+      },
+    ]);
+  });
+
+  it('should check cross-field constraints after nested values', () => {
+    const options = new ThreeSunConfig().options;
+    options.solarEruptions.min.count = 12;
+    options.solarEruptions.flareOptions.shader.fadeStart = 0.49;
+
+    expect(validateSunOptions(options)).toEqual([
+      {
+        path: 'solarEruptions.flareOptions.shader.fadeEnd',
+        message: 'must be greater than fadeStart (0.49)',
+        value: 0.49,
+      },
+      {
+        path: 'solarEruptions.max.count',
+        message: 'must be at least min.count (12)',
+        value: 10,
+      },
+    ]);
+  });
+
+  it('should validate post-processing passes by their type', () => {
+    const options = new ThreeSunConfig().options;
+    (options.postProcessing.passes[0] as SunGodRaysPassOptions).samples = 0;
+    (options.postProcessing.passes as unknown[]).push({
+      type: 'blur',
+      active: true,
+    });
+
+    expect(validateSunOptions(options).map((error) => error.path)).toEqual([
+      'postProcessing.passes[0].samples',
+      'postProcessing.passes[6].type',
+    ]);
+  });
+
+  it('should report missing properties unless partial', () => {
+    const data = { shader: { brightness: 2 }, seed: 4 };
+    expect(validateSunOptions(data, { partial: true })).toEqual([]);
+
+    const errors = validateSunOptions(data);
+    expect(errors).toContain({
+      path: 'shader.hotColor',
+      message: 'is missing',
+    });
+    expect(errors.map((error) => error.path)).not.toContain('seed');
+  });
+});
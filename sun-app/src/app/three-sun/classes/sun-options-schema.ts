@@ -0,0 +1,937 @@
+/**
+ * Sun Options Schema
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Versioned schema of ThreeSunOptions: types, ranges and cross-field
+ * constraints (e.g. `min.count` ≤ `max.count`). Validates options from code
+ * as well as serialized data (hex colors, `{ x, y, z }` vectors) and reports
+ * structured errors instead of throwing. The nodes carry the editor metadata
+ * as well (labels, groups, slider ranges, units), so the editor is generated
+ * from this schema, see `getSunEditorSections`.
+ */
+
+import { Color, Vector3 } from 'three';
+import { ThreeSunOptions } from '../three-sun.service';
+import { SUN_LENS_FLARE_TEXTURES } from '../services/sun-lens-flare.service';
+import { SUN_GOD_RAYS_MAX_SAMPLES } from './sun-god-rays-pass';
+import { SunPlanetOptions } from './sun-planet';
+import { SUN_BACKGROUND_CUBE_FACES } from './sun-background';
+import {
+  createPostProcessingPassOptions,
+  SunPostProcessingPassType,
+} from './sun-post-processing';
+import {
+  BLACKBODY_MAX_TEMPERATURE,
+  BLACKBODY_MIN_TEMPERATURE,
+} from './sun-blackbody';
+
+/**
+ * Version of the options layout. Raise it together with a migration
+ * (see `SUN_OPTIONS_MIGRATIONS`) whenever fields are renamed or moved.
+ */
+export const SUN_OPTIONS_VERSION = 2;
+
+/**
+ * Editor metadata shared by all nodes. Nested nodes inherit `group` and
+ * `visible`; labels default to the property name (`fbmScale` → "fbm scale").
+ */
+export interface SunSchemaMeta {
+  label?: string;
+  /** Editor section */
+  group?: string;
+  description?: string;
+  /** Kept out of the editor, e.g. the `type` of post-processing passes */
+  hidden?: boolean;
+  /** Shows the node in the editor only while this returns true */
+  visible?: (options: ThreeSunOptions) => boolean;
+}
+
+export interface SunNumberSchema extends SunSchemaMeta {
+  type: 'number';
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  /** Slider range of the editor; defaults to `min` and `max` */
+  range?: readonly [number, number];
+  /** Slider step; derived from the range when omitted */
+  step?: number;
+  /** Shown next to the value, e.g. `s` or `°` */
+  unit?: string;
+}
+
+export interface SunBooleanSchema extends SunSchemaMeta {
+  type: 'boolean';
+}
+
+export interface SunStringSchema extends SunSchemaMeta {
+  type: 'string';
+  /** Allowed values; any string when omitted */
+  values?: readonly string[];
+  /** Editor labels of `values` and `choices` */
+  valueLabels?: { [value: string]: string };
+  /** Offered by the editor without restricting the value */
+  choices?: readonly string[];
+}
+
+/** Color instance, hex string (`#rrggbb`) or hex number */
+export interface SunColorSchema extends SunSchemaMeta {
+  type: 'color';
+}
+
+/** Vector3 instance or `{ x, y, z }` */
+export interface SunVector3Schema extends SunSchemaMeta {
+  type: 'vector3';
+  /** Slider range of every component */
+  range?: readonly [number, number];
+  step?: number;
+  unit?: string;
+}
+
+/**
+ * Requires `lower` ≤ `upper` (or `<` when strict). Paths are relative to
+ * the object the constraint belongs to, e.g. `min.count`. The editor uses
+ * `lower` as the slider minimum of `upper`.
+ */
+export interface SunSchemaOrder {
+  lower: string;
+  upper: string;
+  strict?: boolean;
+}
+
+/**
+ * Editor button of an object, handled by the editor by its `id`.
+ */
+export interface SunSchemaAction {
+  id: string;
+  label: string;
+}
+
+export interface SunObjectSchema extends SunSchemaMeta {
+  type: 'object';
+  properties: { [key: string]: SunSchemaNode };
+  /** Properties that may be missing */
+  optional?: readonly string[];
+  order?: SunSchemaOrder[];
+  actions?: SunSchemaAction[];
+}
+
+export interface SunArraySchema extends SunSchemaMeta {
+  type: 'array';
+  items: SunSchemaNode;
+  /**
+   * Editor heading of an item; "label n" when omitted, "n. variant" for
+   * union items
+   */
+  itemLabel?: (
+    item: unknown,
+    index: number,
+    options: ThreeSunOptions
+  ) => string;
+  /**
+   * New item for the editor's add button; a copy of the last item when
+   * omitted. `type` is the chosen variant of union items.
+   */
+  create?: (items: unknown[], type?: string) => unknown;
+  /** Items can be moved up and down, e.g. when their order matters */
+  sortable?: boolean;
+  /** Fixed number of items in the editor (no add and remove buttons) */
+  length?: (options: ThreeSunOptions) => number;
+}
+
+/** List items of several kinds, told apart by their `type` property */
+export interface SunUnionSchema extends SunSchemaMeta {
+  type: 'union';
+  variants: { [type: string]: SunObjectSchema };
+}
+
+export type SunSchemaNode =
+  | SunNumberSchema
+  | SunBooleanSchema
+  | SunStringSchema
+  | SunColorSchema
+  | SunVector3Schema
+  | SunObjectSchema
+  | SunArraySchema
+  | SunUnionSchema;
+
+export interface SunOptionsValidationError {
+  /** Path of the invalid value, e.g. `coronas[2].size` */
+  path: string;
+  message: string;
+  value?: unknown;
+}
+
+export interface SunOptionsValidationSettings {
+  /**
+   * Accept missing properties, e.g. for saved data that is completed with
+   * defaults. Constraints on missing values are skipped.
+   */
+  partial?: boolean;
+}
+
+type Settings<T extends SunSchemaNode> = Omit<T, 'type'>;
+
+const num = (settings: Settings<SunNumberSchema> = {}): SunNumberSchema => ({
+  type: 'number',
+  ...settings,
+});
+const int = (settings: Settings<SunNumberSchema> = {}): SunNumberSchema =>
+  num({ step: 1, ...settings, integer: true });
+const bool = (meta: SunSchemaMeta = {}): SunBooleanSchema => ({
+  type: 'boolean',
+  ...meta,
+});
+const str = (settings: Settings<SunStringSchema> = {}): SunStringSchema => ({
+  type: 'string',
+  ...settings,
+});
+const color = (meta: SunSchemaMeta = {}): SunColorSchema => ({
+  type: 'color',
+  ...meta,
+});
+const vector3 = (
+  settings: Settings<SunVector3Schema> = {}
+): SunVector3Schema => ({ type: 'vector3', ...settings });
+const obj = (
+  properties: SunObjectSchema['properties'],
+  settings: Omit<SunObjectSchema, 'type' | 'properties'> = {}
+): SunObjectSchema => ({ type: 'object', properties, ...settings });
+const arr = (
+  items: SunSchemaNode,
+  settings: Omit<SunArraySchema, 'type' | 'items'> = {}
+): SunArraySchema => ({ type: 'array', items, ...settings });
+
+/** A `min` and `max` object of the same shape, `min` ≤ `max` per property */
+function range(
+  properties: SunObjectSchema['properties']
+): Pick<SunObjectSchema, 'properties' | 'order'> {
+  return {
+    properties: { min: obj(properties), max: obj(properties) },
+    order: Object.keys(properties).map((key) => ({
+      lower: `min.${key}`,
+      upper: `max.${key}`,
+    })),
+  };
+}
+
+/** Merges `range` into an object schema with further properties */
+function withRange(
+  properties: SunObjectSchema['properties'],
+  rangeSchema: Pick<SunObjectSchema, 'properties' | 'order'>,
+  settings: Omit<SunObjectSchema, 'type' | 'properties' | 'order'> = {}
+): SunObjectSchema {
+  return obj(
+    { ...properties, ...rangeSchema.properties },
+    { order: rangeSchema.order, ...settings }
+  );
+}
+
+const temperature = (settings: Settings<SunNumberSchema> = {}) =>
+  num({
+    min: BLACKBODY_MIN_TEMPERATURE,
+    max: BLACKBODY_MAX_TEMPERATURE,
+    step: 100,
+    unit: 'K',
+    ...settings,
+  });
+const fraction = (settings: Settings<SunNumberSchema> = {}) =>
+  num({ min: 0, max: 1, ...settings });
+const positive = (settings: Settings<SunNumberSchema> = {}) =>
+  num({ min: 0, ...settings });
+/** Periods are divided by, so they must not reach 0 */
+const period = (settings: Settings<SunNumberSchema> = {}) =>
+  num({ min: 0.01, unit: 's', ...settings });
+const angle = (settings: Settings<SunNumberSchema> = {}) =>
+  num({
+    range: [-Math.PI / 2, Math.PI / 2],
+    step: 0.01,
+    unit: 'rad',
+    ...settings,
+  });
+const phase = (settings: Settings<SunNumberSchema> = {}) =>
+  num({ range: [0, Math.PI * 2], step: 0.01, unit: 'rad', ...settings });
+
+/** The temperature mode derives these colors, see `SunTemperatureOptions` */
+const manualColors = (options: ThreeSunOptions) => !options.temperature.active;
+
+const coronaSchema = obj(
+  {
+    active: bool(),
+    depthTest: bool({ label: 'depth test' }),
+    zIndex: int({ range: [1, 100], label: 'z-index' }),
+    size: positive({ range: [0.01, 10] }),
+    scale: positive({ range: [0.01, 3] }),
+    speed: num({ range: [0, 10] }),
+    glowColor: color({ visible: manualColors }),
+    flareStrength: num({ range: [0, 10], step: 0.001 }),
+    baseGlowStrength: num({ range: [0.01, 10], label: 'base glow' }),
+    radialFalloff: num({ range: [-10, 10], step: 0.001 }),
+    flareFalloff: num({ range: [0.01, 10] }),
+    edgeFadeStart: num({ range: [0, 0.5], step: 0.001 }),
+    edgeFadeEnd: num({ range: [0, 1], step: 0.001 }),
+    baseGlowThreshold: num({ range: [0.01, 1] }),
+    animationSpeed: num({ range: [-10, 10] }),
+    syncWithSun: bool({
+      label: 'sync with sun',
+      description: 'Follows the rotation of the sun mesh',
+    }),
+    wrapRotation: bool(),
+    enablePulsing: bool({ label: 'pulsing' }),
+    pulseFrequency: num({ range: [0.01, 100], step: 0.01 }),
+    pulseAmplitude: num({ range: [0.01, 100], step: 0.01 }),
+    enableMultiAxisReaction: bool({
+      label: 'multi-axis reaction',
+      description: 'Tilts the corona against changes of the sun rotation',
+    }),
+    rotationReactivity: num({ range: [0.01, 100], step: 0.01 }),
+    rotationDecay: fraction({ step: 0.001 }),
+    reactiveScaling: num({ range: [0.01, 100], step: 0.01 }),
+  },
+  { order: [{ lower: 'edgeFadeStart', upper: 'edgeFadeEnd' }] }
+);
+
+const planetSchema = obj(
+  {
+    name: str(),
+    radius: positive({ range: [0.01, 2] }),
+    orbitRadius: positive({ range: [0, 50], step: 0.1 }),
+    eccentricity: num({ min: 0, max: 0.99, step: 0.001 }),
+    inclination: angle(),
+    period: num({
+      range: [0, 600],
+      step: 0.5,
+      unit: 's',
+      description: 'Orbit period; 0 keeps the planet in place',
+    }),
+    phase: phase(),
+    rotationPeriod: num({
+      range: [-120, 120],
+      step: 0.1,
+      unit: 's',
+      description: 'Negative values rotate retrograde',
+    }),
+    color: color(),
+    texture: str({ label: 'texture url' }),
+    ring: obj(
+      {
+        active: bool(),
+        innerRadius: positive({
+          range: [1, 5],
+          step: 0.05,
+          description: 'In planet radii',
+        }),
+        outerRadius: positive({
+          range: [1, 5],
+          step: 0.05,
+          description: 'In planet radii',
+        }),
+        color: color(),
+        opacity: fraction(),
+        tilt: angle(),
+      },
+      { order: [{ lower: 'innerRadius', upper: 'outerRadius', strict: true }] }
+    ),
+  },
+  { optional: ['texture'] }
+);
+
+/** A post-processing pass; `type` tells the variants apart */
+const pass = (
+  type: SunPostProcessingPassType,
+  properties: SunObjectSchema['properties']
+): SunObjectSchema =>
+  obj({
+    type: str({ values: [type], hidden: true }),
+    active: bool(),
+    ...properties,
+  });
+
+const postProcessingPassSchema: SunUnionSchema = {
+  type: 'union',
+  variants: {
+    godRays: pass('godRays', {
+      density: num({ min: 0, max: 2, range: [0, 1], step: 0.001 }),
+      decay: fraction({ range: [0.8, 1], step: 0.001 }),
+      weight: positive({ range: [0, 1] }),
+      exposure: positive({ range: [0, 2] }),
+      samples: int({ min: 1, max: SUN_GOD_RAYS_MAX_SAMPLES }),
+    }),
+    bloom: pass('bloom', {
+      strength: positive({ range: [0, 3] }),
+      radius: positive({ range: [0, 1] }),
+      threshold: positive({ range: [0, 2] }),
+    }),
+    toneMapping: pass('toneMapping', {
+      mode: str({
+        values: ['linear', 'reinhard', 'cineon', 'aces', 'agx', 'neutral'],
+        valueLabels: { aces: 'aces filmic' },
+      }),
+      exposure: positive({ range: [0, 4] }),
+    }),
+    filmGrain: pass('filmGrain', {
+      intensity: positive({ range: [0, 1] }),
+      grayscale: bool(),
+    }),
+    chromaticAberration: pass('chromaticAberration', {
+      amount: positive({
+        range: [0, 0.02],
+        step: 0.0005,
+        description: 'Offset of the red and blue channels',
+      }),
+      angle: num({ range: [0, 360], step: 1, unit: '°' }),
+    }),
+    vignette: pass('vignette', {
+      offset: positive({ range: [0, 2] }),
+      darkness: positive({ range: [0, 3] }),
+    }),
+  },
+};
+
+/**
+ * Schema of the complete ThreeSunOptions, including the editor metadata
+ * the editor is generated from.
+ */
+export const SUN_OPTIONS_SCHEMA: SunObjectSchema = obj(
+  {
+    seed: int({
+      range: [0, 1000],
+      group: 'Sun',
+      description: 'Applies when the sun is created; random when empty',
+    }),
+    geometry: obj(
+      {
+        radius: num({ min: 0.01, range: [0.1, 5] }),
+        segments: int({ min: 3, max: 256, range: [8, 256] }),
+      },
+      { group: 'Sun' }
+    ),
+    position: vector3({ range: [-50, 50], step: 0.1, group: 'Sun' }),
+    orbit: obj(
+      {
+        active: bool({ label: 'orbit' }),
+        barycenter: vector3({ range: [-50, 50], step: 0.1 }),
+        radius: positive({ range: [0, 50] }),
+        period: positive({ range: [1, 600], step: 1, unit: 's' }),
+        phase: phase(),
+        inclination: angle(),
+      },
+      { group: 'Orbit' }
+    ),
+    rotation: obj(
+      {
+        direction: vector3({
+          range: [-1, 1],
+          description: 'Rotation axis',
+        }),
+        speed: num({ range: [-2, 2], unit: 'rad/s' }),
+        differential: obj({
+          active: bool({
+            description:
+              'The equator turns faster than the poles, like on the real sun',
+          }),
+          equatorialPeriod: period({ range: [1, 600], step: 1 }),
+          polarPeriod: period({ range: [1, 600], step: 1 }),
+        }),
+      },
+      { group: 'Rotation' }
+    ),
+    shader: obj(
+      {
+        baseColor: color({ group: 'Colors', visible: manualColors }),
+        hotColor: color({ group: 'Colors', visible: manualColors }),
+        deepColor: color({ group: 'Colors', visible: manualColors }),
+        distortionStrength: positive({ range: [0, 2] }),
+        emissiveStrength: num({ range: [-4, 4] }),
+        fbmFrequency: positive({ range: [0.1, 100] }),
+        brightness: positive({ range: [0, 10] }),
+        contrastPower: positive({ range: [0, 10] }),
+        fbmScale: num({ range: [-10, 10], step: 0.01 }),
+        fbmOffset: num({ range: [0, 1] }),
+        emissiveThresholdMin: fraction(),
+        emissiveThresholdMax: fraction(),
+        emissiveColor: color({ group: 'Colors', visible: manualColors }),
+        limbDarkeningModel: str({
+          values: ['none', 'linear', 'quadratic'],
+          label: 'limb darkening',
+          description: 'Darkens the edge of the disk',
+        }),
+        limbDarkeningU1: num({ min: -1, max: 1, label: 'limb u1' }),
+        limbDarkeningU2: num({ min: -1, max: 1, label: 'limb u2' }),
+        granulationStrength: fraction({ label: 'granulation' }),
+        granulationScale: positive({ range: [1, 200] }),
+        granulationSpeed: positive({ range: [0, 5] }),
+        supergranulationStrength: fraction({ label: 'supergranulation' }),
+        supergranulationScale: positive({ range: [1, 50] }),
+      },
+      {
+        group: 'Sun Shader',
+        order: [
+          { lower: 'emissiveThresholdMin', upper: 'emissiveThresholdMax' },
+        ],
+      }
+    ),
+    temperature: obj(
+      {
+        active: bool({
+          label: 'from temperature',
+          description: 'Derives the colors from a blackbody temperature',
+        }),
+        temperature: temperature(),
+        spread: num({
+          min: 0,
+          max: 0.5,
+          label: 'activity spread',
+          description: 'Temperature difference of hot and cool regions',
+        }),
+      },
+      { group: 'Colors' }
+    ),
+    sunspots: withRange(
+      {
+        active: bool({ label: 'sunspots' }),
+        count: int({ min: 0, range: [0, 16], label: 'groups' }),
+        spotsPerGroup: int({ min: 1, range: [1, 8] }),
+        darkness: fraction(),
+        faculaeStrength: positive({
+          range: [0, 2],
+          label: 'faculae',
+          description: 'Bright regions around the spots',
+        }),
+      },
+      range({
+        size: positive({ range: [0.5, 20], step: 0.1, unit: '°' }),
+        lifetime: num({ min: 0.01, range: [1, 600], step: 1, unit: 's' }),
+        latitude: num({ min: 0, max: 90, step: 1, unit: '°' }),
+      }),
+      { group: 'Sunspots' }
+    ),
+    coronas: arr(coronaSchema, {
+      label: 'corona',
+      group: 'Coronas',
+    }),
+    solarEruptions: withRange(
+      {
+        active: bool({ label: 'solar eruptions' }),
+        poolSize: int({
+          min: 1,
+          range: [16, 2048],
+          step: 16,
+          label: 'flare pool size',
+          description: 'Flares alive at the same time',
+        }),
+        flareOptions: withRange(
+          {
+            shader: obj(
+              {
+                emissiveStrength: num({ range: [0, 10] }),
+                opacity: fraction(),
+                distortionScale: num({ range: [0, 2] }),
+                fadeStart: num({ range: [0, 1] }),
+                fadeEnd: num({ range: [0, 1] }),
+                noiseScaleX: num({ range: [0.1, 10] }),
+                noiseScaleY: num({ range: [0.1, 10] }),
+                speed: num({ range: [-10, 10] }),
+              },
+              {
+                label: '',
+                order: [{ lower: 'fadeStart', upper: 'fadeEnd', strict: true }],
+              }
+            ),
+          },
+          range({
+            size: positive({ range: [1, 10] }),
+            lifetime: num({ min: 0.01, range: [0.1, 10], unit: 's' }),
+            plasmaTrails: positive({ range: [1, 10], step: 1 }),
+            flareCount: positive({ range: [1, 10], step: 1, label: 'flares' }),
+            turbulence: positive({ range: [0, 5] }),
+          }),
+          { label: 'flare' }
+        ),
+      },
+      range({
+        count: positive({ range: [1, 100], step: 1 }),
+        interval: positive({ range: [250, 10000], unit: 'ms' }),
+      }),
+      { group: 'Solar Eruptions' }
+    ),
+    prominences: withRange(
+      {
+        active: bool({ label: 'prominences' }),
+        poolSize: int({ min: 1, range: [16, 1024], step: 16 }),
+        spawnRate: positive({ range: [0, 5], unit: '/s' }),
+        eruptionChance: fraction({
+          description: 'Share of prominences that erupt instead of settling',
+        }),
+        flowSpeed: num({ range: [-10, 10] }),
+        emissiveStrength: num({ range: [0, 10] }),
+        opacity: fraction(),
+        baseColor: color(),
+        hotColor: color(),
+      },
+      range({
+        height: positive({ range: [0.05, 4] }),
+        separation: positive({ range: [0.05, 4] }),
+        thickness: positive({ range: [0.005, 0.5], step: 0.005 }),
+        lifetime: num({ min: 0.01, range: [1, 60], unit: 's' }),
+      }),
+      { group: 'Prominences' }
+    ),
+    coronalMassEjections: obj(
+      {
+        active: bool({ label: 'coronal mass ejections' }),
+        probability: fraction({ unit: '/s' }),
+        speed: positive({ range: [0.1, 20] }),
+        angularWidth: num({
+          min: 0,
+          max: 180,
+          range: [1, 179],
+          step: 1,
+          unit: '°',
+        }),
+        maxDistance: positive({
+          range: [3, 100],
+          step: 0.5,
+          description: 'In sun radii',
+        }),
+        opacity: fraction(),
+        color: color(),
+      },
+      {
+        group: 'Coronal Mass Ejections',
+        actions: [{ id: 'launchCoronalMassEjection', label: 'launch CME' }],
+      }
+    ),
+    lensFlare: obj(
+      {
+        active: bool({ label: 'lens flare' }),
+        intensity: positive({ range: [0, 2] }),
+        edgeFade: fraction({
+          description: 'Fades the flare out towards the screen edge',
+        }),
+        elements: arr(
+          obj({
+            texture: str({
+              choices: SUN_LENS_FLARE_TEXTURES,
+              valueLabels: Object.fromEntries(
+                SUN_LENS_FLARE_TEXTURES.map((url) => [
+                  url,
+                  url.replace(/^.*\//, ''),
+                ])
+              ),
+            }),
+            size: positive({ range: [0.005, 1], step: 0.005 }),
+            distance: num({
+              range: [-1, 2],
+              description: '0 at the sun, 1 mirrored through the center',
+            }),
+            color: color(),
+          }),
+          {
+            label: 'element',
+            create: () => ({
+              texture:
+                SUN_LENS_FLARE_TEXTURES[SUN_LENS_FLARE_TEXTURES.length - 1],
+              size: 0.05,
+              distance: 0.5,
+              color: new Color('#ffffff'),
+            }),
+          }
+        ),
+      },
+      { group: 'Lens Flare' }
+    ),
+    light: obj(
+      {
+        color: color({ visible: manualColors }),
+        intensity: positive({ range: [0, 200], step: 0.5, unit: 'cd' }),
+        distance: positive({ range: [0, 200], description: '0: no limit' }),
+        decay: positive({ range: [0, 3] }),
+      },
+      { label: 'light', group: 'Light & Planets' }
+    ),
+    planets: obj(
+      {
+        active: bool({ label: 'planets' }),
+        showOrbits: bool({ label: 'orbit lines' }),
+        orbitColor: color(),
+        shadows: bool(),
+        bodies: arr(planetSchema, {
+          label: 'planet',
+          itemLabel: (item, index) =>
+            (item as SunPlanetOptions).name || `planet ${index + 1}`,
+          create: (items) => {
+            const bodies = items as SunPlanetOptions[];
+            const outermost = Math.max(
+              4,
+              ...bodies.map((body) => body.orbitRadius)
+            );
+            return {
+              name: `Planet ${bodies.length + 1}`,
+              radius: 0.2,
+              orbitRadius: outermost + 1.5,
+              eccentricity: 0,
+              inclination: 0,
+              period: 90,
+              phase: 0,
+              rotationPeriod: 5,
+              color: new Color('#a0a0a0'),
+              ring: {
+                active: false,
+                innerRadius: 1.4,
+                outerRadius: 2.2,
+                color: new Color('#d8c9a3'),
+                opacity: 0.6,
+                tilt: 0,
+              },
+            };
+          },
+        }),
+      },
+      {
+        group: 'Light & Planets',
+        actions: [{ id: 'loadInnerSolarSystem', label: 'inner solar system' }],
+      }
+    ),
+    postProcessing: obj(
+      {
+        hdr: bool({
+          label: 'hdr (half float)',
+          description: 'Lets values above 1 reach tone mapping',
+        }),
+        passes: arr(postProcessingPassSchema, {
+          label: 'pass',
+          sortable: true,
+          create: (_, type) =>
+            createPostProcessingPassOptions(type as SunPostProcessingPassType),
+        }),
+      },
+      { group: 'Post Processing' }
+    ),
+    background: obj(
+      {
+        mode: str({
+          values: ['color', 'starfield', 'nebula', 'image'],
+          valueLabels: { nebula: 'nebula + starfield' },
+        }),
+        color: color(),
+        starfield: obj(
+          {
+            count: int({
+              min: 0,
+              range: [0, 50000],
+              step: 100,
+              label: 'stars',
+            }),
+            seed: int({ range: [0, 1000] }),
+            limitingMagnitude: num({ range: [0, 10] }),
+            magnitudeSlope: positive({ range: [0, 1] }),
+            size: positive({ range: [1, 20], unit: 'px' }),
+            brightness: positive({ range: [0, 10] }),
+            minTemperature: temperature(),
+            maxTemperature: temperature(),
+            twinkle: fraction(),
+            twinkleSpeed: positive({ range: [0, 10] }),
+          },
+          {
+            label: '',
+            visible: (options) =>
+              ['starfield', 'nebula'].includes(options.background.mode),
+            order: [{ lower: 'minTemperature', upper: 'maxTemperature' }],
+          }
+        ),
+        nebula: obj(
+          {
+            primaryColor: color({ label: 'color 1' }),
+            secondaryColor: color({ label: 'color 2' }),
+            intensity: positive({ range: [0, 3] }),
+            scale: positive({ range: [0.1, 10] }),
+            coverage: fraction(),
+            seed: int({ range: [0, 1000] }),
+          },
+          { visible: (options) => options.background.mode === 'nebula' }
+        ),
+        image: obj(
+          {
+            projection: str({
+              values: ['equirectangular', 'cube'],
+              valueLabels: { cube: 'cube map' },
+            }),
+            urls: arr(str(), {
+              itemLabel: (_, index, options) =>
+                options.background.image.projection === 'cube'
+                  ? SUN_BACKGROUND_CUBE_FACES[index]
+                  : 'url',
+              length: (options) =>
+                options.background.image.projection === 'cube'
+                  ? SUN_BACKGROUND_CUBE_FACES.length
+                  : 1,
+            }),
+            intensity: positive({ range: [0, 3] }),
+          },
+          {
+            label: '',
+            visible: (options) => options.background.mode === 'image',
+          }
+        ),
+      },
+      { group: 'Background' }
+    ),
+  },
+  { optional: ['seed'] }
+);
+
+/**
+ * Checks options (or serialized options data) against the schema.
+ * @returns All violations; empty when the options are valid.
+ */
+export function validateSunOptions(
+  options: unknown,
+  settings: SunOptionsValidationSettings = {}
+): SunOptionsValidationError[] {
+  const errors: SunOptionsValidationError[] = [];
+  validateNode(SUN_OPTIONS_SCHEMA, options, '', settings, errors);
+  return errors;
+}
+
+function validateNode(
+  schema: SunSchemaNode,
+  value: unknown,
+  path: string,
+  settings: SunOptionsValidationSettings,
+  errors: SunOptionsValidationError[]
+): void {
+  const fail = (message: string) => errors.push({ path, message, value });
+
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value)) {
+        fail('must be a finite number');
+      } else if (schema.integer && !Number.isInteger(value)) {
+        fail('must be an integer');
+      } else if (schema.min !== undefined && value < schema.min) {
+        fail(`must be at least ${schema.min}`);
+      } else if (schema.max !== undefined && value > schema.max) {
+        fail(`must be at most ${schema.max}`);
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('must be a boolean');
+      return;
+    case 'string':
+      if (typeof value !== 'string') {
+        fail('must be a string');
+      } else if (schema.values && !schema.values.includes(value)) {
+        fail(`must be one of ${schema.values.join(', ')}`);
+      }
+      return;
+    case 'color':
+      if (!isColor(value)) fail('must be a color (e.g. "#ffcc00")');
+      return;
+    case 'vector3':
+      if (!isVector3(value)) fail('must be a vector with x, y and z');
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail('must be a list');
+        return;
+      }
+      value.forEach((item, index) =>
+        validateNode(schema.items, item, `${path}[${index}]`, settings, errors)
+      );
+      return;
+    case 'union': {
+      const type = isObject(value) ? value['type'] : undefined;
+      const variant =
+        typeof type === 'string' ? schema.variants[type] : undefined;
+      if (!variant) {
+        errors.push({
+          path: joinPath(path, 'type'),
+          message: `must be one of ${Object.keys(schema.variants).join(', ')}`,
+          value: type,
+        });
+        return;
+      }
+      validateNode(variant, value, path, settings, errors);
+      return;
+    }
+    case 'object':
+      if (!isObject(value)) {
+        fail('must be an object');
+        return;
+      }
+      for (const [key, property] of Object.entries(schema.properties)) {
+        const propertyPath = joinPath(path, key);
+        if (value[key] === undefined) {
+          if (!settings.partial && !schema.optional?.includes(key)) {
+            errors.push({ path: propertyPath, message: 'is missing' });
+          }
+          continue;
+        }
+        validateNode(property, value[key], propertyPath, settings, errors);
+      }
+      for (const order of schema.order ?? []) {
+        validateOrder(order, value, path, errors);
+      }
+  }
+}
+
+function validateOrder(
+  order: SunSchemaOrder,
+  value: { [key: string]: unknown },
+  path: string,
+  errors: SunOptionsValidationError[]
+): void {
+  const lower = getPath(value, order.lower);
+  const upper = getPath(value, order.upper);
+  // Missing or mistyped values are reported by their own schema
+  if (typeof lower !== 'number' || typeof upper !== 'number') return;
+  if (order.strict ? lower < upper : lower <= upper) return;
+
+  errors.push({
+    path: joinPath(path, order.upper),
+    message: order.strict
+      ? `must be greater than ${order.lower} (${lower})`
+      : `must be at least ${order.lower} (${lower})`,
+    value: upper,
+  });
+}
+
+function getPath(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (node, key) => (isObject(node) ? node[key] : undefined),
+      value
+    );
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isColor(value: unknown): boolean {
+  if (value instanceof Color) return true;
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value <= 0xffffff;
+  }
+  return (
+    typeof value === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)
+  );
+}
+
+function isVector3(value: unknown): boolean {
+  if (value instanceof Vector3) return true;
+  return (
+    isObject(value) &&
+    ['x', 'y', 'z'].every(
+      (key) => typeof value[key] === 'number' && isFinite(value[key] as number)
+    )
+  );
+}
@@ -0,0 +1,110 @@
+import { Color, MeshBasicMaterial, Vector3 } from 'three';
+import { ThreeSunConfig } from '../three-sun.config';
+import {
+  cloneSunOptions,
+  deserializeSunOptions,
+  parseSunOptions,
+  serializeSunOptions,
+} from './sun-options-serializer';
+import { SUN_OPTIONS_VERSION } from './sun-options-schema';
+
+describe('SunOptionsSerializer', () => {
+  it('should survive a JSON round trip', () => {
+    const options = new ThreeSunConfig().options;
+    options.seed = 42;
+    options.shader.baseColor.set('#123456');
+    options.position.set(1, 2, 3);
+
+    const data = JSON.parse(JSON.stringify(serializeSunOptions(options)));
+    const restored = deserializeSunOptions(data);
+
+    expect(restored.seed).toBe(42);
+    expect(restored.shader.baseColor).toBeInstanceOf(Color);
+    expect(restored.shader.baseColor.getHexString()).toBe('123456');
+    expect(restored.position).toBeInstanceOf(Vector3);
+    expect(restored.position.toArray()).toEqual([1, 2, 3]);
+    expect(serializeSunOptions(restored)).toEqual(serializeSunOptions(options));
+  });
+
+  it('should store colors as hex strings and the options version', () => {
+    const data = serializeSunOptions(new ThreeSunConfig().options);
+    expect((data['shader'] as { baseColor: string }).baseColor).toBe('#fdf2aa');
+    expect(data['version']).toBe(SUN_OPTIONS_VERSION);
+  });
+
+  it('should migrate data of older versions', () => {
+    const restored = deserializeSunOptions({
+      solarEruptions: { flareOptions: { max: { turbulance: 3 } } },
+    });
+    expect(restored.solarEruptions.flareOptions.max.turbulence).toBe(3);
+    expect('version' in restored).toBeFalse();
+  });
+
+  it('should fill missing and mistyped values with defaults', () => {
+    const defaults = new ThreeSunConfig().options;
+    const restored = deserializeSunOptions({
+      shader: { brightness: 2, contrastPower: 'high' },
+      coronas: [{ size: 3 }],
+      postProcessing: { passes: [{ type: 'vignette', darkness: 2 }] },
+    });
+
+    expect(restored.shader.brightness).toBe(2);
+    expect(restored.shader.contrastPower).toBe(defaults.shader.contrastPower);
+    expect(restored.sunspots).toEqual(defaults.sunspots);
+    expect(restored.coronas.length).toBe(1);
+    expect(restored.coronas[0].size).toBe(3);
+    expect(restored.coronas[0].glowColor).toBeInstanceOf(Color);
+    expect(restored.postProcessing.passes).toEqual([
+      { type: 'vignette', active: false, offset: 1, darkness: 2 },
+    ]);
+  });
+
+  it('should clone without sharing colors, keeping custom materials', () => {
+    const options = new ThreeSunConfig().options;
+    const material = new MeshBasicMaterial();
+    options.planets.bodies[0].material = material;
+
+    const clone = cloneSunOptions(options);
+    clone.shader.baseColor.set('#000000');
+    clone.planets.bodies.push({ ...clone.planets.bodies[0] });
+
+    expect(options.shader.baseColor.getHexString()).toBe('fdf2aa');
+    expect(options.planets.bodies.length).toBe(4);
+    expect(clone.planets.bodies[0].material).toBe(material);
+    expect(serializeSunOptions(options)['planets']).not.toEqual(
+      serializeSunOptions(clone)['planets']
+    );
+  });
+
+  describe('parseSunOptions', () => {
+    it('should complete valid data with defaults', () => {
+      const result = parseSunOptions({ shader: { brightness: 2 } });
+      expect(result.errors).toEqual([]);
+      expect(result.options!.shader.brightness).toBe(2);
+      expect(result.options!.shader.baseColor).toBeInstanceOf(Color);
+    });
+
+    it('should reject invalid data with structured errors', () => {
+      expect(parseSunOptions('sun').errors[0].message).toBe(
+        'must be an object'
+      );
+
+      const mistyped = parseSunOptions({ shader: { brightness: 'high' } });
+      expect(mistyped.options).toBeUndefined();
+      expect(mistyped.errors[0].path).toBe('shader.brightness');
+
+      // Violates a constraint only together with the default max.count
+      const conflicting = parseSunOptions({
+        solarEruptions: { min: { count: 20 } },
+      });
+      expect(conflicting.options).toBeUndefined();
+      expect(conflicting.errors[0].path).toBe('solarEruptions.max.count');
+    });
+
+    it('should reject data of newer versions', () => {
+      const result = parseSunOptions({ version: SUN_OPTIONS_VERSION + 1 });
+      expect(result.options).toBeUndefined();
+      expect(result.errors[0].path).toBe('version');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Sun Options Serializer
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Converts ThreeSunOptions to plain JSON data and back, e.g. for presets.
+ * Colors are stored as hex strings, vectors as `{ x, y, z }`. Custom
+ * materials can't be serialized and are dropped. Data carries the options
+ * version; older data is migrated and revived on top of the defaults of
+ * ThreeSunConfig, so missing values fall back to defaults.
+ */
+
+import { Color, Material, Vector3 } from 'three';
+import { ThreeSunOptions } from '../three-sun.service';
+import { ThreeSunConfig } from '../three-sun.config';
+import {
+  SUN_OPTIONS_VERSION,
+  SunOptionsValidationError,
+  validateSunOptions,
+} from './sun-options-schema';
+import {
+  getSunOptionsVersion,
+  migrateSunOptionsData,
+} from './sun-options-migrations';
+
+/**
+ * ThreeSunOptions as plain JSON data, tagged with the options `version`.
+ */
+export type SunOptionsData = { [key: string]: unknown };
+
+export interface SunOptionsParseResult {
+  /** Parsed options; undefined when the data is invalid */
+  options?: ThreeSunOptions;
+  errors: SunOptionsValidationError[];
+}
+
+/**
+ * Converts options to plain JSON data.
+ */
+export function serializeSunOptions(options: ThreeSunOptions): SunOptionsData {
+  const data = JSON.parse(
+    JSON.stringify(
+      options,
+      function (this: { [key: string]: unknown }, key, value: unknown) {
+        // `value` already went through `toJSON`, the holder keeps the original
+        const original = isObject(this) ? this[key] : undefined;
+        if (original instanceof Color) return '#' + original.getHexString();
+        if (original instanceof Material) return undefined;
+        return value;
+      }
+    )
+  );
+  return { version: SUN_OPTIONS_VERSION, ...data };
+}
+
+/**
+ * Creates options from JSON data, migrating older versions. Values missing
+ * or mistyped in the data are taken from the defaults of ThreeSunConfig.
+ * Use `parseSunOptions` for data that needs to be validated.
+ */
+export function deserializeSunOptions(data: SunOptionsData): ThreeSunOptions {
+  const { version, ...options } = migrateSunOptionsData(data);
+  return reviveValue(new ThreeSunConfig().options, options) as ThreeSunOptions;
+}
+
+/**
+ * Validates, migrates and deserializes untrusted data, e.g. from a file.
+ * Missing values are completed from the defaults; the completed options
+ * must satisfy the schema, including its cross-field constraints.
+ */
+export function parseSunOptions(data: unknown): SunOptionsParseResult {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return {
+      errors: [{ path: '', message: 'must be an object', value: data }],
+    };
+  }
+
+  const version = getSunOptionsVersion(data as SunOptionsData);
+  if (version > SUN_OPTIONS_VERSION) {
+    return {
+      errors: [
+        {
+          path: 'version',
+          message: `must be at most ${SUN_OPTIONS_VERSION}`,
+          value: version,
+        },
+      ],
+    };
+  }
+
+  const migrated = migrateSunOptionsData(data as SunOptionsData);
+  let errors = validateSunOptions(migrated, { partial: true });
+  if (errors.length) return { errors };
+
+  const options = deserializeSunOptions(migrated);
+  errors = validateSunOptions(options);
+  return errors.length ? { errors } : { options, errors };
+}
+
+/**
+ * Deep copy of options without shared colors, vectors or arrays.
+ */
+export function cloneSunOptions(options: ThreeSunOptions): ThreeSunOptions {
+  const clone = deserializeSunOptions(serializeSunOptions(options));
+  restoreMaterials(options, clone);
+  return clone;
+}
+
+/**
+ * Revives a JSON value using a default value of the same path as template.
+ */
+function reviveValue(template: unknown, value: unknown): unknown {
+  if (value === undefined) return template;
+
+  if (template instanceof Color) {
+    return typeof value === 'string' || typeof value === 'number'
+      ? new Color(value)
+      : template;
+  }
+  if (template instanceof Vector3) {
+    return isObject(value)
+      ? new Vector3(
+          toNumber(value['x'], template.x),
+          toNumber(value['y'], template.y),
+          toNumber(value['z'], template.z)
+        )
+      : template;
+  }
+  if (Array.isArray(template)) {
+    return Array.isArray(value)
+      ? value.map((item) =>
+          reviveValue(cloneValue(findItemTemplate(template, item)), item)
+        )
+      : template;
+  }
+  if (isObject(template)) {
+    if (!isObject(value)) return template;
+    const result: { [key: string]: unknown } = {};
+    const keys = new Set([...Object.keys(template), ...Object.keys(value)]);
+    for (const key of keys) {
+      result[key] = reviveValue(template[key], value[key]);
+    }
+    return result;
+  }
+  if (template === undefined) return value;
+  return typeof value === typeof template ? value : template;
+}
+
+/**
+ * Picks the default list item used as template for a list item: the default
+ * of the same `type` for typed items (post-processing passes), otherwise the
+ * first default, so added items still get default colors and vectors.
+ */
+function findItemTemplate(template: unknown[], item: unknown): unknown {
+  if (isObject(item) && item['type'] !== undefined) {
+    const typed = template.find(
+      (entry) => isObject(entry) && entry['type'] === item['type']
+    );
+    return typed ?? {};
+  }
+  return template[0];
+}
+
+/**
+ * Deep copy of a default value, so list items never share colors or vectors.
+ */
+function cloneValue(value: unknown): unknown {
+  if (value instanceof Color || value instanceof Vector3) return value.clone();
+  if (Array.isArray(value)) return value.map(cloneValue);
+  if (isObject(value) && !(value instanceof Material)) {
+    const result: { [key: string]: unknown } = {};
+    for (const key of Object.keys(value)) result[key] = cloneValue(value[key]);
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Puts the custom materials dropped by serialization back into a clone.
+ */
+function restoreMaterials(source: unknown, target: unknown): void {
+  if (!isObject(source) || !isObject(target)) return;
+  for (const key of Object.keys(source)) {
+    if (source[key] instanceof Material) {
+      target[key] = source[key];
+    } else {
+      restoreMaterials(source[key], target[key]);
+    }
+  }
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback;
+}
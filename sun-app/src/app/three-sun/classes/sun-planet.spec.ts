@@ -0,0 +1,104 @@
+import { Color, PerspectiveCamera, Scene } from 'three';
+import { ThreeSunService } from '../three-sun.service';
+import { SunPlanet, SunPlanetOptions } from './sun-planet';
+
+describe('SunPlanet', () => {
+  let sun: ThreeSunService;
+  let options: SunPlanetOptions;
+  let planet: SunPlanet;
+
+  beforeEach(() => {
+    sun = new ThreeSunService();
+    sun.options.planets.active = true;
+    sun.options.planets.bodies = [];
+    sun.initSun(new Scene(), new PerspectiveCamera());
+
+    options = {
+      name: 'Test',
+      radius: 0.5,
+      orbitRadius: 10,
+      eccentricity: 0,
+      inclination: 0,
+      period: 20,
+      phase: 0,
+      rotationPeriod: 0,
+      color: new Color('#ff0000'),
+      ring: {
+        active: false,
+        innerRadius: 1.5,
+        outerRadius: 2,
+        color: new Color('#ffffff'),
+        opacity: 1,
+        tilt: 0,
+      },
+    };
+    planet = sun.planetarySystem.addPlanet(options);
+  });
+
+  afterEach(() => {
+    sun.destroy();
+  });
+
+  it('should keep its distance on a circular orbit', () => {
+    for (const time of [0, 3, 7.5, 12]) {
+      planet.update(time);
+      expect(planet.group.position.length()).toBeCloseTo(10, 5);
+    }
+  });
+
+  it('should return to its start after one period', () => {
+    planet.update(0);
+    const start = planet.group.position.clone();
+    planet.update(5);
+    expect(planet.group.position.distanceTo(start)).toBeGreaterThan(1);
+    planet.update(20);
+    expect(planet.group.position.distanceTo(start)).toBeCloseTo(0, 5);
+  });
+
+  it('should pass periapsis and apoapsis of an eccentric orbit', () => {
+    options.eccentricity = 0.5;
+    expect(planet.getOrbitPosition(0).length()).toBeCloseTo(5, 5);
+    expect(planet.getOrbitPosition(Math.PI).length()).toBeCloseTo(15, 5);
+
+    // Kepler's second law: faster near the sun
+    const near = planet
+      .getOrbitPosition(0.1)
+      .distanceTo(planet.getOrbitPosition(0));
+    const far = planet
+      .getOrbitPosition(Math.PI + 0.1)
+      .distanceTo(planet.getOrbitPosition(Math.PI));
+    expect(near).toBeGreaterThan(far);
+  });
+
+  it('should tilt the orbit by its inclination', () => {
+    options.inclination = Math.PI / 6;
+    const position = planet.getOrbitPosition(Math.PI / 2);
+    expect(Math.abs(position.y)).toBeCloseTo(5, 5);
+  });
+
+  it('should trace the orbit and rebuild the line only when it changes', () => {
+    planet.update(0);
+    const geometry = planet.orbitLine.geometry;
+    expect(geometry.getAttribute('position').count).toBeGreaterThan(0);
+
+    planet.update(1);
+    expect(planet.orbitLine.geometry).toBe(geometry);
+
+    options.eccentricity = 0.2;
+    planet.update(1);
+    expect(planet.orbitLine.geometry).not.toBe(geometry);
+  });
+
+  it('should add and remove rings', () => {
+    options.ring.active = true;
+    planet.update(0);
+    expect(planet.ring?.parent).toBe(planet.group);
+
+    const ring = planet.ring!;
+    spyOn(ring.geometry, 'dispose').and.callThrough();
+    options.ring.active = false;
+    planet.update(0);
+    expect(planet.ring).toBeUndefined();
+    expect(ring.geometry.dispose).toHaveBeenCalled();
+  });
+});
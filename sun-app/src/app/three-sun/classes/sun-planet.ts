@@ -0,0 +1,249 @@
+/**
+ * Sun Planet Class
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * A body of a SunPlanetarySystem: a lit sphere on an elliptic (Kepler) orbit
+ * around the sun, with optional rings and a line tracing its orbit.
+ */
+
+import {
+  BufferGeometry,
+  Color,
+  DoubleSide,
+  Float32BufferAttribute,
+  Group,
+  LineLoop,
+  Material,
+  Mesh,
+  MeshStandardMaterial,
+  RingGeometry,
+  Vector3,
+} from 'three';
+import { SunPlanetarySystem } from './sun-planetary-system';
+
+/** Number of points of the orbit line */
+const ORBIT_SEGMENTS = 128;
+
+/** Newton iterations solving Kepler's equation */
+const KEPLER_ITERATIONS = 8;
+
+export interface SunPlanetRingOptions {
+  active: boolean;
+  /** Inner edge relative to the planet radius */
+  innerRadius: number;
+  /** Outer edge relative to the planet radius */
+  outerRadius: number;
+  color: Color;
+  opacity: number;
+  /** Tilt of the ring plane around the X axis (in radians) */
+  tilt: number;
+}
+
+export interface SunPlanetOptions {
+  name: string;
+  radius: number;
+  /** Semi-major axis of the orbit, measured from the sun center */
+  orbitRadius: number;
+  /** Shape of the orbit: 0 is a circle, values towards 1 stretch it */
+  eccentricity: number;
+  /** Tilt of the orbital plane around the X axis (in radians) */
+  inclination: number;
+  /** Duration of one full orbit (in simulated seconds) */
+  period: number;
+  /** Start position on the orbit as mean anomaly (in radians) */
+  phase: number;
+  /** Duration of one spin (in simulated seconds); negative is retrograde */
+  rotationPeriod: number;
+  color: Color;
+  /** Optional color map URL */
+  texture?: string;
+  /**
+   * Custom material; replaces color and texture. It is shared, not owned,
+   * so the planet never disposes it.
+   */
+  material?: Material;
+  ring: SunPlanetRingOptions;
+}
+
+export class SunPlanet {
+  /** Positioned on the orbit; holds the planet and its rings */
+  group = new Group();
+  mesh: Mesh;
+  ring?: Mesh<RingGeometry, MeshStandardMaterial>;
+  orbitLine: LineLoop<BufferGeometry, Material>;
+
+  private material = new MeshStandardMaterial({ roughness: 0.9 });
+  private orbitKey = '';
+  private ringKey = '';
+
+  /**
+   * @param system System the planet belongs to (shared geometry, textures).
+   * @param options Planet options.
+   */
+  constructor(
+    private system: SunPlanetarySystem,
+    public options: SunPlanetOptions
+  ) {
+    this.mesh = new Mesh(system.sphereGeometry, this.material);
+    this.group.add(this.mesh);
+    this.orbitLine = new LineLoop(new BufferGeometry(), system.orbitMaterial);
+    system.group.add(this.group, this.orbitLine);
+  }
+
+  /**
+   * Returns the position on the orbit relative to the sun center.
+   * @param meanAnomaly Mean anomaly (in radians), advancing uniformly in time.
+   */
+  getOrbitPosition(meanAnomaly: number, target = new Vector3()): Vector3 {
+    const e = this.getEccentricity();
+    let anomaly = meanAnomaly;
+    for (let i = 0; i < KEPLER_ITERATIONS; i++) {
+      anomaly -=
+        (anomaly - e * Math.sin(anomaly) - meanAnomaly) /
+        (1 - e * Math.cos(anomaly));
+    }
+    return this.getEllipsePoint(anomaly, target);
+  }
+
+  /**
+   * Mean anomaly at a point in time of the system.
+   * @param time Simulated time (in seconds).
+   */
+  getMeanAnomaly(time: number): number {
+    const { period, phase } = this.options;
+    return period ? phase + (time / period) * Math.PI * 2 : phase;
+  }
+
+  /**
+   * Moves the planet along its orbit and syncs meshes with the options.
+   * @param time Simulated time of the system (in seconds).
+   */
+  update(time: number): void {
+    const options = this.options;
+
+    this.getOrbitPosition(this.getMeanAnomaly(time), this.group.position);
+    this.mesh.scale.setScalar(options.radius);
+    this.mesh.rotation.y = options.rotationPeriod
+      ? (time / options.rotationPeriod) * Math.PI * 2
+      : 0;
+
+    if (options.material) {
+      this.mesh.material = options.material;
+    } else {
+      this.mesh.material = this.material;
+      this.material.color.copy(options.color);
+      const map = options.texture
+        ? this.system.getTexture(options.texture)
+        : null;
+      if (this.material.map !== map) {
+        this.material.map = map;
+        this.material.needsUpdate = true;
+      }
+    }
+
+    const shadows = this.system.options.shadows;
+    this.mesh.castShadow = this.mesh.receiveShadow = shadows;
+
+    this.syncRing(options.ring, shadows);
+    this.syncOrbitLine();
+  }
+
+  private syncRing(options: SunPlanetRingOptions, shadows: boolean): void {
+    if (!options.active) {
+      this.disposeRing();
+      return;
+    }
+
+    const key = [options.innerRadius, options.outerRadius].join();
+    if (!this.ring) {
+      this.ring = new Mesh(
+        new RingGeometry(options.innerRadius, options.outerRadius, 64),
+        new MeshStandardMaterial({
+          side: DoubleSide,
+          transparent: true,
+          roughness: 1,
+        })
+      );
+      this.ringKey = key;
+      this.group.add(this.ring);
+    } else if (key !== this.ringKey) {
+      this.ringKey = key;
+      this.ring.geometry.dispose();
+      this.ring.geometry = new RingGeometry(
+        options.innerRadius,
+        options.outerRadius,
+        64
+      );
+    }
+
+    this.ring.scale.setScalar(this.options.radius);
+    this.ring.rotation.x = options.tilt - Math.PI / 2;
+    this.ring.material.color.copy(options.color);
+    this.ring.material.opacity = options.opacity;
+    this.ring.castShadow = this.ring.receiveShadow = shadows;
+  }
+
+  private disposeRing(): void {
+    if (!this.ring) return;
+    this.ring.removeFromParent();
+    this.ring.geometry.dispose();
+    this.ring.material.dispose();
+    this.ring = undefined;
+  }
+
+  /**
+   * Rebuilds the orbit line when the orbit shape changed.
+   */
+  private syncOrbitLine(): void {
+    const { orbitRadius, eccentricity, inclination } = this.options;
+    const key = [orbitRadius, eccentricity, inclination].join();
+    this.orbitLine.visible = this.system.options.showOrbits;
+    if (key === this.orbitKey) return;
+    this.orbitKey = key;
+
+    const point = new Vector3();
+    const positions: number[] = [];
+    for (let i = 0; i < ORBIT_SEGMENTS; i++) {
+      this.getEllipsePoint((i / ORBIT_SEGMENTS) * Math.PI * 2, point);
+      positions.push(point.x, point.y, point.z);
+    }
+    this.orbitLine.geometry.dispose();
+    this.orbitLine.geometry = new BufferGeometry().setAttribute(
+      'position',
+      new Float32BufferAttribute(positions, 3)
+    );
+  }
+
+  /**
+   * Point on the orbit ellipse for an eccentric anomaly. The sun sits in a
+   * focus; the orbit lies in the XZ plane, tilted by the inclination.
+   */
+  private getEllipsePoint(anomaly: number, target: Vector3): Vector3 {
+    const a = this.options.orbitRadius;
+    const e = this.getEccentricity();
+    const b = a * Math.sqrt(1 - e * e);
+    return target
+      .set(a * (Math.cos(anomaly) - e), 0, b * Math.sin(anomaly))
+      .applyAxisAngle(new Vector3(1, 0, 0), this.options.inclination);
+  }
+
+  /** Eccentricity limited to closed orbits */
+  private getEccentricity(): number {
+    return Math.min(Math.max(this.options.eccentricity, 0), 0.99);
+  }
+
+  /**
+   * Removes the planet from the scene and releases its geometries and
+   * materials. Shared geometry, textures and custom materials are kept.
+   */
+  dispose(): void {
+    this.disposeRing();
+    this.material.dispose();
+    this.orbitLine.geometry.dispose();
+    this.orbitLine.removeFromParent();
+    this.group.removeFromParent();
+  }
+}
@@ -0,0 +1,85 @@
+import { PerspectiveCamera, Scene } from 'three';
+import { ThreeSunService } from '../three-sun.service';
+import { createInnerSolarSystem } from './sun-planetary-system';
+
+describe('SunPlanetarySystem', () => {
+  let sun: ThreeSunService;
+  let scene: Scene;
+
+  beforeEach(() => {
+    scene = new Scene();
+    sun = new ThreeSunService();
+    sun.options.planets.active = true;
+    sun.initSun(scene, new PerspectiveCamera());
+  });
+
+  afterEach(() => {
+    sun.destroy();
+  });
+
+  it('should create a planet for every body', () => {
+    const planets = sun.planetarySystem.getPlanets();
+    expect(planets.length).toBe(createInnerSolarSystem().length);
+    expect(planets.map((planet) => planet.options)).toEqual(
+      sun.options.planets.bodies
+    );
+  });
+
+  it('should hide the planets while inactive', () => {
+    sun.options.planets.active = false;
+    sun.simulate(0.1);
+    expect(sun.planetarySystem.group.visible).toBeFalse();
+  });
+
+  it('should orbit on the simulation clock', () => {
+    const [planet] = sun.planetarySystem.getPlanets();
+    const start = planet.group.position.clone();
+
+    sun.clock.pause();
+    sun.animate(1);
+    expect(planet.group.position.equals(start)).toBeTrue();
+
+    sun.clock.resume();
+    sun.animate(1);
+    expect(planet.group.position.equals(start)).toBeFalse();
+  });
+
+  it('should follow the sun through the scene', () => {
+    sun.options.position.set(5, 0, 0);
+    sun.simulate(0);
+    expect(sun.planetarySystem.group.position.x).toBe(5);
+  });
+
+  it('should add and remove planets', () => {
+    const bodies = sun.options.planets.bodies;
+    const planet = sun.planetarySystem.addPlanet({
+      ...createInnerSolarSystem()[0],
+      name: 'Vulcan',
+    });
+    expect(bodies.length).toBe(5);
+    expect(planet.group.parent).toBe(sun.planetarySystem.group);
+
+    spyOn(planet, 'dispose').and.callThrough();
+    sun.planetarySystem.removePlanet(planet);
+    expect(bodies.length).toBe(4);
+    expect(planet.dispose).toHaveBeenCalled();
+  });
+
+  it('should let the planets occlude the sun', () => {
+    const occluders = sun.getOccluders();
+    for (const planet of sun.planetarySystem.getPlanets()) {
+      expect(occluders).toContain(planet.mesh);
+    }
+  });
+
+  it('should cast shadows of the sun light on demand', () => {
+    expect(sun.light.castShadow).toBeFalse();
+
+    sun.options.planets.shadows = true;
+    sun.simulate(0);
+    expect(sun.light.castShadow).toBeTrue();
+    const [planet] = sun.planetarySystem.getPlanets();
+    expect(planet.mesh.castShadow).toBeTrue();
+    expect(planet.mesh.receiveShadow).toBeTrue();
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Sun Planetary System Class
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Optional planets orbiting a sun on its simulation clock, lit by the sun's
+ * PointLight. Bodies follow `options.bodies`, so they can be added, removed
+ * and edited at runtime. The planets live outside the sun root, which lets
+ * them occlude the sun (lens flare, god rays).
+ */
+
+import {
+  Color,
+  Group,
+  LineBasicMaterial,
+  SphereGeometry,
+  SRGBColorSpace,
+  Texture,
+} from 'three';
+import { ThreeSunService } from '../three-sun.service';
+import { SunPlanet, SunPlanetOptions } from './sun-planet';
+
+export interface SunPlanetarySystemOptions {
+  active: boolean;
+  showOrbits: boolean;
+  orbitColor: Color;
+  /** Planets cast and receive shadows of the sun light */
+  shadows: boolean;
+  bodies: SunPlanetOptions[];
+}
+
+/**
+ * Mercury, Venus, Earth and Mars with their real eccentricities,
+ * inclinations and period ratios, scaled to the default sun (radius 2).
+ * Sizes and distances are exaggerated, so all bodies stay visible.
+ */
+export function createInnerSolarSystem(): SunPlanetOptions[] {
+  const degrees = Math.PI / 180;
+  const ring = () => ({
+    active: false,
+    innerRadius: 1.4,
+    outerRadius: 2.2,
+    color: new Color('#d8c9a3'),
+    opacity: 0.6,
+    tilt: 0,
+  });
+
+  return [
+    {
+      name: 'Mercury',
+      radius: 0.1,
+      orbitRadius: 3.2,
+      eccentricity: 0.206,
+      inclination: 7 * degrees,
+      period: 14.5,
+      phase: 0,
+      rotationPeriod: 30,
+      color: new Color('#9c9c9c'),
+      ring: ring(),
+    },
+    {
+      name: 'Venus',
+      radius: 0.22,
+      orbitRadius: 4.2,
+      eccentricity: 0.007,
+      inclination: 3.4 * degrees,
+      period: 37,
+      phase: 2,
+      rotationPeriod: -60,
+      color: new Color('#e6c58f'),
+      ring: ring(),
+    },
+    {
+      name: 'Earth',
+      radius: 0.24,
+      orbitRadius: 5.4,
+      eccentricity: 0.017,
+      inclination: 0,
+      period: 60,
+      phase: 4,
+      rotationPeriod: 4,
+      color: new Color('#3f7fd0'),
+      ring: ring(),
+    },
+    {
+      name: 'Mars',
+      radius: 0.14,
+      orbitRadius: 7,
+      eccentricity: 0.093,
+      inclination: 1.85 * degrees,
+      period: 113,
+      phase: 5.5,
+      rotationPeriod: 4.1,
+      color: new Color('#c1440e'),
+      ring: ring(),
+    },
+  ];
+}
+
+export class SunPlanetarySystem {
+  /** Holds planets and orbit lines, follows the sun through the scene */
+  group = new Group();
+
+  /** Simulated time driving orbits and spins (in seconds) */
+  time = 0;
+
+  /** Unit sphere shared by all planets, scaled by their radius */
+  sphereGeometry = new SphereGeometry(1, 48, 24);
+  orbitMaterial = new LineBasicMaterial({ transparent: true, opacity: 0.35 });
+
+  /** Planets created for the entries of `options.bodies` */
+  private planets = new Map<SunPlanetOptions, SunPlanet>();
+  private textures = new Map<string, Texture>();
+
+  /**
+   * @param sun Sun the planets orbit.
+   * @param options System options.
+   */
+  constructor(
+    private sun: ThreeSunService,
+    public options: SunPlanetarySystemOptions
+  ) {
+    this.sun.scene.add(this.group);
+    this.update(0);
+  }
+
+  /**
+   * Planets in the order of `options.bodies`.
+   */
+  getPlanets(): SunPlanet[] {
+    return [...this.planets.values()];
+  }
+
+  /**
+   * Adds a body to the options and returns its planet.
+   */
+  addPlanet(options: SunPlanetOptions): SunPlanet {
+    this.options.bodies.push(options);
+    this.update(0);
+    return this.planets.get(options)!;
+  }
+
+  /**
+   * Removes a body from the options and disposes its planet.
+   */
+  removePlanet(planet: SunPlanet): void {
+    const index = this.options.bodies.indexOf(planet.options);
+    if (index === -1) return;
+    this.options.bodies.splice(index, 1);
+    this.update(0);
+  }
+
+  /**
+   * Syncs planets with the options and advances the orbits.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  update(deltaTime: number): void {
+    const options = this.options;
+    this.time += deltaTime;
+
+    this.group.visible = options.active;
+    this.sun.getWorldPosition(this.group.position);
+    this.orbitMaterial.color.copy(options.orbitColor);
+
+    const planets = new Map<SunPlanetOptions, SunPlanet>();
+    for (const body of options.bodies) {
+      const planet = this.planets.get(body) ?? new SunPlanet(this, body);
+      planet.update(this.time);
+      planets.set(body, planet);
+    }
+    this.planets.forEach((planet, body) => {
+      if (!planets.has(body)) planet.dispose();
+    });
+    this.planets = planets;
+  }
+
+  /**
+   * Returns the texture for a URL, loading it on first use.
+   */
+  getTexture(url: string): Texture {
+    let texture = this.textures.get(url);
+    if (!texture) {
+      texture = this.sun.textureLoader.load(url);
+      texture.colorSpace = SRGBColorSpace;
+      this.textures.set(url, texture);
+    }
+    return texture;
+  }
+
+  /**
+   * Removes all planets from the scene and releases their resources.
+   */
+  dispose(): void {
+    this.planets.forEach((planet) => planet.dispose());
+    this.planets.clear();
+    this.textures.forEach((texture) => texture.dispose());
+    this.textures.clear();
+    this.sphereGeometry.dispose();
+    this.orbitMaterial.dispose();
+    this.group.removeFromParent();
+  }
+}
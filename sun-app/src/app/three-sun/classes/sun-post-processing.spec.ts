@@ -0,0 +1,96 @@
+import {
+  HalfFloatType,
+  PerspectiveCamera,
+  Scene,
+  UnsignedByteType,
+  WebGLRenderer,
+} from 'three';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import {
+  createPostProcessingPassOptions,
+  SunPostProcessing,
+  SunPostProcessingOptions,
+} from './sun-post-processing';
+import { ThreeSunService } from '../three-sun.service';
+
+describe('SunPostProcessing', () => {
+  let renderer: WebGLRenderer;
+  let options: SunPostProcessingOptions;
+  let postProcessing: SunPostProcessing;
+
+  beforeEach(() => {
+    renderer = new WebGLRenderer();
+    options = {
+      hdr: true,
+      passes: [
+        createPostProcessingPassOptions('bloom'),
+        createPostProcessingPassOptions('toneMapping'),
+        createPostProcessingPassOptions('vignette'),
+      ],
+    };
+    postProcessing = new SunPostProcessing(
+      renderer,
+      new Scene(),
+      new PerspectiveCamera(),
+      options,
+      new ThreeSunService()
+    );
+  });
+
+  afterEach(() => {
+    postProcessing.dispose();
+    renderer.dispose();
+  });
+
+  it('should render the scene followed by the configured passes', () => {
+    const passes = postProcessing.composer.passes;
+    expect(passes.length).toBe(4);
+    expect(passes[0]).toBe(postProcessing.renderPass);
+    expect(passes[1]).toBeInstanceOf(UnrealBloomPass);
+  });
+
+  it('should toggle, reorder and remove passes at runtime', () => {
+    const [, bloom, toneMapping, vignette] = postProcessing.composer.passes;
+
+    options.passes[0].active = false;
+    options.passes.reverse();
+    postProcessing.update();
+    expect(postProcessing.composer.passes.slice(1)).toEqual([
+      vignette,
+      toneMapping,
+      bloom,
+    ]);
+    expect(bloom.enabled).toBeFalse();
+
+    spyOn(vignette, 'dispose').and.callThrough();
+    options.passes.shift();
+    postProcessing.update();
+    expect(postProcessing.composer.passes).not.toContain(vignette);
+    expect(vignette.dispose).toHaveBeenCalled();
+  });
+
+  it('should apply tone mapping mode and exposure', () => {
+    const toneMapping = options.passes[1];
+    if (toneMapping.type !== 'toneMapping') throw new Error('unexpected pass');
+    toneMapping.mode = 'agx';
+    toneMapping.exposure = 2;
+    postProcessing.update();
+
+    const material = (postProcessing.composer.passes[2] as ShaderPass).material;
+    expect(material.defines).toEqual({ AGX_TONE_MAPPING: '' });
+    expect(material.uniforms['toneMappingExposure'].value).toBe(2);
+  });
+
+  it('should switch between half-float and 8-bit render targets', () => {
+    expect(postProcessing.composer.renderTarget1.texture.type).toBe(
+      HalfFloatType
+    );
+
+    options.hdr = false;
+    postProcessing.update();
+    expect(postProcessing.composer.renderTarget1.texture.type).toBe(
+      UnsignedByteType
+    );
+  });
+});
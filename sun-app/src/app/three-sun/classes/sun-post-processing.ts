@@ -0,0 +1,353 @@
+/**
+ * Sun Post Processing Class
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Declarative post-processing pipeline. Renders the scene through an
+ * EffectComposer whose passes follow `options.passes` every frame, so passes
+ * can be added, removed, reordered and toggled at runtime. The options are
+ * plain data and serialize with the rest of the sun options.
+ */
+
+import {
+  Camera,
+  HalfFloatType,
+  MathUtils,
+  RawShaderMaterial,
+  Scene,
+  UniformsUtils,
+  UnsignedByteType,
+  Vector2,
+  WebGLRenderer,
+  WebGLRenderTarget,
+} from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { FilmPass } from 'three/examples/jsm/postprocessing/FilmPass.js';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { OutputShader } from 'three/examples/jsm/shaders/OutputShader.js';
+import { RGBShiftShader } from 'three/examples/jsm/shaders/RGBShiftShader.js';
+import { VignetteShader } from 'three/examples/jsm/shaders/VignetteShader.js';
+import { ThreeSunService } from '../three-sun.service';
+import {
+  SUN_GOD_RAYS_MAX_SAMPLES,
+  SunGodRaysPass,
+} from './sun-god-rays-pass';
+
+export type SunToneMappingMode =
+  | 'linear'
+  | 'reinhard'
+  | 'cineon'
+  | 'aces'
+  | 'agx'
+  | 'neutral';
+
+/** Shader define of each tone mapping mode (see three's OutputShader) */
+const TONE_MAPPING_DEFINES: Record<SunToneMappingMode, string> = {
+  linear: 'LINEAR_TONE_MAPPING',
+  reinhard: 'REINHARD_TONE_MAPPING',
+  cineon: 'CINEON_TONE_MAPPING',
+  aces: 'ACES_FILMIC_TONE_MAPPING',
+  agx: 'AGX_TONE_MAPPING',
+  neutral: 'NEUTRAL_TONE_MAPPING',
+};
+
+export interface SunGodRaysPassOptions {
+  type: 'godRays';
+  active: boolean;
+  /** Share of the way from each pixel to the sun covered by the samples */
+  density: number;
+  /** Falloff of each sample along the ray */
+  decay: number;
+  /** Contribution of the first sample */
+  weight: number;
+  /** Overall brightness of the rays */
+  exposure: number;
+  /** Samples per pixel, up to `SUN_GOD_RAYS_MAX_SAMPLES` */
+  samples: number;
+}
+
+export interface SunBloomPassOptions {
+  type: 'bloom';
+  active: boolean;
+  strength: number;
+  radius: number;
+  /** Luminance above which pixels bloom */
+  threshold: number;
+}
+
+export interface SunToneMappingPassOptions {
+  type: 'toneMapping';
+  active: boolean;
+  mode: SunToneMappingMode;
+  exposure: number;
+}
+
+export interface SunFilmGrainPassOptions {
+  type: 'filmGrain';
+  active: boolean;
+  intensity: number;
+  grayscale: boolean;
+}
+
+export interface SunChromaticAberrationPassOptions {
+  type: 'chromaticAberration';
+  active: boolean;
+  /** Offset of the red and blue channels (share of the screen size) */
+  amount: number;
+  /** Direction of the offset (in degrees) */
+  angle: number;
+}
+
+export interface SunVignettePassOptions {
+  type: 'vignette';
+  active: boolean;
+  offset: number;
+  darkness: number;
+}
+
+export type SunPostProcessingPassOptions =
+  | SunGodRaysPassOptions
+  | SunBloomPassOptions
+  | SunToneMappingPassOptions
+  | SunFilmGrainPassOptions
+  | SunChromaticAberrationPassOptions
+  | SunVignettePassOptions;
+
+export type SunPostProcessingPassType = SunPostProcessingPassOptions['type'];
+
+export interface SunPostProcessingOptions {
+  /** Renders into half-float targets, so values above 1 reach tone mapping */
+  hdr: boolean;
+  /** Passes applied in order after the scene is rendered */
+  passes: SunPostProcessingPassOptions[];
+}
+
+/**
+ * Returns the default options of a pass, e.g. when adding it in the editor.
+ */
+export function createPostProcessingPassOptions(
+  type: SunPostProcessingPassType
+): SunPostProcessingPassOptions {
+  switch (type) {
+    case 'godRays':
+      return {
+        type,
+        active: true,
+        density: 0.96,
+        decay: 0.95,
+        weight: 0.4,
+        exposure: 0.3,
+        samples: 60,
+      };
+    case 'bloom':
+      return { type, active: true, strength: 0.1, radius: 0.5, threshold: 0 };
+    case 'toneMapping':
+      return { type, active: true, mode: 'aces', exposure: 1 };
+    case 'filmGrain':
+      return { type, active: true, intensity: 0.15, grayscale: false };
+    case 'chromaticAberration':
+      return { type, active: true, amount: 0.0015, angle: 0 };
+    case 'vignette':
+      return { type, active: true, offset: 1, darkness: 1.2 };
+  }
+}
+
+export class SunPostProcessing {
+  composer: EffectComposer;
+  renderPass: RenderPass;
+
+  /** Passes created for the entries of `options.passes` */
+  private passes = new Map<
+    SunPostProcessingPassOptions,
+    { type: SunPostProcessingPassType; pass: Pass }
+  >();
+  private hdr: boolean;
+
+  /**
+   * @param renderer Renderer the composer draws with.
+   * @param scene Scene rendered by the first pass.
+   * @param camera Camera rendered by the first pass.
+   * @param options Pipeline options.
+   * @param sun Sun the god rays stream from.
+   */
+  constructor(
+    renderer: WebGLRenderer,
+    scene: Scene,
+    camera: Camera,
+    public options: SunPostProcessingOptions,
+    private sun: ThreeSunService
+  ) {
+    // The composer creates half-float targets by default
+    this.composer = new EffectComposer(renderer);
+    this.hdr = true;
+    this.renderPass = new RenderPass(scene, camera);
+    this.update();
+  }
+
+  /**
+   * Resizes the render targets and all passes.
+   */
+  setSize(width: number, height: number): void {
+    this.composer.setSize(width, height);
+  }
+
+  /**
+   * Syncs render targets and passes with the options, then renders the frame.
+   * @param deltaTime Frame delta time (in seconds), drives film grain.
+   */
+  render(deltaTime: number): void {
+    this.update();
+    this.composer.render(deltaTime);
+  }
+
+  /**
+   * Creates, updates, reorders and removes passes to match `options`.
+   */
+  update(): void {
+    if (this.options.hdr !== this.hdr) {
+      this.hdr = this.options.hdr;
+      const current = this.composer.renderTarget1;
+      this.composer.reset(
+        new WebGLRenderTarget(current.width, current.height, {
+          type: this.hdr ? HalfFloatType : UnsignedByteType,
+        })
+      );
+    }
+
+    const passes = new Map<
+      SunPostProcessingPassOptions,
+      { type: SunPostProcessingPassType; pass: Pass }
+    >();
+    for (const options of this.options.passes) {
+      let entry = this.passes.get(options);
+      if (!entry || entry.type !== options.type) {
+        entry = { type: options.type, pass: this.createPass(options) };
+      }
+      this.applyOptions(entry.pass, options);
+      passes.set(options, entry);
+    }
+
+    this.passes.forEach((entry, options) => {
+      if (passes.get(options) !== entry) entry.pass.dispose();
+    });
+    this.passes = passes;
+
+    this.composer.passes = [
+      this.renderPass,
+      ...[...passes.values()].map((entry) => entry.pass),
+    ];
+  }
+
+  private createPass(options: SunPostProcessingPassOptions): Pass {
+    const target = this.composer.renderTarget1;
+    let pass: Pass;
+
+    switch (options.type) {
+      case 'godRays':
+        pass = new SunGodRaysPass(this.sun, this.renderPass.camera);
+        break;
+      case 'bloom':
+        pass = new UnrealBloomPass(
+          new Vector2(target.width, target.height),
+          options.strength,
+          options.radius,
+          options.threshold
+        );
+        break;
+      case 'toneMapping':
+        // Raw material, since the shader declares its own attributes
+        pass = new ShaderPass(
+          new RawShaderMaterial({
+            name: OutputShader.name,
+            uniforms: UniformsUtils.clone(OutputShader.uniforms),
+            vertexShader: OutputShader.vertexShader,
+            fragmentShader: OutputShader.fragmentShader,
+          })
+        );
+        break;
+      case 'filmGrain':
+        pass = new FilmPass(options.intensity, options.grayscale);
+        break;
+      case 'chromaticAberration':
+        pass = new ShaderPass(RGBShiftShader);
+        break;
+      case 'vignette':
+        pass = new ShaderPass(VignetteShader);
+        break;
+    }
+
+    pass.setSize(target.width, target.height);
+    return pass;
+  }
+
+  private applyOptions(
+    pass: Pass,
+    options: SunPostProcessingPassOptions
+  ): void {
+    pass.enabled = options.active;
+
+    switch (options.type) {
+      case 'godRays': {
+        const uniforms = (pass as SunGodRaysPass).uniforms;
+        uniforms['density'].value = options.density;
+        uniforms['decay'].value = options.decay;
+        uniforms['weight'].value = options.weight;
+        uniforms['exposure'].value = options.exposure;
+        uniforms['samples'].value = Math.round(
+          MathUtils.clamp(options.samples, 1, SUN_GOD_RAYS_MAX_SAMPLES)
+        );
+        break;
+      }
+      case 'bloom': {
+        const bloom = pass as UnrealBloomPass;
+        bloom.strength = options.strength;
+        bloom.radius = options.radius;
+        bloom.threshold = options.threshold;
+        break;
+      }
+      case 'toneMapping': {
+        const material = (pass as ShaderPass).material;
+        const define = TONE_MAPPING_DEFINES[options.mode];
+        if (!(define in material.defines)) {
+          material.defines = { [define]: '' };
+          material.needsUpdate = true;
+        }
+        material.uniforms['toneMappingExposure'].value = options.exposure;
+        break;
+      }
+      case 'filmGrain': {
+        const uniforms = (pass as FilmPass).material.uniforms;
+        uniforms['intensity'].value = options.intensity;
+        uniforms['grayscale'].value = options.grayscale;
+        break;
+      }
+      case 'chromaticAberration': {
+        const uniforms = (pass as ShaderPass).uniforms;
+        uniforms['amount'].value = options.amount;
+        uniforms['angle'].value = MathUtils.degToRad(options.angle);
+        break;
+      }
+      case 'vignette': {
+        const uniforms = (pass as ShaderPass).uniforms;
+        uniforms['offset'].value = options.offset;
+        uniforms['darkness'].value = options.darkness;
+        break;
+      }
+    }
+  }
+
+  /**
+   * Releases all passes and render targets.
+   */
+  dispose(): void {
+    this.passes.forEach((entry) => entry.pass.dispose());
+    this.passes.clear();
+    this.renderPass.dispose();
+    this.composer.dispose();
+  }
+}
@@ -0,0 +1,86 @@
+import { ThreeSunConfig } from '../three-sun.config';
+import {
+  MemorySunPresetStorage,
+  SUN_BUILT_IN_PRESETS,
+  SunPresetLibrary,
+} from './sun-preset-library';
+
+describe('SunPresetLibrary', () => {
+  let storage: MemorySunPresetStorage;
+  let library: SunPresetLibrary;
+
+  beforeEach(() => {
+    storage = new MemorySunPresetStorage();
+    library = new SunPresetLibrary(storage);
+  });
+
+  it('should ship the built-in archetypes as complete options', () => {
+    const ids = SUN_BUILT_IN_PRESETS.map((preset) => preset.id);
+    expect(ids).toEqual([
+      'g-type-sun',
+      'red-dwarf',
+      'blue-giant',
+      'active-sun',
+      'quiet-sun',
+    ]);
+
+    const keys = Object.keys(new ThreeSunConfig().options).sort();
+    for (const preset of SUN_BUILT_IN_PRESETS) {
+      expect(Object.keys(preset.createOptions()).sort()).toEqual(keys);
+    }
+  });
+
+  it('should create a fresh copy on every load', () => {
+    const preset = library.getPreset('red-dwarf')!;
+    const options = preset.createOptions();
+    options.shader.baseColor.set('#000000');
+    expect(preset.createOptions().shader.baseColor.getHexString()).not.toBe(
+      '000000'
+    );
+  });
+
+  it('should save, overwrite, rename and delete user presets', () => {
+    const options = new ThreeSunConfig().options;
+    options.shader.brightness = 2;
+
+    const saved = library.savePreset('Bright', options);
+    expect(saved.builtIn).toBeFalse();
+    expect(library.getPresets().length).toBe(SUN_BUILT_IN_PRESETS.length + 1);
+    expect(saved.createOptions().shader.brightness).toBe(2);
+
+    options.shader.brightness = 3;
+    library.savePreset('Brighter', options, saved.id);
+    expect(library.getPresets().length).toBe(SUN_BUILT_IN_PRESETS.length + 1);
+    expect(library.getPreset(saved.id)!.createOptions().shader.brightness).toBe(
+      3
+    );
+
+    expect(library.renamePreset(saved.id, 'Renamed')).toBeTrue();
+    expect(library.getPreset(saved.id)!.name).toBe('Renamed');
+
+    expect(library.deletePreset(saved.id)).toBeTrue();
+    expect(library.getPreset(saved.id)).toBeUndefined();
+  });
+
+  it('should keep built-in presets read-only', () => {
+    const options = new ThreeSunConfig().options;
+    const saved = library.savePreset('Copy', options, 'g-type-sun');
+
+    expect(saved.id).not.toBe('g-type-sun');
+    expect(library.renamePreset('g-type-sun', 'Renamed')).toBeFalse();
+    expect(library.deletePreset('g-type-sun')).toBeFalse();
+    expect(library.getPreset('g-type-sun')!.name).toBe('G-type sun');
+  });
+
+  it('should persist user presets in the storage', () => {
+    const saved = library.savePreset('Stored', new ThreeSunConfig().options);
+
+    const reopened = new SunPresetLibrary(storage);
+    expect(reopened.getPreset(saved.id)!.name).toBe('Stored');
+  });
+
+  it('should ignore unreadable storage', () => {
+    storage.setItem('three-sun-presets', '{broken');
+    expect(library.getPresets().length).toBe(SUN_BUILT_IN_PRESETS.length);
+  });
+});
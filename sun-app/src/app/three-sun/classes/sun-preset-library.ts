@@ -0,0 +1,281 @@
+/**
+ * Sun Preset Library
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Named sets of complete ThreeSunOptions: built-in star archetypes and
+ * presets saved by the user. User presets are kept in an injectable storage
+ * (e.g. `localStorage` in the browser), so the core stays free of window
+ * globals. Load a preset with `sun.applyOptions(preset.createOptions())`.
+ */
+
+import { ThreeSunOptions } from '../three-sun.service';
+import { ThreeSunConfig } from '../three-sun.config';
+import {
+  deserializeSunOptions,
+  serializeSunOptions,
+  SunOptionsData,
+} from './sun-options-serializer';
+
+export interface SunPreset {
+  id: string;
+  name: string;
+  /** Built-in presets can't be renamed, overwritten or deleted */
+  builtIn: boolean;
+  /** Creates a fresh copy of the preset options */
+  createOptions(): ThreeSunOptions;
+}
+
+/**
+ * Key-value storage for user presets; `localStorage` fits this interface.
+ */
+export interface SunPresetStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * Storage that only lives as long as the library, e.g. for tests and tools.
+ */
+export class MemorySunPresetStorage implements SunPresetStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+/** A user preset as it is stored */
+interface SunPresetData {
+  id: string;
+  name: string;
+  options: SunOptionsData;
+}
+
+/**
+ * Creates options of a built-in archetype. Colors are set on the shared
+ * config colors, so surface and corona layers keep matching.
+ */
+function createArchetype(
+  modify: (options: ThreeSunOptions, config: ThreeSunConfig) => void
+): () => ThreeSunOptions {
+  return () => {
+    const config = new ThreeSunConfig();
+    modify(config.options, config);
+    return config.options;
+  };
+}
+
+/**
+ * Built-in star archetypes. The G-type sun is the default configuration.
+ */
+export const SUN_BUILT_IN_PRESETS: SunPreset[] = [
+  {
+    id: 'g-type-sun',
+    name: 'G-type sun',
+    builtIn: true,
+    createOptions: createArchetype(() => {}),
+  },
+  {
+    id: 'red-dwarf',
+    name: 'Red dwarf',
+    builtIn: true,
+    // Cool, dim and heavily spotted; frequent small flares
+    createOptions: createArchetype((options, config) => {
+      config.baseColor.set('#ffb070');
+      config.hotColor.set('#ff6a1e');
+      config.deepColor.set('#3a0508');
+      config.emissiveColor.set('#ff7040');
+      options.temperature.temperature = 3200;
+      options.shader.brightness = 1;
+      options.shader.granulationStrength = 0.2;
+      options.shader.granulationScale = 28;
+      options.sunspots.count = 8;
+      options.sunspots.darkness = 0.9;
+      options.sunspots.max.size = 7;
+      options.sunspots.max.latitude = 70;
+      options.solarEruptions.min.interval = 300;
+      options.solarEruptions.max.interval = 1500;
+      options.solarEruptions.flareOptions.max.size = 4;
+      options.prominences.baseColor.set('#ff3a1a');
+      options.prominences.hotColor.set('#ff9a4a');
+      options.coronalMassEjections.color.set('#ff8a5a');
+      options.lensFlare.elements[0].color.set('#ffc8a0');
+      options.light.color.set('#ffb27a');
+      options.light.intensity = 10;
+    }),
+  },
+  {
+    id: 'blue-giant',
+    name: 'Blue giant',
+    builtIn: true,
+    // Hot and bright with fine granulation; no spots, rare eruptions
+    createOptions: createArchetype((options, config) => {
+      config.baseColor.set('#e4ecff');
+      config.hotColor.set('#9cc2ff');
+      config.deepColor.set('#142a6e');
+      config.emissiveColor.set('#bcd4ff');
+      options.temperature.temperature = 20000;
+      options.temperature.spread = 0.1;
+      options.shader.brightness = 1.5;
+      options.shader.contrastPower = 2;
+      options.shader.granulationStrength = 0.08;
+      options.shader.granulationScale = 70;
+      options.sunspots.active = false;
+      options.solarEruptions.min.count = 2;
+      options.solarEruptions.max.count = 5;
+      options.solarEruptions.min.interval = 1500;
+      options.solarEruptions.max.interval = 4000;
+      options.prominences.spawnRate = 0.15;
+      options.prominences.baseColor.set('#6f8cff');
+      options.prominences.hotColor.set('#d8e4ff');
+      options.coronalMassEjections.probability = 0.01;
+      options.coronalMassEjections.color.set('#a8c4ff');
+      options.coronas.forEach((corona) => (corona.scale *= 1.2));
+      options.lensFlare.elements[0].color.set('#dfe8ff');
+      options.light.color.set('#cadaff');
+      options.light.intensity = 40;
+    }),
+  },
+  {
+    id: 'active-sun',
+    name: 'Active sun',
+    builtIn: true,
+    // Solar maximum: many spots, eruptions, prominences and CMEs
+    createOptions: createArchetype((options) => {
+      options.shader.emissiveStrength = 1;
+      options.shader.granulationStrength = 0.2;
+      options.sunspots.count = 10;
+      options.sunspots.spotsPerGroup = 4;
+      options.solarEruptions.min.count = 8;
+      options.solarEruptions.max.count = 16;
+      options.solarEruptions.min.interval = 250;
+      options.solarEruptions.max.interval = 1200;
+      options.prominences.spawnRate = 1.2;
+      options.prominences.eruptionChance = 0.5;
+      options.coronalMassEjections.probability = 0.1;
+    }),
+  },
+  {
+    id: 'quiet-sun',
+    name: 'Quiet sun',
+    builtIn: true,
+    // Solar minimum: a single small spot group and rare eruptions
+    createOptions: createArchetype((options) => {
+      options.sunspots.count = 1;
+      options.sunspots.spotsPerGroup = 1;
+      options.solarEruptions.min.count = 1;
+      options.solarEruptions.max.count = 3;
+      options.solarEruptions.min.interval = 2000;
+      options.solarEruptions.max.interval = 6000;
+      options.prominences.spawnRate = 0.1;
+      options.prominences.eruptionChance = 0.05;
+      options.coronalMassEjections.active = false;
+    }),
+  },
+];
+
+export class SunPresetLibrary {
+  /**
+   * @param storage Keeps the user presets, e.g. `localStorage`.
+   * @param storageKey Key of the user presets in the storage.
+   */
+  constructor(
+    private storage: SunPresetStorage = new MemorySunPresetStorage(),
+    private storageKey = 'three-sun-presets'
+  ) {}
+
+  /**
+   * Built-in presets followed by the user presets.
+   */
+  getPresets(): SunPreset[] {
+    return [
+      ...SUN_BUILT_IN_PRESETS,
+      ...this.readPresets().map((data) => this.createPreset(data)),
+    ];
+  }
+
+  getPreset(id: string): SunPreset | undefined {
+    return this.getPresets().find((preset) => preset.id === id);
+  }
+
+  /**
+   * Saves options as user preset. Overwrites the user preset with the given
+   * id, otherwise adds a new one.
+   * @returns The saved preset.
+   */
+  savePreset(name: string, options: ThreeSunOptions, id?: string): SunPreset {
+    const presets = this.readPresets();
+    let data = presets.find((preset) => preset.id === id);
+    if (!data) {
+      data = { id: this.createId(presets), name, options: {} };
+      presets.push(data);
+    }
+    data.name = name;
+    data.options = serializeSunOptions(options);
+    this.writePresets(presets);
+    return this.createPreset(data);
+  }
+
+  /**
+   * Renames a user preset.
+   * @returns False if there is no user preset with the id.
+   */
+  renamePreset(id: string, name: string): boolean {
+    const presets = this.readPresets();
+    const data = presets.find((preset) => preset.id === id);
+    if (!data) return false;
+    data.name = name;
+    this.writePresets(presets);
+    return true;
+  }
+
+  /**
+   * Deletes a user preset.
+   * @returns False if there is no user preset with the id.
+   */
+  deletePreset(id: string): boolean {
+    const presets = this.readPresets();
+    const remaining = presets.filter((preset) => preset.id !== id);
+    if (remaining.length === presets.length) return false;
+    this.writePresets(remaining);
+    return true;
+  }
+
+  private createPreset(data: SunPresetData): SunPreset {
+    return {
+      id: data.id,
+      name: data.name,
+      builtIn: false,
+      createOptions: () => deserializeSunOptions(data.options),
+    };
+  }
+
+  private createId(presets: SunPresetData[]): string {
+    let index = presets.length + 1;
+    while (presets.some((preset) => preset.id === `user-${index}`)) index++;
+    return `user-${index}`;
+  }
+
+  /**
+   * Reads the user presets; unreadable storage counts as empty.
+   */
+  private readPresets(): SunPresetData[] {
+    try {
+      const presets = JSON.parse(this.storage.getItem(this.storageKey) ?? '[]');
+      return Array.isArray(presets) ? presets : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writePresets(presets: SunPresetData[]): void {
+    this.storage.setItem(this.storageKey, JSON.stringify(presets));
+  }
+}
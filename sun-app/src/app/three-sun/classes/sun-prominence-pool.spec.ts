@@ -0,0 +1,38 @@
+import { ShaderMaterial } from 'three';
+import { SunProminencePool } from './sun-prominence-pool';
+
+describe('SunProminencePool', () => {
+  let pool: SunProminencePool;
+
+  beforeEach(() => {
+    pool = new SunProminencePool(2, new ShaderMaterial());
+  });
+
+  afterEach(() => {
+    pool.dispose();
+  });
+
+  it('should not allocate beyond its capacity', () => {
+    expect(pool.allocate(2).length).toBe(2);
+    expect(pool.allocate(1)).toEqual([]);
+  });
+
+  it('should hide released slots', () => {
+    const [slot] = pool.allocate(1);
+    pool.setInstance(slot, {
+      halfSeparation: 0.5,
+      height: 1,
+      thickness: 0.05,
+      sag: 0.06,
+      growth: 1,
+      eruption: 0,
+      opacity: 1,
+      seed: 0.5,
+    });
+    pool.release([slot]);
+
+    const shape = pool.geometry.getAttribute('prominenceShape');
+    expect(shape.getZ(slot)).toBe(0);
+    expect(pool.mesh.count).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Sun Prominence Pool
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Fixed-size pool of magnetic loop prominences rendered as one instanced mesh.
+ * Each instance is a unit tube bent into an arch in the vertex shader,
+ * so all prominences of a sun render in a single draw call.
+ */
+
+import {
+  CylinderGeometry,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  ShaderMaterial,
+} from 'three';
+import { InstancedPool } from './instanced-pool';
+
+/**
+ * Per-instance values of one prominence.
+ * The arch spans local X between both footpoints and rises along local +Z.
+ */
+export interface SunProminenceInstance {
+  /** Half the distance between both footpoints in world units */
+  halfSeparation: number;
+  /** Arch height above the surface in world units */
+  height: number;
+  /** Tube radius in world units (0 hides the slot) */
+  thickness: number;
+  /** How far the footpoints sink below the local tangent plane to touch the sphere */
+  sag: number;
+  /** Growth of the arch [0..1] */
+  growth: number;
+  /** Progress of the outward eruption after snapping [0..1] */
+  eruption: number;
+  /** Lifetime fade multiplied into the shader opacity */
+  opacity: number;
+  /** Random offset for the plasma flow pattern */
+  seed: number;
+}
+
+export class SunProminencePool extends InstancedPool<CylinderGeometry> {
+  readonly mesh: InstancedMesh;
+
+  private readonly shapes: InstancedBufferAttribute;
+  private readonly states: InstancedBufferAttribute;
+
+  /**
+   * @param capacity Maximum number of prominences alive at the same time.
+   * @param material Shared prominence material.
+   */
+  constructor(capacity: number, material: ShaderMaterial) {
+    // Open unit tube: y runs along the arch, xz around it
+    super(capacity, new CylinderGeometry(1, 1, 1, 12, 64, true));
+
+    this.shapes = this.createAttribute('prominenceShape', 4);
+    this.states = this.createAttribute('prominenceState', 4);
+
+    this.mesh = this.createMesh(material);
+  }
+
+  protected resetSlot(slot: number): void {
+    this.setInstance(slot, {
+      halfSeparation: 0,
+      height: 0,
+      thickness: 0,
+      sag: 0,
+      growth: 0,
+      eruption: 0,
+      opacity: 0,
+      seed: 0,
+    });
+  }
+
+  /**
+   * Writes the per-instance shader attributes of a slot.
+   */
+  setInstance(slot: number, instance: SunProminenceInstance): void {
+    this.shapes.setXYZW(
+      slot,
+      instance.halfSeparation,
+      instance.height,
+      instance.thickness,
+      instance.sag
+    );
+    this.states.setXYZW(
+      slot,
+      instance.growth,
+      instance.eruption,
+      instance.opacity,
+      instance.seed
+    );
+    this.shapes.needsUpdate = true;
+    this.states.needsUpdate = true;
+  }
+}
@@ -0,0 +1,64 @@
+import { PerspectiveCamera, Scene } from 'three';
+import { SunProminence } from './sun-prominence';
+import { ThreeSunService } from '../three-sun.service';
+
+describe('SunProminence', () => {
+  let sun: ThreeSunService;
+  const shape = { height: 1, separation: 0.8, thickness: 0.05, lifetime: 10 };
+
+  beforeEach(() => {
+    sun = new ThreeSunService();
+    sun.initSun(new Scene(), new PerspectiveCamera());
+    [...sun.prominences].forEach((prominence) => prominence.destroy());
+  });
+
+  afterEach(() => {
+    sun.destroy();
+  });
+
+  it('should anchor both footpoints on the surface', () => {
+    const prominence = new SunProminence(sun, shape);
+    prominence.spawnProminence();
+
+    const radius = sun.sunGeometry.parameters.radius;
+    const attribute = sun.prominencePool.geometry.getAttribute('prominenceShape');
+    const slot = prominence.slots[0];
+    const halfSeparation = attribute.getX(slot);
+    const sag = attribute.getW(slot);
+
+    expect(prominence.spawnLocation.length()).toBeCloseTo(radius, 5);
+    expect(Math.hypot(radius - sag, halfSeparation)).toBeCloseTo(radius, 5);
+  });
+
+  it('should grow, hang and fade within its lifetime', () => {
+    const prominence = new SunProminence(sun, shape);
+    expect(prominence.spawnProminence()).toBeTrue();
+
+    const state = sun.prominencePool.geometry.getAttribute('prominenceState');
+    const slot = prominence.slots[0];
+
+    prominence.animate(5);
+    expect(state.getX(slot)).toBe(1); // fully grown
+    expect(state.getY(slot)).toBe(0); // not erupting
+    expect(state.getZ(slot)).toBe(1); // fully visible
+
+    prominence.animate(5);
+    expect(sun.prominences).not.toContain(prominence);
+    expect(sun.prominencePool.activeCount).toBe(0);
+  });
+
+  it('should snap and erupt outward when erupting', () => {
+    const prominence = new SunProminence(sun, shape, true);
+    prominence.spawnProminence();
+
+    const state = sun.prominencePool.geometry.getAttribute('prominenceState');
+    const slot = prominence.slots[0];
+
+    prominence.animate(6);
+    expect(state.getY(slot)).toBe(0);
+
+    prominence.animate(2);
+    expect(state.getY(slot)).toBeGreaterThan(0);
+    expect(state.getZ(slot)).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Represents a magnetic loop prominence: a glowing arched tube between two nearby
+ * surface footpoints. It grows, hangs for a while and then either fades
+ * or snaps and erupts outward.
+ * The tube is a slot of the sun's SunProminencePool, so prominences allocate
+ * no GPU resources of their own.
+ *
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ */
+
+import { MathUtils, Matrix4, Quaternion, Vector3 } from 'three';
+import { ThreeSunService } from '../three-sun.service';
+import { SunProminenceShapeOptions } from '../services/sun-prominence.service';
+import { SunProminenceInstance } from './sun-prominence-pool';
+
+/** Share of the lifetime spent growing */
+const GROWTH_END = 0.25;
+
+/** Point of the lifetime at which erupting prominences snap */
+const SNAP_START = 0.65;
+
+/** Point of the lifetime at which non-erupting prominences start to fade */
+const FADE_START = 0.8;
+
+export class SunProminence {
+  /** Midpoint between both footpoints on the surface (local to the sun root) */
+  spawnLocation = new Vector3();
+
+  /** Elapsed lifetime in seconds */
+  age = 0;
+
+  /** Pool slots used by the tube */
+  slots: number[] = [];
+
+  private instance: SunProminenceInstance;
+
+  /** Internal state tracking for cleanup */
+  private destroyed = false;
+
+  /**
+   * @param sun Reference to the global sun service.
+   * @param options Height, footpoint separation, thickness and lifetime of this prominence.
+   * @param erupts Whether the loop snaps and erupts outward instead of fading.
+   */
+  constructor(
+    private sun: ThreeSunService,
+    public options: SunProminenceShapeOptions,
+    public erupts = false
+  ) {
+    this.spawnLocation = sun.randomPointOnSurface();
+
+    // Footpoints sink below the tangent plane until they touch the sphere
+    const radius = sun.sunGeometry.parameters.radius;
+    const halfSeparation = Math.min(options.separation / 2, radius);
+    this.instance = {
+      halfSeparation,
+      height: options.height,
+      thickness: options.thickness,
+      sag: radius - Math.sqrt(radius * radius - halfSeparation * halfSeparation),
+      growth: 0,
+      eruption: 0,
+      opacity: 0,
+      seed: sun.random.next(),
+    };
+  }
+
+  /**
+   * Reserves a pool slot and spans the arch across the surface at the spawn location.
+   * @returns false when the prominence pool is exhausted and the prominence was dropped.
+   */
+  spawnProminence(): boolean {
+    const pool = this.sun.prominencePool;
+    this.slots = pool.allocate(1);
+    if (this.slots.length === 0) {
+      return false;
+    }
+
+    // Local frame: +X towards a footpoint, +Z along the surface normal
+    const normal = this.spawnLocation.clone().normalize();
+    const span = this.sun.randomPerpendicular(normal);
+    const quaternion = new Quaternion().setFromRotationMatrix(
+      new Matrix4().makeBasis(
+        span,
+        new Vector3().crossVectors(normal, span),
+        normal
+      )
+    );
+
+    pool.setTransform(this.slots[0], this.spawnLocation, quaternion);
+    pool.setInstance(this.slots[0], this.instance);
+
+    this.sun.prominences.push(this);
+    return true;
+  }
+
+  /**
+   * Advances the lifecycle (grow, hang, fade or snap and erupt)
+   * and destroys the prominence when its lifetime ends.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  animate(deltaTime: number): void {
+    if (this.destroyed) return;
+
+    this.age += deltaTime;
+
+    const normalizedAge = Math.min(this.age / this.options.lifetime, 1);
+    const fadeIn = Math.min(normalizedAge / 0.1, 1);
+
+    this.instance.growth = MathUtils.smoothstep(normalizedAge, 0, GROWTH_END);
+
+    if (this.erupts) {
+      const eruption = Math.max(
+        (normalizedAge - SNAP_START) / (1 - SNAP_START),
+        0
+      );
+      this.instance.eruption = eruption;
+      this.instance.opacity = fadeIn * (1 - eruption * eruption);
+    } else {
+      this.instance.opacity =
+        fadeIn * (1 - MathUtils.smoothstep(normalizedAge, FADE_START, 1));
+    }
+
+    this.slots.forEach((slot) =>
+      this.sun.prominencePool.setInstance(slot, this.instance)
+    );
+
+    if (this.age >= this.options.lifetime) {
+      this.destroy();
+    }
+  }
+
+  /**
+   * Returns the tube to the pool and removes the prominence from the update list.
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+
+    const index = this.sun.prominences.indexOf(this);
+    if (index !== -1) {
+      this.sun.prominences.splice(index, 1);
+    }
+
+    this.sun.prominencePool.release(this.slots);
+    this.slots = [];
+
+    this.destroyed = true;
+  }
+}
+
@@ -0,0 +1,36 @@
+import { createSunRandom, MathSunRandom, SeededSunRandom } from './sun-random';
+
+describe('SeededSunRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = new SeededSunRandom(42);
+    const b = new SeededSunRandom(42);
+
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next());
+    }
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = new SeededSunRandom(1);
+    const b = new SeededSunRandom(2);
+
+    expect([a.next(), a.next()]).not.toEqual([b.next(), b.next()]);
+  });
+
+  it('should stay within [0, 1)', () => {
+    const random = new SeededSunRandom(7);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('createSunRandom', () => {
+  it('should only seed when a seed is given', () => {
+    expect(createSunRandom()).toEqual(jasmine.any(MathSunRandom));
+    expect(createSunRandom(0)).toEqual(jasmine.any(SeededSunRandom));
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Sun Random
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Pluggable pseudo random number generators for the sun system.
+ * A seeded generator makes eruptions and flare placement reproducible,
+ * e.g. for marketing renders and visual regression tests.
+ */
+
+/**
+ * Source of uniformly distributed random numbers in [0, 1).
+ */
+export interface SunRandom {
+  next(): number;
+}
+
+/**
+ * Factory used by the sun to create its generator from `ThreeSunOptions.seed`.
+ */
+export type SunRandomFactory = (seed?: number) => SunRandom;
+
+/**
+ * Non-deterministic generator backed by `Math.random`.
+ */
+export class MathSunRandom implements SunRandom {
+  next(): number {
+    return Math.random();
+  }
+}
+
+/**
+ * Small, fast deterministic generator (Mulberry32).
+ * The same seed always yields the same sequence.
+ */
+export class SeededSunRandom implements SunRandom {
+  private state: number;
+
+  constructor(public readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+/**
+ * Default factory: seeded when a seed is given, `Math.random` otherwise.
+ */
+export const createSunRandom: SunRandomFactory = (seed?: number) =>
+  seed === undefined ? new MathSunRandom() : new SeededSunRandom(seed);
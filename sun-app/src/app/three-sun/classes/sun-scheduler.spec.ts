@@ -0,0 +1,29 @@
+import { FrameSunScheduler } from './sun-scheduler';
+
+describe('FrameSunScheduler', () => {
+  it('should run timers once enough frame time has passed', () => {
+    const scheduler = new FrameSunScheduler();
+    const callback = jasmine.createSpy('callback');
+
+    scheduler.setTimeout(callback, 500);
+    scheduler.update(0.25);
+    expect(callback).not.toHaveBeenCalled();
+
+    scheduler.update(0.25);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    scheduler.update(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not run cleared timers', () => {
+    const scheduler = new FrameSunScheduler();
+    const callback = jasmine.createSpy('callback');
+
+    const id = scheduler.setTimeout(callback, 100);
+    scheduler.clearTimeout(id);
+    scheduler.update(1);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
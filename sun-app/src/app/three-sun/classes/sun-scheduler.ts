@@ -0,0 +1,105 @@
+/**
+ * Sun Scheduler
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Injectable timing abstraction used by the sun system for delayed work such as
+ * the solar eruption loop. Keeps the core free of DOM and window globals so it
+ * can run in any framework, a worker or a Node tool.
+ */
+
+/**
+ * Schedules delayed callbacks for the sun system.
+ * Delays are given in milliseconds.
+ */
+export interface SunScheduler {
+  /**
+   * Schedules a callback and returns a handle that can be passed to `clearTimeout`.
+   */
+  setTimeout(callback: () => void, delay: number): number;
+
+  /**
+   * Cancels a previously scheduled callback.
+   */
+  clearTimeout(id: number): void;
+
+  /**
+   * Optional hook called by the sun on every animation frame.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  update?(deltaTime: number): void;
+}
+
+/**
+ * Scheduler driven by the sun's simulation clock.
+ * Time only advances when `update` is called, so timers pause, speed up and step
+ * together with the simulation (and with the render loop in a hidden browser tab),
+ * and runs are reproducible.
+ */
+export class FrameSunScheduler implements SunScheduler {
+  /** Accumulated simulation time (in milliseconds) */
+  time = 0;
+
+  private nextId = 1;
+  private timers = new Map<number, { dueTime: number; callback: () => void }>();
+
+  setTimeout(callback: () => void, delay: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { dueTime: this.time + Math.max(delay, 0), callback });
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    this.timers.delete(id);
+  }
+
+  /**
+   * Advances the scheduler and runs every timer that became due.
+   * Timers scheduled from within a callback run on a later update at the earliest.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  update(deltaTime: number): void {
+    this.time += deltaTime * 1000;
+
+    const due = [...this.timers.entries()]
+      .filter(([, timer]) => timer.dueTime <= this.time)
+      .sort((a, b) => a[1].dueTime - b[1].dueTime);
+
+    for (const [id, timer] of due) {
+      this.timers.delete(id);
+      timer.callback();
+    }
+  }
+}
+
+/**
+ * Scheduler backed by the host's wall-clock `setTimeout`.
+ * Works in browsers and Node, but runs independently of the render loop
+ * and ignores the simulation clock (pause, time scale, stepping).
+ */
+export class TimeoutSunScheduler implements SunScheduler {
+  private nextId = 1;
+  private handles = new Map<number, ReturnType<typeof setTimeout>>();
+
+  setTimeout(callback: () => void, delay: number): number {
+    const id = this.nextId++;
+    this.handles.set(
+      id,
+      globalThis.setTimeout(() => {
+        this.handles.delete(id);
+        callback();
+      }, delay)
+    );
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    const handle = this.handles.get(id);
+    if (handle !== undefined) {
+      globalThis.clearTimeout(handle);
+      this.handles.delete(id);
+    }
+  }
+}
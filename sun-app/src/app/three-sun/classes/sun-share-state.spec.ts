@@ -0,0 +1,73 @@
+import { Color } from 'three';
+import { ThreeSunConfig } from '../three-sun.config';
+import { serializeSunOptions } from './sun-options-serializer';
+import { SUN_OPTIONS_VERSION } from './sun-options-schema';
+import {
+  decodeSunShareState,
+  diffSunOptionsData,
+  encodeSunShareState,
+  getSunShareData,
+} from './sun-share-state';
+
+describe('SunShareState', () => {
+  it('should only keep values that differ from the defaults', () => {
+    const options = new ThreeSunConfig().options;
+    expect(getSunShareData(options)).toEqual({ version: SUN_OPTIONS_VERSION });
+
+    options.shader.brightness = 2;
+    options.shader.baseColor = new Color('#ff0000');
+    expect(getSunShareData(options)).toEqual({
+      version: SUN_OPTIONS_VERSION,
+      shader: { brightness: 2, baseColor: '#ff0000' },
+    });
+  });
+
+  it('should keep changed arrays whole', () => {
+    const options = new ThreeSunConfig().options;
+    options.coronas.pop();
+    const data = serializeSunOptions(options);
+
+    expect(
+      diffSunOptionsData(
+        data,
+        serializeSunOptions(new ThreeSunConfig().options)
+      )
+    ).toEqual({ coronas: data['coronas'] });
+  });
+
+  it('should survive an encode/decode round trip', async () => {
+    const options = new ThreeSunConfig().options;
+    options.seed = 7;
+    options.coronas.pop();
+    options.coronas[0].size = 3;
+    options.light.color.set('#00ff00');
+
+    const state = await encodeSunShareState(options);
+    expect(state).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    const { options: decoded, errors } = await decodeSunShareState(state);
+    expect(errors).toEqual([]);
+    expect(serializeSunOptions(decoded!)).toEqual(serializeSunOptions(options));
+  });
+
+  it('should be much shorter than the full options', async () => {
+    const options = new ThreeSunConfig().options;
+    options.shader.brightness = 2;
+    const state = await encodeSunShareState(options);
+    expect(state.length).toBeLessThan(100);
+  });
+
+  it('should report unreadable and invalid states', async () => {
+    const garbage = await decodeSunShareState('not*a*state');
+    expect(garbage.options).toBeUndefined();
+    expect(garbage.errors[0].message).toBe('is not readable');
+
+    const options = new ThreeSunConfig().options;
+    options.sunspots.count = -4;
+    const invalid = await decodeSunShareState(
+      await encodeSunShareState(options)
+    );
+    expect(invalid.options).toBeUndefined();
+    expect(invalid.errors[0].path).toBe('sunspots.count');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Sun Share State
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Encodes ThreeSunOptions into one compact, URL-safe string for share
+ * links. Only the differences from the defaults of ThreeSunConfig are
+ * stored, together with the options version, deflated and base64url
+ * encoded. Decoding migrates and validates like `parseSunOptions`.
+ */
+
+import { ThreeSunOptions } from '../three-sun.service';
+import { ThreeSunConfig } from '../three-sun.config';
+import {
+  parseSunOptions,
+  serializeSunOptions,
+  SunOptionsData,
+  SunOptionsParseResult,
+} from './sun-options-serializer';
+
+/**
+ * Query parameter holding the encoded state.
+ */
+export const SUN_SHARE_STATE_PARAM = 'sun';
+
+/**
+ * Returns the values of `data` that differ from `defaults`. Arrays are
+ * kept whole when they differ, so their length survives.
+ */
+export function diffSunOptionsData(
+  data: SunOptionsData,
+  defaults: SunOptionsData
+): SunOptionsData {
+  const diff: SunOptionsData = {};
+  for (const [key, value] of Object.entries(data)) {
+    const defaultValue = defaults[key];
+    if (isPlainObject(value) && isPlainObject(defaultValue)) {
+      const nested = diffSunOptionsData(value, defaultValue);
+      if (Object.keys(nested).length) diff[key] = nested;
+    } else if (JSON.stringify(value) !== JSON.stringify(defaultValue)) {
+      diff[key] = value;
+    }
+  }
+  return diff;
+}
+
+/**
+ * Serialized options reduced to their differences from the defaults.
+ * Always contains the options version.
+ */
+export function getSunShareData(options: ThreeSunOptions): SunOptionsData {
+  const data = serializeSunOptions(options);
+  const defaults = serializeSunOptions(new ThreeSunConfig().options);
+  return { version: data['version'], ...diffSunOptionsData(data, defaults) };
+}
+
+/**
+ * Encodes options as a URL-safe share state.
+ */
+export async function encodeSunShareState(
+  options: ThreeSunOptions
+): Promise<string> {
+  const json = JSON.stringify(getSunShareData(options));
+  const bytes = await transform(
+    new TextEncoder().encode(json),
+    new CompressionStream('deflate-raw')
+  );
+  return toBase64Url(bytes);
+}
+
+/**
+ * Decodes a share state created by `encodeSunShareState`. States of older
+ * versions are migrated; invalid states only return errors.
+ */
+export async function decodeSunShareState(
+  state: string
+): Promise<SunOptionsParseResult> {
+  let data: unknown;
+  try {
+    const bytes = await transform(
+      fromBase64Url(state),
+      new DecompressionStream('deflate-raw')
+    );
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return {
+      errors: [{ path: SUN_SHARE_STATE_PARAM, message: 'is not readable' }],
+    };
+  }
+  return parseSunOptions(data);
+}
+
+function isPlainObject(value: unknown): value is SunOptionsData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function transform(
+  bytes: Uint8Array,
+  stream: GenericTransformStream
+): Promise<Uint8Array> {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(state: string): Uint8Array {
+  const binary = atob(state.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,35 @@
+import { SunSimulationClock } from './sun-simulation-clock';
+
+describe('SunSimulationClock', () => {
+  let clock: SunSimulationClock;
+
+  beforeEach(() => {
+    clock = new SunSimulationClock();
+  });
+
+  it('should scale real frame time', () => {
+    clock.timeScale = 4;
+
+    expect(clock.tick(0.5)).toBe(2);
+    expect(clock.elapsed).toBe(2);
+  });
+
+  it('should not advance while paused', () => {
+    clock.pause();
+
+    expect(clock.tick(1)).toBe(0);
+    expect(clock.elapsed).toBe(0);
+
+    clock.resume();
+    expect(clock.tick(1)).toBe(1);
+  });
+
+  it('should advance by fixed steps while paused', () => {
+    clock.pause();
+    clock.step(2);
+
+    expect(clock.tick(1)).toBe(clock.stepSize);
+    expect(clock.tick(1)).toBe(clock.stepSize);
+    expect(clock.tick(1)).toBe(0);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Sun Simulation Clock
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Converts real frame time into simulation time for the sun system.
+ * Drives surface shader time, corona time, flare ages and eruption scheduling,
+ * and supports pause/resume, time scaling (time-lapse) and single-frame stepping.
+ */
+
+export class SunSimulationClock {
+  /** Freezes the simulation while true (single steps still advance it) */
+  paused = false;
+
+  /** Multiplier applied to real frame time (e.g. 10 for a time-lapse) */
+  timeScale = 1;
+
+  /** Simulation time advanced by one `step()` (in seconds) */
+  stepSize = 1 / 60;
+
+  /** Total simulation time (in seconds) */
+  elapsed = 0;
+
+  /** Simulation delta of the last tick (in seconds) */
+  deltaTime = 0;
+
+  private pendingSteps = 0;
+
+  /**
+   * Advances the clock by one rendered frame.
+   * @param realDeltaTime Real frame delta time (in seconds).
+   * @returns The simulation delta time for this frame (in seconds).
+   */
+  tick(realDeltaTime: number): number {
+    if (this.pendingSteps > 0) {
+      this.pendingSteps--;
+      this.deltaTime = this.stepSize;
+    } else if (this.paused) {
+      this.deltaTime = 0;
+    } else {
+      this.deltaTime = realDeltaTime * this.timeScale;
+    }
+
+    this.elapsed += this.deltaTime;
+    return this.deltaTime;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  togglePause(): void {
+    this.paused = !this.paused;
+  }
+
+  /**
+   * Advances the simulation by `frames` fixed steps on the next ticks.
+   * Meant for frame-by-frame inspection while paused.
+   */
+  step(frames = 1): void {
+    this.pendingSteps += frames;
+  }
+}
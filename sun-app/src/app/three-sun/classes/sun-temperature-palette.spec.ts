@@ -0,0 +1,52 @@
+import { Color } from 'three';
+import { getBlackbodyColor } from './sun-blackbody';
+import {
+  SunTemperatureOptions,
+  SunTemperaturePalette,
+} from './sun-temperature-palette';
+
+describe('SunTemperaturePalette', () => {
+  let options: SunTemperatureOptions;
+  let palette: SunTemperaturePalette;
+
+  beforeEach(() => {
+    options = { active: true, temperature: 5772, spread: 0.15 };
+    palette = new SunTemperaturePalette();
+    palette.update(options);
+  });
+
+  it('should derive base and light color from the temperature', () => {
+    const expected = getBlackbodyColor(5772);
+    expect(palette.baseColor.equals(expected)).toBeTrue();
+    expect(palette.lightColor.equals(expected)).toBeTrue();
+  });
+
+  it('should spread hot, emissive and deep colors around the temperature', () => {
+    expect(palette.hotColor.equals(getBlackbodyColor(5772 * 1.15))).toBeTrue();
+    expect(
+      palette.emissiveColor.equals(getBlackbodyColor(5772 * 0.85))
+    ).toBeTrue();
+    expect(palette.deepColor.getHSL({ h: 0, s: 0, l: 0 }).l).toBeLessThan(
+      palette.baseColor.getHSL({ h: 0, s: 0, l: 0 }).l
+    );
+
+    options.spread = 0;
+    palette.update(options);
+    expect(palette.hotColor.equals(palette.baseColor)).toBeTrue();
+  });
+
+  it('should follow temperature changes', () => {
+    const warm = palette.baseColor.clone();
+    options.temperature = 3000;
+    palette.update(options);
+    expect(palette.baseColor.equals(warm)).toBeFalse();
+    expect(palette.baseColor.b).toBeLessThan(warm.b);
+  });
+
+  it('should cycle corona glow colors like the default layers', () => {
+    expect(palette.getCoronaGlowColor(0)).toBe(palette.emissiveColor);
+    expect(palette.getCoronaGlowColor(3)).toBe(palette.deepColor);
+    expect(palette.getCoronaGlowColor(5)).toBe(palette.baseColor);
+    expect(palette.getCoronaGlowColor(-1)).toBeInstanceOf(Color);
+  });
+});
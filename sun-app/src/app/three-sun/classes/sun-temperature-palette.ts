@@ -0,0 +1,86 @@
+/**
+ * Sun Temperature Palette
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Derives all sun colors (surface, corona glow and light) from a single
+ * temperature using the blackbody approximation. Used instead of the manual
+ * colors while `options.temperature.active` is set; the manual colors stay
+ * untouched, so switching back restores them.
+ */
+
+import { Color } from 'three';
+import { getBlackbodyColor } from './sun-blackbody';
+
+export interface SunTemperatureOptions {
+  /** Derive all colors from `temperature` instead of the manual colors */
+  active: boolean;
+  /** Effective surface temperature (in Kelvin); the sun has about 5772 K */
+  temperature: number;
+  /**
+   * Activity spread: temperature difference of hot and cool regions
+   * relative to `temperature`, e.g. 0.15 for ±15 %
+   */
+  spread: number;
+}
+
+/**
+ * Colors of the sun surface shader (and the flares sharing them).
+ */
+export interface SunSurfaceColors {
+  baseColor: Color;
+  hotColor: Color;
+  deepColor: Color;
+  emissiveColor: Color;
+}
+
+/** Brightness of the deep color relative to its blackbody color */
+const DEEP_COLOR_BRIGHTNESS = 0.3;
+
+export class SunTemperaturePalette implements SunSurfaceColors {
+  /** Photosphere at the effective temperature */
+  baseColor = new Color();
+  /** Hot regions, `spread` above the effective temperature */
+  hotColor = new Color();
+  /** Cool, dark regions, twice the `spread` below */
+  deepColor = new Color();
+  /** Warm glow, `spread` below */
+  emissiveColor = new Color();
+  lightColor = new Color();
+
+  private key = '';
+
+  /**
+   * Recomputes the colors when temperature or spread changed.
+   */
+  update(options: SunTemperatureOptions): void {
+    const { temperature, spread } = options;
+    const key = [temperature, spread].join();
+    if (key === this.key) return;
+    this.key = key;
+
+    getBlackbodyColor(temperature, this.baseColor);
+    getBlackbodyColor(temperature * (1 + spread), this.hotColor);
+    getBlackbodyColor(temperature * (1 - 2 * spread), this.deepColor);
+    this.deepColor.multiplyScalar(DEEP_COLOR_BRIGHTNESS);
+    getBlackbodyColor(temperature * (1 - spread), this.emissiveColor);
+    getBlackbodyColor(temperature, this.lightColor);
+  }
+
+  /**
+   * Glow color of a corona layer. Layers cycle through emissive, base, hot
+   * and deep color, the order of the default corona layers.
+   * @param index Index of the layer in `options.coronas`.
+   */
+  getCoronaGlowColor(index: number): Color {
+    const colors = [
+      this.emissiveColor,
+      this.baseColor,
+      this.hotColor,
+      this.deepColor,
+    ];
+    return colors[Math.max(index, 0) % colors.length];
+  }
+}
@@ -0,0 +1,178 @@
+import { Color, PerspectiveCamera } from 'three';
+import { ThreeSunConfig } from '../three-sun.config';
+import { ThreeSunOptions } from '../three-sun.service';
+import {
+  getSunTimelineValue,
+  parseSunTimeline,
+  serializeSunTimeline,
+  SUN_TIMELINE_EASINGS,
+  SunTimeline,
+} from './sun-timeline';
+
+describe('SunTimeline', () => {
+  let options: ThreeSunOptions;
+  let timeline: SunTimeline;
+
+  beforeEach(() => {
+    options = new ThreeSunConfig().options;
+    timeline = new SunTimeline();
+    timeline.setKeyframe('options', 'shader.brightness', 0, 1);
+    timeline.setKeyframe('options', 'shader.brightness', 10, 3);
+  });
+
+  it('should interpolate keyframes along their easing', () => {
+    const track = timeline.tracks[0];
+    expect(timeline.getValue(track, 5)).toBeCloseTo(2);
+    expect(timeline.getValue(track, -1)).toBe(1);
+    expect(timeline.getValue(track, 20)).toBe(3);
+
+    track.keyframes[0].easing = 'easeIn';
+    expect(timeline.getValue(track, 5)).toBeCloseTo(1.25);
+    track.keyframes[0].easing = 'step';
+    expect(timeline.getValue(track, 9.9)).toBe(1);
+
+    for (const easing of Object.values(SUN_TIMELINE_EASINGS)) {
+      expect(easing(0)).toBe(0);
+    }
+    expect(SUN_TIMELINE_EASINGS.easeInOut(1)).toBe(1);
+  });
+
+  it('should blend colors and update them in place', () => {
+    const color = options.shader.baseColor;
+    timeline.setKeyframe('options', 'shader.baseColor', 0, '#000000');
+    timeline.setKeyframe('options', 'shader.baseColor', 10, '#ffffff');
+    expect(
+      timeline.setKeyframe('options', 'shader.baseColor', 5, 1)
+    ).toBeUndefined();
+
+    timeline.seek(10);
+    timeline.update(0);
+    timeline.apply(options);
+    expect(options.shader.baseColor).toBe(color);
+    expect(color.getHexString()).toBe('ffffff');
+    expect(getSunTimelineValue(options, 'shader.baseColor')).toBe('#ffffff');
+  });
+
+  it('should only apply while playing or after seeking', () => {
+    expect(timeline.update(1)).toBeFalse();
+    timeline.seek(5);
+    expect(timeline.update(1)).toBeTrue();
+    expect(timeline.time).toBe(5);
+    expect(timeline.update(1)).toBeFalse();
+
+    timeline.play();
+    expect(timeline.update(1)).toBeTrue();
+    timeline.apply(options);
+    expect(options.shader.brightness).toBeCloseTo(2.2);
+  });
+
+  it('should stop, loop or ping-pong at the end', () => {
+    timeline.play();
+    timeline.update(12);
+    expect(timeline.time).toBe(10);
+    expect(timeline.playing).toBeFalse();
+
+    timeline.playback = 'loop';
+    timeline.stop();
+    timeline.play();
+    timeline.update(12);
+    expect(timeline.time).toBeCloseTo(2);
+
+    timeline.playback = 'pingPong';
+    timeline.stop();
+    timeline.play();
+    timeline.update(12);
+    expect(timeline.time).toBeCloseTo(8);
+    timeline.update(10);
+    expect(timeline.time).toBeCloseTo(2);
+    expect(timeline.playing).toBeTrue();
+  });
+
+  it('should animate the camera and skip missing values', () => {
+    const camera = new PerspectiveCamera();
+    spyOn(camera, 'updateProjectionMatrix').and.callThrough();
+    timeline.setKeyframe('camera', 'fov', 0, 50);
+    timeline.setKeyframe('camera', 'fov', 10, 70);
+    timeline.setKeyframe('options', 'coronas[99].size', 0, 1);
+
+    timeline.seek(5);
+    timeline.update(0);
+    timeline.apply(options, camera);
+    expect(camera.fov).toBeCloseTo(60);
+    expect(camera.updateProjectionMatrix).toHaveBeenCalled();
+    expect(options.coronas[99]).toBeUndefined();
+  });
+
+  it('should replace keyframes at the same time and drop empty tracks', () => {
+    const track = timeline.tracks[0];
+    timeline.setKeyframe('options', 'shader.brightness', 10, 4, 'easeOut');
+    expect(track.keyframes.length).toBe(2);
+    expect(track.keyframes[1]).toEqual({
+      time: 10,
+      value: 4,
+      easing: 'easeOut',
+    });
+
+    timeline.setKeyframe('options', 'shader.brightness', 5, 2);
+    expect(track.keyframes.map((keyframe) => keyframe.time)).toEqual([
+      0, 5, 10,
+    ]);
+
+    [...track.keyframes].forEach((keyframe) =>
+      timeline.removeKeyframe(track, keyframe)
+    );
+    expect(timeline.tracks.length).toBe(0);
+  });
+
+  it('should round-trip through JSON data', () => {
+    timeline.playback = 'pingPong';
+    timeline.duration = 30;
+    timeline.setKeyframe('camera', 'position.z', 0, 5, 'easeInOut');
+
+    const data = JSON.parse(JSON.stringify(serializeSunTimeline(timeline)));
+    const { timeline: parsed, errors } = parseSunTimeline(data);
+    expect(errors).toEqual([]);
+    expect(serializeSunTimeline(parsed!)).toEqual(data);
+    expect(parsed!.getValue(parsed!.tracks[0], 5)).toBeCloseTo(2);
+  });
+
+  it('should report invalid data', () => {
+    expect(parseSunTimeline([]).errors[0].message).toBe('must be an object');
+
+    const { timeline: parsed, errors } = parseSunTimeline({
+      duration: 0,
+      playback: 'bounce',
+      tracks: [
+        {
+          path: 'shader.brightness',
+          keyframes: [
+            { time: 0, value: 1 },
+            { time: -1, value: '#ffffff', easing: 'smooth' },
+          ],
+        },
+        { target: 'light', path: 'intensity', keyframes: [] },
+      ],
+    });
+    expect(parsed).toBeUndefined();
+    expect(errors.map((error) => error.path)).toEqual([
+      'duration',
+      'playback',
+      'tracks[0].keyframes[1].time',
+      'tracks[0].keyframes[1].value',
+      'tracks[0].keyframes[1].easing',
+      'tracks[1].target',
+      'tracks[1].keyframes',
+    ]);
+  });
+
+  it('should read numbers and colors only', () => {
+    expect(getSunTimelineValue(options, 'shader.brightness')).toBe(
+      options.shader.brightness
+    );
+    expect(getSunTimelineValue(options, 'sunspots.active')).toBeUndefined();
+    expect(getSunTimelineValue(options, 'missing.value')).toBeUndefined();
+    expect(getSunTimelineValue({ color: new Color('#ff0000') }, 'color')).toBe(
+      '#ff0000'
+    );
+  });
+});
@@ -0,0 +1,513 @@
+/**
+ * Sun Timeline
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Keyframe animation of numeric and color options and of the camera, e.g.
+ * a quiet sun building up to a storm. Tracks address their value by path
+ * (`coronas[0].size`, as in the editor) and blend between keyframes along
+ * an easing curve. ThreeSunService plays its timeline on the simulation
+ * clock, so pause, time scale and single steps apply. Timelines are saved
+ * as versioned JSON data.
+ */
+
+import { Color, PerspectiveCamera } from 'three';
+import { ThreeSunOptions } from '../three-sun.service';
+import { SunOptionsValidationError } from './sun-options-schema';
+import { parseSunOptionsPath } from './sun-editor-fields';
+
+export const SUN_TIMELINE_VERSION = 1;
+
+export type SunTimelineEasing =
+  | 'linear'
+  | 'easeIn'
+  | 'easeOut'
+  | 'easeInOut'
+  /** Holds the value until the next keyframe */
+  | 'step';
+
+/**
+ * Maps the progress between two keyframes (0 to 1) to the share of the
+ * next value.
+ */
+export const SUN_TIMELINE_EASINGS: Record<
+  SunTimelineEasing,
+  (progress: number) => number
+> = {
+  linear: (progress) => progress,
+  easeIn: (progress) => progress ** 3,
+  easeOut: (progress) => 1 - (1 - progress) ** 3,
+  easeInOut: (progress) =>
+    progress < 0.5 ? 4 * progress ** 3 : 1 - (2 - 2 * progress) ** 3 / 2,
+  step: () => 0,
+};
+
+/**
+ * `once` stops at the end, `loop` starts over, `pingPong` plays back and
+ * forth.
+ */
+export type SunTimelinePlayback = 'once' | 'loop' | 'pingPong';
+
+export const SUN_TIMELINE_PLAYBACKS: SunTimelinePlayback[] = [
+  'once',
+  'loop',
+  'pingPong',
+];
+
+/** Object animated by a track */
+export type SunTimelineTarget = 'options' | 'camera';
+
+/** Camera values that can be keyframed */
+export const SUN_TIMELINE_CAMERA_PATHS = [
+  'position.x',
+  'position.y',
+  'position.z',
+  'fov',
+  'zoom',
+];
+
+export interface SunTimelineKeyframe {
+  /** Position on the timeline (in seconds) */
+  time: number;
+  /** A number, or a color as `#rrggbb` */
+  value: number | string;
+  /** Curve towards the next keyframe */
+  easing: SunTimelineEasing;
+}
+
+export interface SunTimelineTrack {
+  target: SunTimelineTarget;
+  /** Path of the value, e.g. `shader.brightness` or `position.z` of the camera */
+  path: string;
+  /** Sorted by time; all numbers or all colors */
+  keyframes: SunTimelineKeyframe[];
+}
+
+/**
+ * A timeline as plain JSON data, tagged with the timeline `version`.
+ */
+export interface SunTimelineData {
+  version: number;
+  duration: number;
+  playback: SunTimelinePlayback;
+  tracks: SunTimelineTrack[];
+}
+
+export interface SunTimelineParseResult {
+  /** Parsed timeline; undefined when the data is invalid */
+  timeline?: SunTimeline;
+  errors: SunOptionsValidationError[];
+}
+
+const EASINGS = Object.keys(SUN_TIMELINE_EASINGS) as SunTimelineEasing[];
+const TARGETS: SunTimelineTarget[] = ['options', 'camera'];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** Keyframes closer than this (in seconds) share a position */
+const TIME_EPSILON = 1e-3;
+
+export class SunTimeline {
+  /** Length of one pass (in seconds) */
+  duration = 10;
+
+  playback: SunTimelinePlayback = 'once';
+
+  tracks: SunTimelineTrack[] = [];
+
+  playing = false;
+
+  /** Played time within one loop or ping-pong cycle (in seconds) */
+  private cursor = 0;
+
+  /** Set by `seek`, so a paused timeline applies the new time once */
+  private seeked = false;
+
+  /** Current position on the timeline (in seconds) */
+  get time(): number {
+    const { cursor, duration } = this;
+    if (this.playback === 'pingPong' && cursor > duration) {
+      return duration * 2 - cursor;
+    }
+    return Math.min(cursor, duration);
+  }
+
+  /**
+   * Starts playback; a finished `once` timeline starts over.
+   */
+  play(): void {
+    if (this.playback === 'once' && this.cursor >= this.duration) {
+      this.cursor = 0;
+    }
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+  }
+
+  togglePlay(): void {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Pauses and returns to the start.
+   */
+  stop(): void {
+    this.pause();
+    this.seek(0);
+  }
+
+  /**
+   * Moves to a position, e.g. while scrubbing. Keeps playing if playing.
+   * @param time Position on the timeline (in seconds).
+   */
+  seek(time: number): void {
+    this.cursor = Math.min(Math.max(time, 0), this.duration);
+    this.seeked = true;
+  }
+
+  /**
+   * Advances playback; ThreeSunService calls it with the simulation delta time.
+   * @returns Whether the timeline has to be applied: while playing and after `seek`.
+   */
+  update(deltaTime: number): boolean {
+    const changed = this.playing || this.seeked;
+    this.seeked = false;
+
+    if (this.playing) {
+      const { duration } = this;
+      this.cursor += deltaTime;
+      if (this.playback === 'once' && this.cursor >= duration) {
+        this.cursor = duration;
+        this.playing = false;
+      } else if (this.playback === 'loop') {
+        this.cursor = duration > 0 ? this.cursor % duration : 0;
+      } else if (this.playback === 'pingPong') {
+        this.cursor = duration > 0 ? this.cursor % (duration * 2) : 0;
+      }
+    }
+
+    return changed && this.tracks.length > 0;
+  }
+
+  /**
+   * Writes the values at the current time. Values the options don't have
+   * (e.g. a removed corona) or of another type are skipped.
+   * @param camera Target of camera tracks; they are skipped when omitted.
+   */
+  apply(options: ThreeSunOptions, camera?: PerspectiveCamera): void {
+    let cameraChanged = false;
+    for (const track of this.tracks) {
+      const root = track.target === 'camera' ? camera : options;
+      const value = this.getValue(track);
+      if (!root || value === undefined) continue;
+      if (setTimelineValue(root, track.path, value) && root === camera) {
+        cameraChanged = true;
+      }
+    }
+    if (cameraChanged) camera!.updateProjectionMatrix();
+  }
+
+  /**
+   * Interpolates a track. Before the first and after the last keyframe the
+   * track holds their values.
+   * @param time Position on the timeline (in seconds); the current time by default.
+   * @returns A number or a color, undefined for a track without keyframes.
+   */
+  getValue(
+    track: SunTimelineTrack,
+    time = this.time
+  ): number | Color | undefined {
+    const { keyframes } = track;
+    if (!keyframes.length) return undefined;
+
+    const next = keyframes.findIndex((keyframe) => keyframe.time > time);
+    if (next === -1) return toValue(keyframes[keyframes.length - 1].value);
+    if (next === 0) return toValue(keyframes[0].value);
+
+    const from = keyframes[next - 1];
+    const to = keyframes[next];
+    const share = SUN_TIMELINE_EASINGS[from.easing](
+      (time - from.time) / (to.time - from.time)
+    );
+    if (typeof from.value === 'number' && typeof to.value === 'number') {
+      return from.value + (to.value - from.value) * share;
+    }
+    return new Color(from.value).lerp(new Color(to.value), share);
+  }
+
+  getTrack(
+    target: SunTimelineTarget,
+    path: string
+  ): SunTimelineTrack | undefined {
+    return this.tracks.find(
+      (track) => track.target === target && track.path === path
+    );
+  }
+
+  /**
+   * Adds a keyframe, or replaces the value of the keyframe at that time.
+   * Creates the track if needed.
+   * @param easing Curve towards the next keyframe; kept for replaced keyframes when omitted.
+   * @returns The keyframe, undefined if the value type differs from the track.
+   */
+  setKeyframe(
+    target: SunTimelineTarget,
+    path: string,
+    time: number,
+    value: number | string,
+    easing?: SunTimelineEasing
+  ): SunTimelineKeyframe | undefined {
+    let track = this.getTrack(target, path);
+    if (!track) {
+      track = { target, path, keyframes: [] };
+      this.tracks.push(track);
+    } else if (typeof track.keyframes[0]?.value !== typeof value) {
+      return undefined;
+    }
+
+    let keyframe = track.keyframes.find(
+      (keyframe) => Math.abs(keyframe.time - time) < TIME_EPSILON
+    );
+    if (keyframe) {
+      keyframe.value = value;
+      keyframe.easing = easing ?? keyframe.easing;
+    } else {
+      keyframe = { time, value, easing: easing ?? 'linear' };
+      track.keyframes.push(keyframe);
+      track.keyframes.sort((a, b) => a.time - b.time);
+    }
+    return keyframe;
+  }
+
+  /**
+   * Removes a keyframe; removes its track with the last keyframe.
+   */
+  removeKeyframe(track: SunTimelineTrack, keyframe: SunTimelineKeyframe): void {
+    track.keyframes = track.keyframes.filter((item) => item !== keyframe);
+    if (!track.keyframes.length) this.removeTrack(track);
+  }
+
+  removeTrack(track: SunTimelineTrack): void {
+    this.tracks = this.tracks.filter((item) => item !== track);
+  }
+
+  clear(): void {
+    this.tracks = [];
+    this.stop();
+  }
+}
+
+/**
+ * Reads a value that can be keyframed.
+ * @param root Options or camera.
+ * @returns A number, a color as `#rrggbb`, or undefined for other values.
+ */
+export function getSunTimelineValue(
+  root: object,
+  path: string
+): number | string | undefined {
+  const value = getTimelineValue(root, parseSunOptionsPath(path));
+  if (typeof value === 'number') return value;
+  if (value instanceof Color) return '#' + value.getHexString();
+  return undefined;
+}
+
+/**
+ * Converts a timeline to plain JSON data.
+ */
+export function serializeSunTimeline(timeline: SunTimeline): SunTimelineData {
+  return {
+    version: SUN_TIMELINE_VERSION,
+    duration: timeline.duration,
+    playback: timeline.playback,
+    tracks: timeline.tracks.map((track) => ({
+      target: track.target,
+      path: track.path,
+      keyframes: track.keyframes.map((keyframe) => ({ ...keyframe })),
+    })),
+  };
+}
+
+/**
+ * Validates and deserializes untrusted data, e.g. from a file. Missing
+ * targets default to `options`, missing easings to `linear`. Paths are
+ * not checked against the options: tracks of missing values are skipped
+ * on playback.
+ */
+export function parseSunTimeline(data: unknown): SunTimelineParseResult {
+  if (!isObject(data)) {
+    return {
+      errors: [{ path: '', message: 'must be an object', value: data }],
+    };
+  }
+
+  const errors: SunOptionsValidationError[] = [];
+  const fail = (path: string, message: string, value: unknown) =>
+    errors.push({ path, message, value });
+
+  const { version = SUN_TIMELINE_VERSION, duration, playback, tracks } = data;
+  if (typeof version !== 'number' || version > SUN_TIMELINE_VERSION) {
+    fail('version', `must be at most ${SUN_TIMELINE_VERSION}`, version);
+  }
+  if (typeof duration !== 'number' || !isFinite(duration) || duration <= 0) {
+    fail('duration', 'must be a positive number', duration);
+  }
+  if (!SUN_TIMELINE_PLAYBACKS.includes(playback as SunTimelinePlayback)) {
+    fail(
+      'playback',
+      `must be one of ${SUN_TIMELINE_PLAYBACKS.join(', ')}`,
+      playback
+    );
+  }
+  if (!Array.isArray(tracks)) {
+    fail('tracks', 'must be a list', tracks);
+    return { errors };
+  }
+
+  const parsedTracks = tracks.map((track, index) =>
+    parseTrack(track, `tracks[${index}]`, fail)
+  );
+  if (errors.length) return { errors };
+
+  const timeline = new SunTimeline();
+  timeline.duration = duration as number;
+  timeline.playback = playback as SunTimelinePlayback;
+  timeline.tracks = parsedTracks as SunTimelineTrack[];
+  return { timeline, errors };
+}
+
+function parseTrack(
+  track: unknown,
+  path: string,
+  fail: (path: string, message: string, value: unknown) => void
+): SunTimelineTrack | undefined {
+  if (!isObject(track)) {
+    fail(path, 'must be an object', track);
+    return undefined;
+  }
+
+  const { target = 'options', path: valuePath, keyframes } = track;
+  if (!TARGETS.includes(target as SunTimelineTarget)) {
+    fail(`${path}.target`, `must be one of ${TARGETS.join(', ')}`, target);
+  }
+  if (typeof valuePath !== 'string' || !parseSunOptionsPath(valuePath).length) {
+    fail(
+      `${path}.path`,
+      'must be a path (e.g. "shader.brightness")',
+      valuePath
+    );
+  }
+  if (!Array.isArray(keyframes) || !keyframes.length) {
+    fail(`${path}.keyframes`, 'must be a non-empty list', keyframes);
+    return undefined;
+  }
+
+  // All keyframes take the type of the first valid one
+  const first = keyframes.find(
+    (keyframe) => isObject(keyframe) && isKeyframeValue(keyframe['value'])
+  );
+  const type = first ? getValueType(first['value']) : undefined;
+  const parsedKeyframes = keyframes.map((keyframe, index) => {
+    const keyframePath = `${path}.keyframes[${index}]`;
+    if (!isObject(keyframe)) {
+      fail(keyframePath, 'must be an object', keyframe);
+      return undefined;
+    }
+
+    const { time, value, easing = 'linear' } = keyframe;
+    if (typeof time !== 'number' || !isFinite(time) || time < 0) {
+      fail(`${keyframePath}.time`, 'must be a number of at least 0', time);
+    }
+    if (!isKeyframeValue(value)) {
+      fail(
+        `${keyframePath}.value`,
+        'must be a number or a color (e.g. "#ffcc00")',
+        value
+      );
+    } else if (getValueType(value) !== type) {
+      fail(
+        `${keyframePath}.value`,
+        `must be a ${type} like the other keyframes`,
+        value
+      );
+    }
+    if (!EASINGS.includes(easing as SunTimelineEasing)) {
+      fail(
+        `${keyframePath}.easing`,
+        `must be one of ${EASINGS.join(', ')}`,
+        easing
+      );
+    }
+    return { time, value, easing } as SunTimelineKeyframe;
+  });
+
+  return {
+    target: target as SunTimelineTarget,
+    path: valuePath as string,
+    keyframes: (parsedKeyframes as SunTimelineKeyframe[]).sort(
+      (a, b) => a.time - b.time
+    ),
+  };
+}
+
+function isKeyframeValue(value: unknown): value is number | string {
+  return (
+    (typeof value === 'number' && isFinite(value)) ||
+    (typeof value === 'string' && HEX_COLOR.test(value))
+  );
+}
+
+function getValueType(value: unknown): 'number' | 'color' {
+  return typeof value === 'number' ? 'number' : 'color';
+}
+
+function toValue(value: number | string): number | Color {
+  return typeof value === 'number' ? value : new Color(value);
+}
+
+function getTimelineValue(root: object, path: (string | number)[]): unknown {
+  return path.reduce<unknown>(
+    (node, key) =>
+      typeof node === 'object' && node !== null
+        ? (node as { [key: string]: unknown })[key]
+        : undefined,
+    root
+  );
+}
+
+/**
+ * Sets a number, or updates a color in place.
+ * @returns Whether the target holds a value of the same type.
+ */
+function setTimelineValue(
+  root: object,
+  path: string,
+  value: number | Color
+): boolean {
+  const keys = parseSunOptionsPath(path);
+  const parent = getTimelineValue(root, keys.slice(0, -1));
+  if (typeof parent !== 'object' || parent === null) return false;
+
+  const record = parent as { [key: string]: unknown };
+  const key = keys[keys.length - 1];
+  const current = record[key];
+  if (typeof value === 'number' && typeof current === 'number') {
+    record[key] = value;
+  } else if (value instanceof Color && current instanceof Color) {
+    current.copy(value);
+  } else {
+    return false;
+  }
+  return true;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
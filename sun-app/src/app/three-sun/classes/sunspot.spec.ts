@@ -0,0 +1,18 @@
+import { Sunspot } from './sunspot';
+
+describe('Sunspot', () => {
+  it('should grow, decay and expire over its lifetime', () => {
+    const spot = new Sunspot(0, 0.3, 1, 0.05, 100);
+
+    spot.animate(20);
+    expect(spot.radius).toBeCloseTo(0.05, 5);
+
+    spot.animate(50);
+    expect(spot.radius).toBeGreaterThan(0);
+    expect(spot.radius).toBeLessThan(0.05);
+
+    spot.animate(30);
+    expect(spot.radius).toBe(0);
+    expect(spot.expired).toBeTrue();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Represents a single sunspot on the sun surface.
+ * Position is stored in the local space of the sun mesh, so spots drift with its rotation.
+ * Spots grow quickly, then slowly decay until their lifetime ends.
+ *
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ */
+
+import { MathUtils, Vector3 } from 'three';
+
+/** Share of the lifetime spent growing */
+const GROWTH_END = 0.15;
+
+/** Point of the lifetime at which decay begins */
+const DECAY_START = 0.35;
+
+export class Sunspot {
+  /** Unit direction from the sun center (local to the sun mesh) */
+  direction = new Vector3();
+
+  /** Current angular radius (in radians), 0 before birth and after death */
+  radius = 0;
+
+  /** Elapsed lifetime in seconds */
+  age = 0;
+
+  /**
+   * @param group Index of the active region the spot belongs to.
+   * @param latitude Latitude of the spot (in radians).
+   * @param longitude Longitude of the spot (in radians).
+   * @param maxRadius Angular radius at full size (in radians).
+   * @param lifetime Total duration in seconds.
+   */
+  constructor(
+    public group: number,
+    public latitude: number,
+    public longitude: number,
+    public maxRadius: number,
+    public lifetime: number
+  ) {}
+
+  /** Whether the lifetime has ended */
+  get expired(): boolean {
+    return this.age >= this.lifetime;
+  }
+
+  /**
+   * Advances growth and decay.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  animate(deltaTime: number): void {
+    this.age += deltaTime;
+
+    const normalizedAge = Math.min(this.age / this.lifetime, 1);
+    const growth = MathUtils.smoothstep(normalizedAge, 0, GROWTH_END);
+    const decay = 1 - MathUtils.smoothstep(normalizedAge, DECAY_START, 1);
+    this.radius = this.maxRadius * growth * decay;
+  }
+}
@@ -18,31 +18,6 @@ export class ThreeInputColorComponent extends ThreeInputComponent<Color> {
     }
     return '#000000';
   }
-  override storeValueFromURLQuery(): void {
-    if (!this.value) return;
-
-    const hexString = `#${this.value.getHexString()}`;
-
-    const queryParams = {
-      ...this.route.snapshot.queryParams,
-      [this.id]: hexString,
-    };
-
-    this.router.navigate([], {
-      queryParams,
-      queryParamsHandling: 'merge',
-      replaceUrl: true,
-    });
-  }
-
-  override loadValueFromURLQuery(): void {
-    const queryValue = this.route.snapshot.queryParamMap.get(this.id);
-    if (queryValue !== null) {
-      this.value = new Color(queryValue);
-      this.onChange.emit(this.value);
-    }
-  }
-
   override triggerChange(event: Event): void {
     const input = event.target as HTMLInputElement;
 
@@ -52,6 +27,5 @@ export class ThreeInputColorComponent extends ThreeInputComponent<Color> {
 
     this.value.set(input.value);
     this.onChange.emit(this.value);
-    this.storeValueFromURLQuery();
   }
 }
@@ -22,11 +22,11 @@ export class ThreeInputNumberComponent extends ThreeInputComponent<number> {
       super.initValue();
       return;
     }
-    if (this.min && this.value < this.min) {
+    if (this.min !== undefined && this.value < this.min) {
       this.value = this.min;
       this.onChange.emit(this.value);
     }
-    if (this.max && this.value > this.max) {
+    if (this.max !== undefined && this.value > this.max) {
       this.value = this.max;
       this.onChange.emit(this.value);
     }
@@ -34,7 +34,7 @@ export class ThreeInputNumberComponent extends ThreeInputComponent<number> {
   }
 
   override getInputValue() {
-    if (this.value) {
+    if (this.value !== undefined && !isNaN(this.value)) {
       return this.value + '';
     }
     return 'none';
@@ -44,7 +44,6 @@ export class ThreeInputNumberComponent extends ThreeInputComponent<number> {
     const input = event.target as HTMLInputElement;
     this.value = parseFloat(input.value);
     this.onChange.emit(this.value);
-    this.storeValueFromURLQuery();
   }
 
   hasSlider(): boolean {
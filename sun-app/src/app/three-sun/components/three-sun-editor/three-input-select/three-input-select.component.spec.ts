@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ThreeInputSelectComponent } from './three-input-select.component';
+
+describe('ThreeInputSelectComponent', () => {
+  let component: ThreeInputSelectComponent;
+  let fixture: ComponentFixture<ThreeInputSelectComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ThreeInputSelectComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ThreeInputSelectComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,31 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { ThreeInputComponent } from '../three-input/three-input.component';
+
+export interface ThreeInputSelectOption {
+  value: string;
+  label: string;
+}
+
+@Component({
+  selector: 'app-three-input-select',
+  standalone: false,
+  templateUrl: './three-input-select.component.html',
+  styleUrl: './three-input-select.component.scss',
+})
+export class ThreeInputSelectComponent extends ThreeInputComponent<string> {
+  override id = 'ThreeInputSelectComponent';
+  @Input() options: ThreeInputSelectOption[] = [];
+
+  @Output() override onChange = new EventEmitter<string>();
+
+  override getInputValue() {
+    const option = this.options.find((option) => option.value === this.value);
+    return option ? option.label : this.value ?? '';
+  }
+
+  override triggerChange(event: Event) {
+    const input = event.target as HTMLSelectElement;
+    this.value = input.value;
+    this.onChange.emit(this.value);
+  }
+}
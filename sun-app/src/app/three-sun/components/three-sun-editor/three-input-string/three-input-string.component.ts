@@ -19,4 +19,9 @@ export class ThreeInputStringComponent extends ThreeInputComponent<string> {
     return '';
   }
 
+  override triggerChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    this.value = input.value;
+    this.onChange.emit(this.value);
+  }
 }
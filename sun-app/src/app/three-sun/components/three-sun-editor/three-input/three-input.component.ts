@@ -1,6 +1,12 @@
 // three-input.component.ts
-import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
-import { ActivatedRoute, Params, Router } from '@angular/router';
+import {
+  Component,
+  EventEmitter,
+  HostListener,
+  Input,
+  OnInit,
+  Output,
+} from '@angular/core';
 import { Color } from 'three';
 
 @Component({
@@ -15,11 +21,11 @@ export class ThreeInputComponent<T = any> implements OnInit {
   @Input() label?: string;
   @Input() preventRealtimeChanges = false;
   @Output() onChange = new EventEmitter<T>();
+  /** Emits once an edit is complete: at the end of a slider drag or on reset */
+  @Output() onCommit = new EventEmitter<T>();
 
   initialValue?: any;
 
-  constructor(public route: ActivatedRoute, public router: Router) {}
-
   ngOnInit(): void {
     setTimeout(() => {
       this.initValue();
@@ -32,10 +38,6 @@ export class ThreeInputComponent<T = any> implements OnInit {
     } else {
       this.initialValue = this.value;
     }
-
-    this.route.queryParams.subscribe((params) => {
-      this.loadValueFromURLQuery(params);
-    });
     console.log('initialValue', this.id, this.initialValue);
   }
 
@@ -43,7 +45,15 @@ export class ThreeInputComponent<T = any> implements OnInit {
     this.value = this.initialValue;
     console.log('reset value', this.id, this.initialValue);
     this.onChange.emit(this.value);
-    this.storeValueFromURLQuery();
+    this.onCommit.emit(this.value);
+  }
+
+  /**
+   * Native `change` events of the inner inputs bubble up to the host.
+   */
+  @HostListener('change')
+  commitChange(): void {
+    this.onCommit.emit(this.value);
   }
 
   getInputValue(): string {
@@ -63,30 +73,5 @@ export class ThreeInputComponent<T = any> implements OnInit {
     const input = event.target as HTMLInputElement;
     this.value = input.checked as unknown as T;
     this.onChange.emit(this.value);
-    this.storeValueFromURLQuery();
-  }
-
-  loadValueFromURLQuery(params: Params) {
-    const queryValue = params[this.id];
-    if (queryValue !== undefined) {
-      try {
-        this.value = JSON.parse(queryValue);
-      } catch {
-        this.value = queryValue as any as T;
-      }
-      this.onChange.emit(this.value);
-    }
-  }
-  storeValueFromURLQuery() {
-    const queryParams = {
-      ...this.route.snapshot.queryParams,
-      [this.id]: JSON.stringify(this.value),
-    };
-
-    this.router.navigate([], {
-      queryParams,
-      queryParamsHandling: 'merge',
-      replaceUrl: true,
-    });
   }
 }
@@ -1,6 +1,15 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ActivatedRoute, Router } from '@angular/router';
+import { EMPTY } from 'rxjs';
 
 import { ThreeSunEditorComponent } from './three-sun-editor.component';
+import { NgThreeSunService } from '../../ng-three-sun.service';
+import { ThreeSunConfig } from '../../three-sun.config';
+import {
+  parseSunOptions,
+  serializeSunOptions,
+} from '../../classes/sun-options-serializer';
+import { SUN_SHARE_STATE_PARAM } from '../../classes/sun-share-state';
 
 describe('ThreeSunEditorComponent', () => {
   let component: ThreeSunEditorComponent;
@@ -21,3 +30,135 @@ describe('ThreeSunEditorComponent', () => {
     expect(component).toBeTruthy();
   });
 });
+
+describe('ThreeSunEditorComponent config files', () => {
+  let sun: NgThreeSunService;
+  let router: jasmine.SpyObj<Router>;
+  let navigated: Promise<unknown>;
+  let editor: ThreeSunEditorComponent;
+
+  beforeEach(() => {
+    sun = new NgThreeSunService();
+    router = jasmine.createSpyObj<Router>('Router', ['navigate']);
+    navigated = new Promise((resolve) =>
+      router.navigate.and.callFake((...args) => {
+        resolve(args);
+        return Promise.resolve(true);
+      })
+    );
+    editor = new ThreeSunEditorComponent(
+      sun,
+      router,
+      jasmine.createSpyObj<ActivatedRoute>('ActivatedRoute', [], {
+        queryParamMap: EMPTY,
+      })
+    );
+  });
+
+  afterEach(() => editor.ngOnDestroy());
+
+  function createFile(content: string, name = 'config.json'): File {
+    return new File([content], name, { type: 'application/json' });
+  }
+
+  it('should export options that parse back to the same options', async () => {
+    const createObjectURL = spyOn(URL, 'createObjectURL').and.returnValue(
+      'blob:config'
+    );
+    const revokeObjectURL = spyOn(URL, 'revokeObjectURL');
+    const click = spyOn(HTMLAnchorElement.prototype, 'click');
+    sun.options.shader.brightness = 2.5;
+    sun.options.coronas.pop();
+
+    jasmine.clock().install();
+    try {
+      editor.exportConfig();
+      expect(click).toHaveBeenCalledTimes(1);
+      expect(revokeObjectURL).not.toHaveBeenCalled();
+      jasmine.clock().tick(0);
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:config');
+    } finally {
+      jasmine.clock().uninstall();
+    }
+
+    const blob = createObjectURL.calls.mostRecent().args[0] as Blob;
+    const { options, errors } = parseSunOptions(JSON.parse(await blob.text()));
+    expect(errors).toEqual([]);
+    expect(serializeSunOptions(options!)).toEqual(
+      serializeSunOptions(sun.options)
+    );
+  });
+
+  it('should name exported files after the preset', () => {
+    spyOn(URL, 'createObjectURL').and.returnValue('blob:config');
+    spyOn(URL, 'revokeObjectURL');
+    let fileName = '';
+    spyOn(HTMLAnchorElement.prototype, 'click').and.callFake(function (
+      this: HTMLAnchorElement
+    ) {
+      fileName = this.download;
+    });
+
+    editor.presetName = 'My Red Giant!';
+    editor.exportConfig();
+    expect(fileName).toBe('my-red-giant.json');
+
+    editor.presetName = '☀';
+    editor.exportConfig();
+    expect(fileName).toBe('three-sun.json');
+  });
+
+  it('should apply a valid file and replace preset and URL state', async () => {
+    const options = new ThreeSunConfig().options;
+    options.shader.brightness = 3;
+    editor.presetId = 'old';
+    editor.presetName = 'old';
+    editor.importErrors = [{ path: 'old', message: 'is old' }];
+
+    await editor.importConfig(
+      createFile(JSON.stringify(serializeSunOptions(options)), 'bright.json')
+    );
+
+    expect(editor.importErrors).toEqual([]);
+    expect(sun.options.shader.brightness).toBe(3);
+    expect(editor.presetId).toBe('');
+    expect(editor.presetName).toBe('');
+    expect(sun.history.undoLabel).toBe('import bright.json');
+
+    const [, extras] = (await navigated) as Parameters<Router['navigate']>;
+    expect(extras).toEqual({
+      queryParams: { [SUN_SHARE_STATE_PARAM]: jasmine.any(String) },
+      replaceUrl: true,
+    });
+  });
+
+  it('should keep the sun untouched when the file is not JSON', async () => {
+    const options = sun.options;
+    spyOn(sun, 'applyOptions');
+
+    await editor.importConfig(createFile('{ "shader": ', 'broken.json'));
+
+    expect(editor.importErrors).toEqual([
+      { path: 'broken.json', message: 'is not valid JSON' },
+    ]);
+    expect(sun.applyOptions).not.toHaveBeenCalled();
+    expect(sun.options).toBe(options);
+    expect(sun.history.canUndo).toBeFalse();
+  });
+
+  it('should keep the sun untouched when the file is invalid', async () => {
+    const options = sun.options;
+    spyOn(sun, 'applyOptions');
+
+    await editor.importConfig(
+      createFile(JSON.stringify({ shader: { brightness: 'bright' } }))
+    );
+
+    expect(editor.importErrors.map((error) => error.path)).toEqual([
+      'shader.brightness',
+    ]);
+    expect(sun.applyOptions).not.toHaveBeenCalled();
+    expect(sun.options).toBe(options);
+    expect(sun.history.canUndo).toBeFalse();
+  });
+});
@@ -1,5 +1,51 @@
-import { Component } from '@angular/core';
+import { Component, HostListener, OnDestroy, OnInit } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { Color } from 'three';
 import { NgThreeSunService } from '../../ng-three-sun.service';
+import { createInnerSolarSystem } from '../../classes/sun-planetary-system';
+import {
+  SUN_BUILT_IN_PRESETS,
+  SunPreset,
+} from '../../classes/sun-preset-library';
+import {
+  parseSunOptions,
+  serializeSunOptions,
+} from '../../classes/sun-options-serializer';
+import { SunOptionsValidationError } from '../../classes/sun-options-schema';
+import {
+  decodeSunShareState,
+  encodeSunShareState,
+  getSunShareData,
+  SUN_SHARE_STATE_PARAM,
+} from '../../classes/sun-share-state';
+import {
+  addSunEditorItem,
+  formatSunOptionsPath,
+  getSunEditorSections,
+  getSunEditorStructureKey,
+  getSunOptionsValue,
+  isSunEditorFieldVisible,
+  moveSunEditorItem,
+  removeSunEditorItem,
+  setSunOptionsValue,
+  SunEditorChoice,
+  SunEditorField,
+  SunEditorSection,
+} from '../../classes/sun-editor-fields';
+import { applyLegacySunParams } from '../../classes/sun-legacy-params';
+import {
+  getSunTimelineValue,
+  parseSunTimeline,
+  serializeSunTimeline,
+  SUN_TIMELINE_CAMERA_PATHS,
+  SUN_TIMELINE_EASINGS,
+  SUN_TIMELINE_PLAYBACKS,
+  SunTimelineEasing,
+  SunTimelineTarget,
+  SunTimelineTrack,
+} from '../../classes/sun-timeline';
+import { ThreeSunOptions } from '../../three-sun.service';
 
 @Component({
   selector: 'app-three-sun-editor',
@@ -7,14 +53,573 @@ import { NgThreeSunService } from '../../ng-three-sun.service';
   templateUrl: './three-sun-editor.component.html',
   styleUrl: './three-sun-editor.component.scss',
 })
-export class ThreeSunEditorComponent {
-  emissiveColor?: string;
+export class ThreeSunEditorComponent implements OnInit, OnDestroy {
+  /** Variant picked for the next item of union lists, by field id */
+  newItemTypes: { [id: string]: string } = {};
 
-  constructor(public sun: NgThreeSunService) {}
+  /** Selected preset; empty after deleting it */
+  presetId = SUN_BUILT_IN_PRESETS[0].id;
+  presetName = '';
 
-  reloadLocation() {
-    const baseUrl = location.origin + location.pathname + location.hash;
-    location.href = baseUrl;
+  builtInPresets: SunPreset[] = [];
+  userPresets: SunPreset[] = [];
+
+  /** Problems of the last imported config file or share link */
+  importErrors: SunOptionsValidationError[] = [];
+  /** A file is dragged over the editor */
+  configDragOver = false;
+
+  /** Curve of new keyframes */
+  timelineEasing: SunTimelineEasing = 'easeInOut';
+  /** Camera value keyed by "key camera" */
+  timelineCameraPath = 'position.z';
+  /** Problems of the last imported timeline file */
+  timelineErrors: SunOptionsValidationError[] = [];
+
+  readonly timelineEasings: SunEditorChoice[] = [
+    { value: 'linear', label: 'linear' },
+    { value: 'easeIn', label: 'ease in' },
+    { value: 'easeOut', label: 'ease out' },
+    { value: 'easeInOut', label: 'ease in-out' },
+    { value: 'step', label: 'step' },
+  ];
+  readonly timelinePlaybacks: SunEditorChoice[] = [
+    { value: 'once', label: 'once' },
+    { value: 'loop', label: 'loop' },
+    { value: 'pingPong', label: 'ping-pong' },
+  ];
+  readonly timelineCameraPaths: SunEditorChoice[] =
+    SUN_TIMELINE_CAMERA_PATHS.map((path) => ({
+      value: path,
+      label: path.replace('.', ' '),
+    }));
+
+  shareLinkCopied = false;
+  /** Shown for manual copying when the clipboard is not available */
+  shareLink = '';
+
+  /** State last written to or read from the URL */
+  private shareState = '';
+  /** Share data of `shareState`, to skip URL updates without changes */
+  private shareData = '';
+  private shareStateTimeout?: ReturnType<typeof setTimeout>;
+  private queryParamsSubscription?: Subscription;
+
+  private sections: SunEditorSection[] = [];
+  private sectionsKey?: string;
+
+  constructor(
+    public sun: NgThreeSunService,
+    private router: Router,
+    private route: ActivatedRoute
+  ) {
+    this.refreshPresets();
+  }
+
+  ngOnInit(): void {
+    this.queryParamsSubscription = this.route.queryParamMap.subscribe(
+      (params) => {
+        const state = params.get(SUN_SHARE_STATE_PARAM);
+        if (state) {
+          if (state !== this.shareState) this.loadShareState(state);
+        } else {
+          this.loadLegacyParams(
+            Object.fromEntries(
+              params.keys.map((key) => [key, params.get(key)!])
+            )
+          );
+        }
+      }
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.queryParamsSubscription?.unsubscribe();
+    clearTimeout(this.shareStateTimeout);
+  }
+
+  /**
+   * Records the options after an edit and stores them in the URL. Fields
+   * commit once at the end of a slider drag, so a drag becomes a single
+   * history entry.
+   */
+  recordChange(label?: string) {
+    this.sun.history.record(this.sun.options, label);
+    this.scheduleShareState();
+  }
+
+  undo() {
+    this.restoreOptions(this.sun.history.undo());
+  }
+
+  redo() {
+    this.restoreOptions(this.sun.history.redo());
+  }
+
+  /**
+   * Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) while the editor is open. Text fields
+   * keep their own undo.
+   */
+  @HostListener('window:keydown', ['$event'])
+  onKeyDown(event: KeyboardEvent) {
+    if (!this.sun.editorActive || !(event.ctrlKey || event.metaKey)) return;
+    if (this.isTextField(event.target)) return;
+
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      this.undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      this.redo();
+    } else {
+      return;
+    }
+    event.preventDefault();
+  }
+
+  /**
+   * Called on every interaction with the editor. Stores the state in the URL
+   * once the interaction settles, e.g. at the end of a slider drag.
+   */
+  scheduleShareState() {
+    clearTimeout(this.shareStateTimeout);
+    this.shareStateTimeout = setTimeout(() => this.storeShareState(), 300);
+  }
+
+  /**
+   * Replaces all query params with the encoded difference from the
+   * defaults. Drops the per-field params of old links as well.
+   */
+  async storeShareState() {
+    clearTimeout(this.shareStateTimeout);
+    const data = getSunShareData(this.sun.options);
+    const json = JSON.stringify(data);
+    if (json === this.shareData) return;
+    this.shareData = json;
+
+    const state = await encodeSunShareState(this.sun.options);
+    // A newer change is already on its way
+    if (json !== this.shareData) return;
+    this.shareState = state;
+    const queryParams =
+      Object.keys(data).length > 1 ? { [SUN_SHARE_STATE_PARAM]: state } : {};
+    this.router.navigate([], { queryParams, replaceUrl: true });
+  }
+
+  async copyShareLink() {
+    const url = new URL(location.href);
+    url.search = new URLSearchParams({
+      [SUN_SHARE_STATE_PARAM]: await encodeSunShareState(this.sun.options),
+    }).toString();
+
+    try {
+      await navigator.clipboard.writeText(url.href);
+      this.shareLink = '';
+      this.shareLinkCopied = true;
+      setTimeout(() => (this.shareLinkCopied = false), 2000);
+    } catch {
+      this.shareLink = url.href;
+    }
+  }
+
+  private async loadShareState(state: string) {
+    this.shareState = state;
+    const { options, errors } = await decodeSunShareState(state);
+    this.importErrors = errors;
+    if (!options) return;
+    this.presetId = '';
+    this.presetName = '';
+    this.shareData = JSON.stringify(getSunShareData(options));
+    this.sun.applyOptions(options);
+    this.sun.history.record(options, 'open share link');
+  }
+
+  /**
+   * Old links carry one query param per editor field.
+   */
+  private loadLegacyParams(params: { [id: string]: string }) {
+    if (!applyLegacySunParams(this.sun.options, params)) return;
+    this.presetId = '';
+    this.presetName = '';
+    this.sun.history.record(this.sun.options, 'open link');
+    this.storeShareState();
+  }
+
+  private restoreOptions(options?: ThreeSunOptions) {
+    if (!options) return;
+    this.sun.applyOptions(options);
+    this.syncPreset(options);
+    this.storeShareState();
+  }
+
+  /**
+   * Selects the preset equal to the options, e.g. after undoing back to a
+   * loaded preset; selects "unsaved" if none matches.
+   */
+  private syncPreset(options: ThreeSunOptions) {
+    const json = JSON.stringify(serializeSunOptions(options));
+    const preset = [...this.builtInPresets, ...this.userPresets].find(
+      (preset) =>
+        JSON.stringify(serializeSunOptions(preset.createOptions())) === json
+    );
+    this.presetId = preset?.id ?? '';
+    this.presetName = preset && !preset.builtIn ? preset.name : '';
+  }
+
+  private isTextField(target: EventTarget | null): boolean {
+    return (
+      target instanceof HTMLTextAreaElement ||
+      (target instanceof HTMLInputElement &&
+        ['text', 'number'].includes(target.type))
+    );
+  }
+
+  resetAll() {
+    this.loadPreset(SUN_BUILT_IN_PRESETS[0].id);
+  }
+
+  /**
+   * Applies a preset to the running sun.
+   */
+  loadPreset(id: string) {
+    const preset = this.sun.presets.getPreset(id);
+    if (!preset) return;
+    this.presetId = preset.id;
+    this.presetName = preset.builtIn ? '' : preset.name;
+    this.importErrors = [];
+    this.applyOptions(preset.createOptions(), `load ${preset.name}`);
+  }
+
+  /**
+   * Downloads the current options as a JSON file.
+   */
+  exportConfig() {
+    this.downloadJson(
+      serializeSunOptions(this.sun.options),
+      this.getConfigFileName()
+    );
+  }
+
+  /**
+   * Reads a config file exported by `exportConfig` and applies it live.
+   * Invalid files leave the sun untouched and list their problems.
+   */
+  async importConfig(file: File) {
+    const { data, errors: readErrors } = await this.readJsonFile(file);
+    this.importErrors = readErrors;
+    if (readErrors.length) return;
+
+    const { options, errors } = parseSunOptions(data);
+    this.importErrors = errors;
+    if (!options) return;
+    this.presetId = '';
+    this.presetName = '';
+    this.applyOptions(options, `import ${file.name}`);
+  }
+
+  onConfigFileChange(event: Event) {
+    const file = this.takeFile(event);
+    if (file) this.importConfig(file);
+  }
+
+  onConfigDragOver(event: DragEvent) {
+    if (!event.dataTransfer?.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    this.configDragOver = true;
+  }
+
+  onConfigDrop(event: DragEvent) {
+    this.configDragOver = false;
+    const file = event.dataTransfer?.files[0];
+    if (!file) return;
+    event.preventDefault();
+    this.importConfig(file);
+  }
+
+  /**
+   * Swaps the options of the running sun as one undoable step and updates
+   * the URL right away.
+   */
+  private applyOptions(options: ThreeSunOptions, label: string) {
+    this.sun.applyOptions(options);
+    this.sun.history.record(options, label);
+    this.storeShareState();
+  }
+
+  private downloadJson(data: object, name: string) {
+    const json = JSON.stringify(data, null, 2);
+    const url = URL.createObjectURL(
+      new Blob([json], { type: 'application/json' })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}.json`;
+    link.click();
+    // Revoking right away can cancel the download in Firefox and Safari
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  private async readJsonFile(
+    file: File
+  ): Promise<{ data?: unknown; errors: SunOptionsValidationError[] }> {
+    try {
+      return { data: JSON.parse(await file.text()), errors: [] };
+    } catch {
+      return { errors: [{ path: file.name, message: 'is not valid JSON' }] };
+    }
+  }
+
+  private takeFile(event: Event): File | undefined {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Allows picking the same file again
+    input.value = '';
+    return file;
+  }
+
+  private getConfigFileName(): string {
+    const name = this.presetName.trim() || this.presetId;
+    const fileName = name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return fileName || 'three-sun';
+  }
+
+  /**
+   * Saves the current options under `presetName`. Overwrites the selected
+   * user preset unless `asNew` is set.
+   */
+  savePreset(asNew = false) {
+    const id = asNew || !this.isUserPreset() ? undefined : this.presetId;
+    const preset = this.sun.presets.savePreset(
+      this.presetName.trim(),
+      this.sun.options,
+      id
+    );
+    this.presetId = preset.id;
+    this.refreshPresets();
+  }
+
+  renamePreset() {
+    this.sun.presets.renamePreset(this.presetId, this.presetName.trim());
+    this.refreshPresets();
+  }
+
+  deletePreset() {
+    this.sun.presets.deletePreset(this.presetId);
+    this.presetId = '';
+    this.presetName = '';
+    this.refreshPresets();
+  }
+
+  isUserPreset(): boolean {
+    return this.userPresets.some((preset) => preset.id === this.presetId);
+  }
+
+  private refreshPresets() {
+    const presets = this.sun.presets.getPresets();
+    this.builtInPresets = presets.filter((preset) => preset.builtIn);
+    this.userPresets = presets.filter((preset) => !preset.builtIn);
+  }
+
+  /**
+   * Editor sections generated from the schema metadata. Rebuilt only when
+   * lists or their labels change, so inputs keep their state while editing.
+   */
+  getSections(): SunEditorSection[] {
+    const key = getSunEditorStructureKey(this.sun.options);
+    if (key !== this.sectionsKey) {
+      this.sectionsKey = key;
+      this.sections = getSunEditorSections(this.sun.options);
+    }
+    return this.sections;
+  }
+
+  trackSection(index: number, section: SunEditorSection): string {
+    return section.title;
+  }
+
+  trackField(index: number, field: SunEditorField): string {
+    return field.id;
+  }
+
+  isVisible(field: SunEditorField): boolean {
+    return isSunEditorFieldVisible(field, this.sun.options);
+  }
+
+  getValue(field: SunEditorField): unknown {
+    return getSunOptionsValue(this.sun.options, field.path);
+  }
+
+  getNumber(field: SunEditorField): number | undefined {
+    const value = this.getValue(field);
+    return typeof value === 'number' ? value : undefined;
+  }
+
+  getBoolean(field: SunEditorField): boolean | undefined {
+    const value = this.getValue(field);
+    return typeof value === 'boolean' ? value : undefined;
+  }
+
+  getString(field: SunEditorField): string | undefined {
+    const value = this.getValue(field);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  getColor(field: SunEditorField): Color | undefined {
+    const value = this.getValue(field);
+    return value instanceof Color ? value : undefined;
+  }
+
+  setValue(field: SunEditorField, value: unknown) {
+    setSunOptionsValue(this.sun.options, field.path, value);
+  }
+
+  /**
+   * Slider minimum; follows the lower value of `min`/`max` pairs.
+   */
+  getMin(field: SunEditorField): number | undefined {
+    if (!field.minPath) return field.min;
+    const min = getSunOptionsValue(this.sun.options, field.minPath);
+    return typeof min === 'number' ? min : field.min;
+  }
+
+  getNewItemType(field: SunEditorField): string | undefined {
+    return this.newItemTypes[field.id] ?? field.choices?.[0].value;
+  }
+
+  addItem(field: SunEditorField) {
+    addSunEditorItem(this.sun.options, field, this.getNewItemType(field));
+    this.recordChange(field.label);
+  }
+
+  removeItem(field: SunEditorField) {
+    removeSunEditorItem(this.sun.options, field);
+    this.recordChange(`remove ${field.label}`);
+  }
+
+  moveItem(field: SunEditorField, offset: number) {
+    moveSunEditorItem(this.sun.options, field, offset);
+    this.recordChange(`move ${field.label}`);
+  }
+
+  /**
+   * Handles the buttons declared as `actions` in the schema.
+   */
+  runAction(field: SunEditorField) {
+    switch (field.action) {
+      case 'launchCoronalMassEjection':
+        this.sun.triggerCoronalMassEjection();
+        break;
+      case 'loadInnerSolarSystem':
+        this.sun.options.planets.bodies = createInnerSolarSystem();
+        this.recordChange(field.label);
+        break;
+    }
+  }
+
+  /**
+   * Timeline position for the scrub slider, rounded to its step.
+   */
+  getTimelineTime(): number {
+    return Math.round(this.sun.timeline.time * 100) / 100;
+  }
+
+  /**
+   * Sets the playback of the select; unknown values are ignored.
+   */
+  setTimelinePlayback(value: string) {
+    const playback = SUN_TIMELINE_PLAYBACKS.find((entry) => entry === value);
+    if (playback) this.sun.timeline.playback = playback;
+  }
+
+  /**
+   * Sets the easing of new keyframes; unknown values are ignored.
+   */
+  setTimelineEasing(value: string) {
+    const easings = Object.keys(SUN_TIMELINE_EASINGS) as SunTimelineEasing[];
+    const easing = easings.find((entry) => entry === value);
+    if (easing) this.timelineEasing = easing;
+  }
+
+  isKeyed(field: SunEditorField): boolean {
+    return !!this.sun.timeline.getTrack(
+      'options',
+      formatSunOptionsPath(field.path)
+    );
+  }
+
+  /**
+   * Keys the current value of a field at the current timeline position.
+   */
+  keyField(field: SunEditorField) {
+    this.setKeyframe('options', formatSunOptionsPath(field.path));
+  }
+
+  keyCamera() {
+    this.setKeyframe('camera', this.timelineCameraPath);
+  }
+
+  getTrackLabel(track: SunTimelineTrack): string {
+    if (track.target === 'camera') return `camera ${track.path}`;
+    const field = this.getSections()
+      .flatMap((section) => section.fields)
+      .find((field) => field.id === track.path);
+    return field?.label ?? track.path;
+  }
+
+  isColorTrack(track: SunTimelineTrack): boolean {
+    return typeof track.keyframes[0]?.value === 'string';
+  }
+
+  trackTimelineTrack(index: number, track: SunTimelineTrack): string {
+    return `${track.target}:${track.path}`;
+  }
+
+  /**
+   * Downloads the timeline as a JSON file.
+   */
+  exportTimeline() {
+    this.downloadJson(
+      serializeSunTimeline(this.sun.timeline),
+      `${this.getConfigFileName()}-timeline`
+    );
+  }
+
+  /**
+   * Replaces the timeline with a file exported by `exportTimeline` and
+   * applies its start. Invalid files keep the current timeline.
+   */
+  async importTimeline(file: File) {
+    const { data, errors: readErrors } = await this.readJsonFile(file);
+    this.timelineErrors = readErrors;
+    if (readErrors.length) return;
+
+    const { timeline, errors } = parseSunTimeline(data);
+    this.timelineErrors = errors;
+    if (!timeline) return;
+    this.sun.timeline = timeline;
+    timeline.seek(0);
+  }
+
+  onTimelineFileChange(event: Event) {
+    const file = this.takeFile(event);
+    if (file) this.importTimeline(file);
+  }
+
+  private setKeyframe(target: SunTimelineTarget, path: string) {
+    const root = target === 'camera' ? this.sun.camera : this.sun.options;
+    const value = getSunTimelineValue(root, path);
+    if (value === undefined) return;
+    const { timeline } = this.sun;
+    timeline.setKeyframe(
+      target,
+      path,
+      timeline.time,
+      value,
+      this.timelineEasing
+    );
   }
 
   changeStatsVisible(visible: boolean) {
@@ -6,7 +6,7 @@ describe('NgThreeSunService', () => {
   let service: NgThreeSunService;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    TestBed.configureTestingModule({ providers: [NgThreeSunService] });
     service = TestBed.inject(NgThreeSunService);
   });
 
@@ -1,9 +1,78 @@
 import { Injectable } from '@angular/core';
+import Stats from 'three/examples/jsm/libs/stats.module.js';
 import { ThreeSunService } from './three-sun.service';
+import { FrameSunScheduler } from './classes/sun-scheduler';
+import { SunPresetLibrary } from './classes/sun-preset-library';
+import { SunOptionsHistory } from './classes/sun-options-history';
 
-@Injectable({
-  providedIn: 'root'
-})
+/**
+ * Angular adapter for the framework-agnostic ThreeSunService.
+ * Adds browser-only concerns: the three.js stats panel, editor visibility,
+ * user presets kept in localStorage and the undo history of the editor.
+ * Provided per ThreeSunComponent, so every `<app-three-sun>` owns its own sun.
+ */
+@Injectable()
 export class NgThreeSunService extends ThreeSunService {
+  editorActive = false;
 
+  stats = new Stats();
+
+  statsVisible = false;
+
+  presets = new SunPresetLibrary(localStorage);
+
+  /**
+   * Undo history of the editor. Kept here, so it outlives the editor.
+   */
+  history = new SunOptionsHistory();
+
+  constructor() {
+    // Eruptions follow the render loop, so they pause in hidden tabs.
+    super(new FrameSunScheduler());
+    this.history.record(this.options, 'initial');
+  }
+
+  override animate(deltaTime: number): void {
+    super.animate(deltaTime);
+    this.stats.update();
+  }
+
+  addStats(htmlElement: HTMLElement) {
+    htmlElement.appendChild(this.stats.dom);
+    this.showStats();
+  }
+
+  showStats() {
+    this.stats.dom.style.display = 'block';
+    this.statsVisible = true;
+  }
+
+  hideStats() {
+    this.stats.dom.style.display = 'none';
+    this.statsVisible = false;
+  }
+
+  toggleStats() {
+    if (this.statsVisible) {
+      this.hideStats();
+    } else {
+      this.showStats();
+    }
+  }
+
+  showEditor() {
+    this.editorActive = true;
+  }
+
+  hideEditor() {
+    this.editorActive = false;
+  }
+
+  toggleEditor() {
+    if (this.editorActive) {
+      this.hideEditor();
+    } else {
+      this.showEditor();
+    }
+  }
 }
@@ -0,0 +1,28 @@
+import { ThreeSunService } from '../three-sun.service';
+import { CoronalMassEjectionService } from './coronal-mass-ejection.service';
+
+describe('CoronalMassEjectionService', () => {
+  let service: CoronalMassEjectionService;
+
+  beforeEach(() => {
+    const sun = new ThreeSunService();
+    service = new CoronalMassEjectionService(
+      sun,
+      sun.options.coronalMassEjections
+    );
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('should sync color and opacity from the options', () => {
+    service.options.color.set('#ff0000');
+    service.options.opacity = 0.25;
+    service.animate(0.1);
+
+    const uniforms = service.ejectionMaterial.uniforms;
+    expect(uniforms['color'].value.getHexString()).toBe('ff0000');
+    expect(uniforms['opacity'].value).toBe(0.25);
+  });
+});
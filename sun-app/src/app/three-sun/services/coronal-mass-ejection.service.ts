@@ -0,0 +1,196 @@
+/**
+ * Coronal Mass Ejection Service
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Manages the shared shader material of coronal mass ejections (CMEs).
+ * Renders each CME as an expanding, noisy, semi-transparent plasma bubble
+ * travelling outward from the sun along local +Z.
+ * Renders instanced meshes from the CoronalMassEjectionPool; per-CME distance,
+ * radius, opacity and seed are instance attributes.
+ */
+
+import {
+  AdditiveBlending,
+  Color,
+  DoubleSide,
+  ShaderMaterial,
+  Uniform,
+} from 'three';
+import { ThreeSunService } from '../three-sun.service';
+
+/**
+ * Launch parameters of a single coronal mass ejection.
+ */
+export interface CoronalMassEjectionLaunchOptions {
+  /** Outward speed of the bubble center (world units per simulated second) */
+  speed: number;
+  /** Full angular width of the bubble as seen from the sun center (in degrees) */
+  angularWidth: number;
+  /** Distance from the sun center at which the CME has fully faded */
+  maxDistance: number;
+}
+
+export interface CoronalMassEjectionOptions
+  extends CoronalMassEjectionLaunchOptions {
+  /** Enables random launches; scripted launches work regardless */
+  active: boolean;
+  /** Chance [0..1] per simulated second that a CME launches */
+  probability: number;
+  opacity: number;
+  color: Color;
+}
+
+export class CoronalMassEjectionService {
+  /** Shader material shared by all CMEs of a sun */
+  public ejectionMaterial: ShaderMaterial;
+
+  /**
+   * @param sun Reference to the ThreeSunService that owns the CMEs.
+   * @param options CME options (color, opacity).
+   */
+  constructor(
+    private sun: ThreeSunService,
+    public options: CoronalMassEjectionOptions
+  ) {
+    this.ejectionMaterial = this.createEjectionMaterial();
+  }
+
+  /**
+   * Creates the instanced CME material.
+   * Reads the per-instance attribute `ejectionState` (distance, radius, opacity, seed).
+   * @returns The configured ShaderMaterial instance.
+   */
+  private createEjectionMaterial(): ShaderMaterial {
+    return new ShaderMaterial({
+      uniforms: {
+        time: new Uniform(0),
+        color: new Uniform(this.options.color.clone()),
+        opacity: new Uniform(this.options.opacity),
+      },
+      transparent: true,
+      depthWrite: false,
+      blending: AdditiveBlending,
+      side: DoubleSide,
+      vertexShader: `
+        uniform float time;
+
+        attribute vec4 ejectionState;
+
+        varying vec3 vLocal;
+        varying float vRim;
+        varying float vFront;
+        varying float vSeed;
+        varying float vOpacity;
+
+        float hash(vec3 p) {
+          return fract(sin(dot(p, vec3(127.1, 311.7, 74.7))) * 43758.5453);
+        }
+
+        float noise(vec3 p) {
+          vec3 i = floor(p);
+          vec3 f = fract(p);
+          vec3 u = f * f * (3.0 - 2.0 * f);
+          return mix(
+            mix(mix(hash(i), hash(i + vec3(1,0,0)), u.x),
+                mix(hash(i + vec3(0,1,0)), hash(i + vec3(1,1,0)), u.x), u.y),
+            mix(mix(hash(i + vec3(0,0,1)), hash(i + vec3(1,0,1)), u.x),
+                mix(hash(i + vec3(0,1,1)), hash(i + vec3(1,1,1)), u.x), u.y),
+            u.z
+          );
+        }
+
+        void main() {
+          vSeed = ejectionState.w;
+          vOpacity = ejectionState.z;
+          vLocal = position;
+          vFront = position.z;
+
+          // Lumpy bubble surface; free slots have radius 0
+          float lumps = noise(position * 2.5 + vec3(vSeed * 23.0, 0.0, time * 0.4));
+          vec3 surface = position * ejectionState.y * (0.85 + 0.3 * lumps);
+          vec3 center = vec3(0.0, 0.0, ejectionState.x);
+
+          vec4 viewPosition = modelViewMatrix * instanceMatrix * vec4(center + surface, 1.0);
+          vec3 viewNormal = normalize(normalMatrix * mat3(instanceMatrix) * normal);
+          vRim = 1.0 - abs(dot(viewNormal, normalize(-viewPosition.xyz)));
+
+          gl_Position = projectionMatrix * viewPosition;
+        }
+      `,
+      fragmentShader: `
+        uniform float time;
+        uniform vec3 color;
+        uniform float opacity;
+
+        varying vec3 vLocal;
+        varying float vRim;
+        varying float vFront;
+        varying float vSeed;
+        varying float vOpacity;
+
+        float hash(vec3 p) {
+          return fract(sin(dot(p, vec3(127.1, 311.7, 74.7))) * 43758.5453);
+        }
+
+        float noise(vec3 p) {
+          vec3 i = floor(p);
+          vec3 f = fract(p);
+          vec3 u = f * f * (3.0 - 2.0 * f);
+          return mix(
+            mix(mix(hash(i), hash(i + vec3(1,0,0)), u.x),
+                mix(hash(i + vec3(0,1,0)), hash(i + vec3(1,1,0)), u.x), u.y),
+            mix(mix(hash(i + vec3(0,0,1)), hash(i + vec3(1,0,1)), u.x),
+                mix(hash(i + vec3(0,1,1)), hash(i + vec3(1,1,1)), u.x), u.y),
+            u.z
+          );
+        }
+
+        float fbm(vec3 p) {
+          float value = 0.0;
+          float amplitude = 0.5;
+          for (int i = 0; i < 4; i++) {
+            value += amplitude * noise(p);
+            p *= 2.0;
+            amplitude *= 0.5;
+          }
+          return value;
+        }
+
+        void main() {
+          if (vOpacity <= 0.0) discard;
+
+          // Filamentary plasma structure drifting over the shell
+          float n = fbm(vLocal * 4.0 + vec3(vSeed * 11.0, time * 0.3, -time * 0.2));
+
+          // Semi-transparent shell: bright rim, brighter leading edge
+          float alpha = pow(vRim, 1.5) * (0.3 + 0.9 * n);
+          alpha *= 0.4 + 0.6 * smoothstep(-1.0, 1.0, vFront);
+
+          vec3 shellColor = color * (0.6 + 0.8 * n);
+          gl_FragColor = vec4(shellColor, alpha * opacity * vOpacity);
+        }
+      `,
+    });
+  }
+
+  /**
+   * Advances the plasma noise and syncs uniforms with the current options.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  animate(deltaTime: number): void {
+    const uniforms = this.ejectionMaterial.uniforms;
+    uniforms['time'].value += deltaTime;
+    uniforms['color'].value.copy(this.options.color);
+    uniforms['opacity'].value = this.options.opacity;
+  }
+
+  /**
+   * Releases the GPU resources of the CME material.
+   */
+  dispose(): void {
+    this.ejectionMaterial.dispose();
+  }
+}
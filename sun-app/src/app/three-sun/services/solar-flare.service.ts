@@ -8,30 +8,33 @@
  * Manages procedural solar flare shader materials used in the SolarFlare system.
  * Provides configurable noise-based visuals, emission glow, and radial falloff effects.
  * Includes two separate materials (falling back and flying away) for dual-layer animation.
+ * Both materials are shared by all flares of a sun and render instanced meshes
+ * from the SolarFlarePool; per-flare age, size, seed and opacity are instance attributes.
+ * A third material renders the plasma trail ribbons of the PlasmaTrailPool
+ * with the same colors.
  */
 
 import {
   AdditiveBlending,
   DoubleSide,
-  Mesh,
   ShaderMaterial,
   Uniform,
   Vector2,
-  Vector3,
   Color,
 } from 'three';
 import { ThreeSunService } from '../three-sun.service';
+import { SolarFlareShaderOptions } from '../classes/solar-flare';
 
 export class SolarFlareService {
-  /** Optional reference to a currently active flare mesh */
-  flareMesh?: Mesh;
-
   /** Shader material for the falling-back flare effect */
   public fallingBackMaterial: ShaderMaterial;
 
   /** Shader material for the outward flying flare effect */
   public flyAwayMaterial: ShaderMaterial;
 
+  /** Shader material for the plasma trail ribbons */
+  public trailMaterial: ShaderMaterial;
+
   /**
    * Constructs the solar flare shader manager with configurable visual options.
    * @param sun Reference to the ThreeSunService that owns the flare.
@@ -39,7 +42,7 @@ export class SolarFlareService {
    */
   constructor(
     private sun: ThreeSunService,
-    public options = {
+    public options: SolarFlareShaderOptions = {
       baseColor: new Color('#ffd000ff'),
       hotColor: new Color('#ffee00'),
       deepColor: new Color('#4b0000'),
@@ -55,10 +58,12 @@ export class SolarFlareService {
   ) {
     this.fallingBackMaterial = this.createFlareMaterial();
     this.flyAwayMaterial = this.createFlareMaterial();
+    this.trailMaterial = this.createTrailMaterial();
   }
 
   /**
-   * Creates a custom flare material with radial falloff, animated noise, and emissive coloring.
+   * Creates an instanced flare material with radial falloff, animated noise, and emissive coloring.
+   * Reads the per-instance attributes `flareAge`, `flareSize`, `flareSeed` and `flareOpacity`.
    * @returns The configured ShaderMaterial instance.
    */
   private createFlareMaterial(): ShaderMaterial {
@@ -83,17 +88,32 @@ export class SolarFlareService {
       side: DoubleSide,
       vertexShader: `
         uniform float time;
+
+        attribute float flareAge;
+        attribute float flareSize;
+        attribute float flareSeed;
+        attribute float flareOpacity;
+
         varying vec2 vUv;
         varying float vDistort;
+        varying float vTime;
+        varying float vSeed;
+        varying float vOpacity;
 
         void main() {
           vUv = uv;
-          float wave = sin(uv.y * 25.0 + time * 4.0) * 0.05;
-          float ripple = cos(uv.x * 15.0 + time * 2.0) * 0.05;
+          vTime = time + flareAge;
+          vSeed = flareSeed;
+          vOpacity = flareOpacity;
+
+          float wave = sin(uv.y * 25.0 + vTime * 4.0) * 0.05;
+          float ripple = cos(uv.x * 15.0 + vTime * 2.0) * 0.05;
           float displacement = wave + ripple;
           vDistort = displacement;
-          vec3 newPosition = position + normal * displacement;
-          gl_Position = projectionMatrix * modelViewMatrix * vec4(newPosition, 1.0);
+
+          // Unit geometry, scaled per instance; free pool slots have size 0
+          vec3 newPosition = (position + normal * displacement) * flareSize;
+          gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(newPosition, 1.0);
         }
       `,
       fragmentShader: `
@@ -102,7 +122,6 @@ export class SolarFlareService {
         uniform vec3 deepColor;
         uniform float emissiveStrength;
         uniform float opacity;
-        uniform float time;
         uniform float noiseScaleX;
         uniform float noiseScaleY;
         uniform float fadeStart;
@@ -111,6 +130,9 @@ export class SolarFlareService {
 
         varying vec2 vUv;
         varying float vDistort;
+        varying float vTime;
+        varying float vSeed;
+        varying float vOpacity;
 
         float hash(vec3 p) {
           return fract(sin(dot(p, vec3(127.1, 311.7, 74.7))) * 43758.5453);
@@ -143,9 +165,9 @@ export class SolarFlareService {
         void main() {
           vec2 uv = vUv - 0.5;
           float dist = length(uv);
-          if (dist > fadeEnd) discard;
+          if (dist > fadeEnd || vOpacity <= 0.0) discard;
 
-          vec3 p = vec3(uv.x * noiseScaleX, uv.y * noiseScaleY, time * 0.3);
+          vec3 p = vec3(uv.x * noiseScaleX + vSeed * 17.0, uv.y * noiseScaleY, vTime * 0.3);
           float n = fbm(p * distortionScale);
           n = pow(n, 1.5);
           n = clamp(n * 1.8 + 0.2, 0.0, 1.0);
@@ -158,6 +180,123 @@ export class SolarFlareService {
           alpha *= smoothstep(fadeStart, 0.0, dist);
           alpha *= (0.6 + 0.4 * n);
 
+          gl_FragColor = vec4(color * baseColor, alpha * opacity * vOpacity);
+        }
+      `,
+    });
+  }
+
+  /**
+   * Creates the instanced plasma trail material.
+   * Bends a unit strip along a quadratic curve, faces it towards the camera
+   * and reveals it from the spawn point over the trail's lifetime.
+   * Reads the per-instance attributes `trailShape` (length, width, bend)
+   * and `trailState` (progress, seed, turbulence).
+   * @returns The configured ShaderMaterial instance.
+   */
+  private createTrailMaterial(): ShaderMaterial {
+    return new ShaderMaterial({
+      uniforms: {
+        time: new Uniform(0),
+        baseColor: new Uniform(this.options.baseColor.clone()),
+        hotColor: new Uniform(this.options.hotColor.clone()),
+        deepColor: new Uniform(this.options.deepColor.clone()),
+        emissiveStrength: new Uniform(this.options.emissiveStrength),
+        opacity: new Uniform(this.options.opacity),
+      },
+      transparent: true,
+      depthWrite: false,
+      blending: AdditiveBlending,
+      side: DoubleSide,
+      vertexShader: `
+        uniform float time;
+
+        attribute vec3 trailShape;
+        attribute vec3 trailState;
+
+        varying vec2 vUv;
+        varying float vTime;
+        varying float vSeed;
+        varying float vFade;
+
+        // Curve leaving the origin along +Z and bending towards +X
+        vec3 curvePoint(float s) {
+          float len = trailShape.x;
+          float bend = trailShape.z;
+          vec3 control = vec3(bend * len * 0.4, 0.0, len * 0.9);
+          vec3 end = vec3(bend * len, 0.0, len * 0.4);
+          vec3 p = 2.0 * (1.0 - s) * s * control + s * s * end;
+
+          // Turbulent wobble, growing towards the free end
+          float phase = s * 12.0 + vTime * 3.0 + vSeed * 40.0;
+          p.y += sin(phase) * trailState.z * 0.1 * len * s;
+          p.x += cos(phase * 0.7) * trailState.z * 0.05 * len * s;
+          return p;
+        }
+
+        void main() {
+          vUv = uv;
+          vSeed = trailState.y;
+          vTime = time * (0.5 + trailState.z);
+          vFade = sin(clamp(trailState.x, 0.0, 1.0) * 3.14159265);
+
+          // Visible section travels outward: head leads, tail follows
+          float head = clamp(trailState.x * 1.5, 0.0, 1.0);
+          float tail = clamp(trailState.x * 1.5 - 0.6, 0.0, 1.0);
+          float s = mix(tail, head, uv.x);
+
+          mat4 modelViewInstance = modelViewMatrix * instanceMatrix;
+          vec4 viewPosition = modelViewInstance * vec4(curvePoint(s), 1.0);
+          vec3 tangent = (modelViewInstance * vec4(curvePoint(s + 0.01) - curvePoint(s - 0.01), 0.0)).xyz;
+
+          // Ribbon faces the camera; tapers towards the tail; free slots have width 0
+          vec3 side = normalize(cross(tangent, vec3(0.0, 0.0, 1.0)) + vec3(1e-5));
+          float width = trailShape.y * (0.3 + 0.7 * uv.x);
+          viewPosition.xyz += side * (uv.y - 0.5) * width;
+
+          gl_Position = projectionMatrix * viewPosition;
+        }
+      `,
+      fragmentShader: `
+        uniform vec3 baseColor;
+        uniform vec3 hotColor;
+        uniform vec3 deepColor;
+        uniform float emissiveStrength;
+        uniform float opacity;
+
+        varying vec2 vUv;
+        varying float vTime;
+        varying float vSeed;
+        varying float vFade;
+
+        float hash(vec2 p) {
+          return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+        }
+
+        float noise(vec2 p) {
+          vec2 i = floor(p);
+          vec2 f = fract(p);
+          vec2 u = f * f * (3.0 - 2.0 * f);
+          return mix(
+            mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x),
+            mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x),
+            u.y
+          );
+        }
+
+        void main() {
+          if (vFade <= 0.0) discard;
+
+          float across = 1.0 - abs(vUv.y - 0.5) * 2.0;
+          float n = noise(vec2(vUv.x * 8.0 - vTime * 2.0 + vSeed * 13.0, vUv.y * 3.0));
+
+          vec3 color = mix(deepColor, hotColor, clamp(n * 0.6 + vUv.x * 0.6, 0.0, 1.0));
+          color += smoothstep(0.7, 1.0, n) * vec3(1.5, 0.8, 0.3) * emissiveStrength;
+
+          // Soft edges, fading tail and lifetime fade
+          float alpha = pow(across, 1.5) * pow(vUv.x, 1.2) * (0.5 + 0.5 * n) * vFade;
+          if (alpha < 0.003) discard;
+
           gl_FragColor = vec4(color * baseColor, alpha * opacity);
         }
       `,
@@ -165,16 +304,14 @@ export class SolarFlareService {
   }
 
   /**
-   * Updates both flare materials each frame by syncing uniforms and advancing animation.
+   * Updates all flare materials each frame by syncing uniforms and advancing animation.
    * @param deltaTime Time delta since last animation frame (in seconds).
    */
   animate(deltaTime: number): void {
     const t = deltaTime * this.options.speed;
 
-    this.fallingBackMaterial.uniforms['time'].value += t;
-    this.flyAwayMaterial.uniforms['time'].value += t;
-
     for (const mat of [this.fallingBackMaterial, this.flyAwayMaterial]) {
+      mat.uniforms['time'].value += t;
       mat.uniforms['baseColor'].value.copy(this.options.baseColor);
       mat.uniforms['hotColor'].value.copy(this.options.hotColor);
       mat.uniforms['deepColor'].value.copy(this.options.deepColor);
@@ -186,5 +323,22 @@ export class SolarFlareService {
       mat.uniforms['fadeEnd'].value = this.options.fadeEnd;
       mat.uniforms['distortionScale'].value = this.options.distortionScale;
     }
+
+    const trail = this.trailMaterial;
+    trail.uniforms['time'].value += t;
+    trail.uniforms['baseColor'].value.copy(this.options.baseColor);
+    trail.uniforms['hotColor'].value.copy(this.options.hotColor);
+    trail.uniforms['deepColor'].value.copy(this.options.deepColor);
+    trail.uniforms['emissiveStrength'].value = this.options.emissiveStrength;
+    trail.uniforms['opacity'].value = this.options.opacity;
+  }
+
+  /**
+   * Releases the GPU resources of all flare materials.
+   */
+  dispose(): void {
+    this.fallingBackMaterial.dispose();
+    this.flyAwayMaterial.dispose();
+    this.trailMaterial.dispose();
   }
 }
@@ -191,7 +191,9 @@ export class SunCoronaService {
   animate(deltaTime: number): void {
     const uniforms = this.material.uniforms;
     uniforms['time'].value += deltaTime * this.options.animationSpeed;
-    uniforms['glowColor'].value.copy(this.options.glowColor);
+    uniforms['glowColor'].value.copy(
+      this.sun.getCoronaGlowColor(this.options)
+    );
     uniforms['flareStrength'].value = this.options.flareStrength;
     uniforms['baseGlowStrength'].value = this.options.baseGlowStrength;
     uniforms['radialFalloff'].value = this.options.radialFalloff;
@@ -205,4 +207,11 @@ export class SunCoronaService {
     uniforms['pulseAmplitude'].value = this.options.pulseAmplitude;
     uniforms['enablePulsing'].value = this.options.enablePulsing ? 1.0 : 0.0;
   }
+
+  /**
+   * Releases the GPU resources of the corona material.
+   */
+  dispose(): void {
+    this.material.dispose();
+  }
 }
@@ -0,0 +1,33 @@
+import { PerspectiveCamera, Scene } from 'three';
+import { ThreeSunService } from '../three-sun.service';
+
+describe('SunLensFlareService', () => {
+  let sun: ThreeSunService;
+
+  beforeEach(() => {
+    sun = new ThreeSunService();
+    sun.initSun(new Scene(), new PerspectiveCamera());
+  });
+
+  afterEach(() => {
+    sun.destroy();
+  });
+
+  it('should load each texture only once', () => {
+    const service = sun.lensFlareService;
+    expect(service.getTexture('assets/lensflare3.png')).toBe(
+      service.getTexture('assets/lensflare3.png')
+    );
+  });
+
+  it('should create element materials with the element texture', () => {
+    const element = sun.options.lensFlare.elements[0];
+    const material = sun.lensFlareService.createElementMaterial(element);
+
+    expect(material.uniforms['map'].value).toBe(
+      sun.lensFlareService.getTexture(element.texture)
+    );
+    expect(material.uniforms['color'].value.equals(element.color)).toBeTrue();
+    material.dispose();
+  });
+});
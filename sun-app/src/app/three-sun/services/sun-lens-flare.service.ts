@@ -0,0 +1,129 @@
+/**
+ * Sun Lens Flare Service
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Loads the lens flare textures and creates the screen-space materials of the
+ * lens flare elements. Elements are quads placed directly in clip space along
+ * the axis from the sun through the screen center, added on top of the scene.
+ */
+
+import {
+  AdditiveBlending,
+  Color,
+  ShaderMaterial,
+  SRGBColorSpace,
+  Texture,
+  Uniform,
+  Vector2,
+} from 'three';
+import { ThreeSunService } from '../three-sun.service';
+
+/**
+ * Lens flare textures bundled with the app.
+ */
+export const SUN_LENS_FLARE_TEXTURES = [
+  'assets/lensflare0.png',
+  'assets/lensflare3.png',
+];
+
+export interface SunLensFlareElementOptions {
+  /** Texture URL, e.g. one of `SUN_LENS_FLARE_TEXTURES` */
+  texture: string;
+  /** Size as a share of the viewport height */
+  size: number;
+  /** Position on the flare axis: 0 at the sun, 1 mirrored through the center */
+  distance: number;
+  color: Color;
+}
+
+export interface SunLensFlareOptions {
+  active: boolean;
+  /** Overall opacity of all elements */
+  intensity: number;
+  /**
+   * Distance from the screen edge (in normalized device coordinates)
+   * over which the flare fades out
+   */
+  edgeFade: number;
+  elements: SunLensFlareElementOptions[];
+}
+
+export class SunLensFlareService {
+  private textures = new Map<string, Texture>();
+
+  /**
+   * @param sun Reference to the ThreeSunService providing the texture loader.
+   * @param options Lens flare options (elements, intensity, edge fade).
+   */
+  constructor(
+    private sun: ThreeSunService,
+    public options: SunLensFlareOptions
+  ) {}
+
+  /**
+   * Returns the texture for a URL, loading it on first use.
+   */
+  getTexture(url: string): Texture {
+    let texture = this.textures.get(url);
+    if (!texture) {
+      texture = this.sun.textureLoader.load(url);
+      texture.colorSpace = SRGBColorSpace;
+      this.textures.set(url, texture);
+    }
+    return texture;
+  }
+
+  /**
+   * Creates the material of one element. Position, size and opacity are
+   * updated per frame by SunLensFlare.
+   */
+  createElementMaterial(element: SunLensFlareElementOptions): ShaderMaterial {
+    return new ShaderMaterial({
+      uniforms: {
+        map: new Uniform(this.getTexture(element.texture)),
+        color: new Uniform(element.color.clone()),
+        opacity: new Uniform(0),
+        screenPosition: new Uniform(new Vector2()),
+        scale: new Uniform(new Vector2()),
+      },
+      vertexShader: `
+        uniform vec2 screenPosition;
+        uniform vec2 scale;
+
+        varying vec2 vUv;
+
+        void main() {
+          vUv = uv;
+          gl_Position = vec4(position.xy * scale + screenPosition, 0.0, 1.0);
+        }
+      `,
+      fragmentShader: `
+        uniform sampler2D map;
+        uniform vec3 color;
+        uniform float opacity;
+
+        varying vec2 vUv;
+
+        void main() {
+          vec4 texel = texture2D(map, vUv);
+          gl_FragColor = vec4(texel.rgb * color, texel.a * opacity);
+        }
+      `,
+      transparent: true,
+      depthTest: false,
+      depthWrite: false,
+      blending: AdditiveBlending,
+    });
+  }
+
+  /**
+   * Releases all loaded textures.
+   */
+  dispose(): void {
+    this.textures.forEach((texture) => texture.dispose());
+    this.textures.clear();
+  }
+}
@@ -0,0 +1,32 @@
+import { ThreeSunService } from '../three-sun.service';
+import { SunProminenceService } from './sun-prominence.service';
+
+describe('SunProminenceService', () => {
+  let service: SunProminenceService;
+  let sun: ThreeSunService;
+
+  beforeEach(() => {
+    sun = new ThreeSunService();
+    service = new SunProminenceService(sun, sun.options.prominences);
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('should advance the plasma flow by flow speed', () => {
+    service.options.flowSpeed = 2;
+    service.animate(0.5);
+
+    expect(service.prominenceMaterial.uniforms['time'].value).toBe(1);
+  });
+
+  it('should sync colors from the options', () => {
+    service.options.hotColor.set('#00ff00');
+    service.animate(0);
+
+    expect(
+      service.prominenceMaterial.uniforms['hotColor'].value.getHexString()
+    ).toBe('00ff00');
+  });
+});
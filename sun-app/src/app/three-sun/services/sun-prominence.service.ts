@@ -0,0 +1,217 @@
+/**
+ * Sun Prominence Service
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Manages the shared shader material of magnetic loop prominences.
+ * Bends a unit tube into an arch between two surface footpoints,
+ * animates plasma flowing along it and lets it snap and erupt outward.
+ * Renders instanced meshes from the SunProminencePool; per-prominence shape
+ * and lifecycle state are instance attributes.
+ */
+
+import {
+  AdditiveBlending,
+  Color,
+  DoubleSide,
+  ShaderMaterial,
+  Uniform,
+} from 'three';
+import { ThreeSunService } from '../three-sun.service';
+
+/**
+ * Shape range of a single prominence, used for `min` and `max`.
+ */
+export interface SunProminenceShapeOptions {
+  /** Arch height above the surface in world units */
+  height: number;
+  /** Distance between both footpoints in world units */
+  separation: number;
+  /** Tube radius in world units */
+  thickness: number;
+  /** Total duration in seconds (growing, hanging, fading or erupting) */
+  lifetime: number;
+}
+
+export interface SunProminenceOptions {
+  active: boolean;
+  /** Maximum number of prominences alive at once (size of the instanced pool) */
+  poolSize: number;
+  /** Average number of new prominences per simulated second */
+  spawnRate: number;
+  /** Chance [0..1] that a prominence snaps and erupts instead of fading */
+  eruptionChance: number;
+  /** Speed of the plasma flowing along the tube */
+  flowSpeed: number;
+  emissiveStrength: number;
+  opacity: number;
+  baseColor: Color;
+  hotColor: Color;
+  min: SunProminenceShapeOptions;
+  max: SunProminenceShapeOptions;
+}
+
+export class SunProminenceService {
+  /** Shader material shared by all prominences of a sun */
+  public prominenceMaterial: ShaderMaterial;
+
+  /**
+   * @param sun Reference to the ThreeSunService that owns the prominences.
+   * @param options Prominence options (colors, flow speed, opacity).
+   */
+  constructor(
+    private sun: ThreeSunService,
+    public options: SunProminenceOptions
+  ) {
+    this.prominenceMaterial = this.createProminenceMaterial();
+  }
+
+  /**
+   * Creates the instanced prominence material.
+   * Reads the per-instance attributes `prominenceShape`
+   * (half separation, height, thickness, footpoint sag) and `prominenceState`
+   * (growth, eruption, opacity, seed).
+   * @returns The configured ShaderMaterial instance.
+   */
+  private createProminenceMaterial(): ShaderMaterial {
+    return new ShaderMaterial({
+      uniforms: {
+        time: new Uniform(0),
+        baseColor: new Uniform(this.options.baseColor.clone()),
+        hotColor: new Uniform(this.options.hotColor.clone()),
+        emissiveStrength: new Uniform(this.options.emissiveStrength),
+        opacity: new Uniform(this.options.opacity),
+      },
+      transparent: true,
+      depthWrite: false,
+      blending: AdditiveBlending,
+      side: DoubleSide,
+      vertexShader: `
+        attribute vec4 prominenceShape;
+        attribute vec4 prominenceState;
+
+        varying float vArc;
+        varying float vRim;
+        varying float vSeed;
+        varying float vOpacity;
+        varying float vEruption;
+
+        // Arch from footpoint (-x) to footpoint (+x), rising along +Z
+        vec3 archPoint(float t) {
+          float halfSeparation = prominenceShape.x;
+          float sag = prominenceShape.w;
+          float growth = prominenceState.x;
+          float eruption = prominenceState.y;
+
+          float lift = sin(t * 3.14159265);
+          float height = prominenceShape.y * growth;
+
+          // Shoulders bulge slightly outward, like field lines
+          float x = -cos(t * 3.14159265) * halfSeparation * (1.0 + 0.25 * lift);
+          float z = mix(-sag, height, lift);
+
+          // Snapped loops are flung outward, the apex fastest
+          x *= 1.0 + eruption;
+          z += eruption * eruption * prominenceShape.y * 4.0 * sqrt(lift);
+          return vec3(x, 0.0, z);
+        }
+
+        void main() {
+          // Unit cylinder: y runs along the tube, xz around it
+          float t = position.y + 0.5;
+          vArc = t;
+          vSeed = prominenceState.w;
+          vOpacity = prominenceState.z;
+          vEruption = prominenceState.y;
+
+          vec3 center = archPoint(t);
+          vec3 tangent = normalize(archPoint(t + 0.01) - archPoint(t - 0.01));
+          vec3 binormal = vec3(0.0, 1.0, 0.0);
+          vec3 normalDir = normalize(cross(binormal, tangent));
+
+          // Thinner at the footpoints and while growing; free slots have thickness 0
+          float radius = prominenceShape.z * (0.6 + 0.4 * sin(t * 3.14159265)) * (0.5 + 0.5 * prominenceState.x);
+          vec3 ring = normalDir * position.x + binormal * position.z;
+          vec4 viewPosition = modelViewMatrix * instanceMatrix * vec4(center + ring * radius, 1.0);
+
+          vec3 viewNormal = normalize(normalMatrix * mat3(instanceMatrix) * ring);
+          vRim = 1.0 - abs(dot(viewNormal, normalize(-viewPosition.xyz)));
+
+          gl_Position = projectionMatrix * viewPosition;
+        }
+      `,
+      fragmentShader: `
+        uniform float time;
+        uniform vec3 baseColor;
+        uniform vec3 hotColor;
+        uniform float emissiveStrength;
+        uniform float opacity;
+
+        varying float vArc;
+        varying float vRim;
+        varying float vSeed;
+        varying float vOpacity;
+        varying float vEruption;
+
+        float hash(vec2 p) {
+          return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+        }
+
+        float noise(vec2 p) {
+          vec2 i = floor(p);
+          vec2 f = fract(p);
+          vec2 u = f * f * (3.0 - 2.0 * f);
+          return mix(
+            mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x),
+            mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x),
+            u.y
+          );
+        }
+
+        void main() {
+          if (vOpacity <= 0.0) discard;
+
+          // Snapped loops open up at the apex
+          float gap = vEruption * 0.25;
+          float apexCut = smoothstep(gap, gap + 0.04, abs(vArc - 0.5));
+          if (vEruption > 0.0 && apexCut <= 0.0) discard;
+
+          // Plasma knots streaming from one footpoint to the other
+          float flow = noise(vec2(vArc * 14.0 - time, vSeed * 31.0));
+          flow = 0.6 * flow + 0.4 * noise(vec2(vArc * 37.0 - time * 1.7, vSeed * 17.0 + 5.0));
+
+          vec3 color = mix(baseColor, hotColor, clamp(flow * 1.2 - 0.1, 0.0, 1.0));
+          color *= 1.0 + smoothstep(0.65, 1.0, flow) * emissiveStrength;
+
+          // Optically thin tube: brighter towards the silhouette
+          float alpha = mix(0.35, 1.0, vRim) * (0.4 + 0.8 * flow);
+          alpha *= vEruption > 0.0 ? apexCut : 1.0;
+
+          gl_FragColor = vec4(color, alpha * opacity * vOpacity);
+        }
+      `,
+    });
+  }
+
+  /**
+   * Advances the plasma flow and syncs uniforms with the current options.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  animate(deltaTime: number): void {
+    const uniforms = this.prominenceMaterial.uniforms;
+    uniforms['time'].value += deltaTime * this.options.flowSpeed;
+    uniforms['baseColor'].value.copy(this.options.baseColor);
+    uniforms['hotColor'].value.copy(this.options.hotColor);
+    uniforms['emissiveStrength'].value = this.options.emissiveStrength;
+    uniforms['opacity'].value = this.options.opacity;
+  }
+
+  /**
+   * Releases the GPU resources of the prominence material.
+   */
+  dispose(): void {
+    this.prominenceMaterial.dispose();
+  }
+}
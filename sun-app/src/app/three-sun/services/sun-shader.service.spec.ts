@@ -1,6 +1,7 @@
 import { TestBed } from '@angular/core/testing';
 
 import { SunShaderService } from './sun-shader.service';
+import { ThreeSunService } from '../three-sun.service';
 
 describe('SunShaderService', () => {
   let service: SunShaderService;
@@ -14,3 +15,39 @@ describe('SunShaderService', () => {
     expect(service).toBeTruthy();
   });
 });
+
+describe('SunShaderService surface options', () => {
+  let service: SunShaderService;
+
+  beforeEach(() => {
+    const sun = new ThreeSunService();
+    service = new SunShaderService(sun, sun.options.shader);
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  it('should map the limb-darkening law to its shader index', () => {
+    const uniforms = service.sunMaterial.uniforms;
+    expect(uniforms['limbDarkeningModel'].value).toBe(2);
+
+    service.options.limbDarkeningModel = 'linear';
+    service.update(0);
+    expect(uniforms['limbDarkeningModel'].value).toBe(1);
+
+    service.options.limbDarkeningModel = 'none';
+    service.update(0);
+    expect(uniforms['limbDarkeningModel'].value).toBe(0);
+  });
+
+  it('should sync granulation settings', () => {
+    service.options.granulationStrength = 0;
+    service.options.supergranulationScale = 12;
+    service.update(0);
+
+    const uniforms = service.sunMaterial.uniforms;
+    expect(uniforms['granulationStrength'].value).toBe(0);
+    expect(uniforms['supergranulationScale'].value).toBe(12);
+  });
+});
@@ -7,11 +7,45 @@
  * Description:
  * Core procedural shader service for the sun surface using Three.js.
  * Includes animated FBM lava-like distortion, emissive bloom control,
+ * sunspots with umbra, penumbra and faculae, limb darkening, granulation,
+ * latitude-dependent drift for differential rotation,
  * and full runtime uniform customization.
  */
 
-import { ShaderMaterial, Vector2, Uniform, Color } from 'three';
+import {
+  ShaderMaterial,
+  Vector2,
+  Vector3,
+  Vector4,
+  Uniform,
+  Color,
+} from 'three';
 import { ThreeSunService } from '../three-sun.service';
+import { Sunspot } from '../classes/sunspot';
+
+/**
+ * Number of sunspots the surface shader can render at once.
+ */
+export const MAX_SUNSPOTS = 32;
+
+/**
+ * Limb-darkening law: I(mu) / I(1) with mu = cosine of the view angle.
+ * - `linear`: 1 - u1 (1 - mu)
+ * - `quadratic`: 1 - u1 (1 - mu) - u2 (1 - mu)^2
+ */
+export type SunLimbDarkeningModel = 'none' | 'linear' | 'quadratic';
+
+/**
+ * Largest latitude shear (in radians) of one drift cycle. The surface pattern is
+ * sampled twice with staggered cycles and crossfaded, so it never winds up.
+ */
+const MAX_SURFACE_SHEAR = Math.PI / 2;
+
+const LIMB_DARKENING_MODELS: SunLimbDarkeningModel[] = [
+  'none',
+  'linear',
+  'quadratic',
+];
 
 /**
  * Configuration options for the procedural sun surface shader.
@@ -81,11 +115,54 @@ export interface SunShaderOptions {
    * Maximum FBM value that reaches full emissive bloom.
    */
   emissiveThresholdMax: number;
+
+  /**
+   * Limb-darkening law applied by view angle (darker towards the disc edge).
+   */
+  limbDarkeningModel: SunLimbDarkeningModel;
+
+  /**
+   * Linear limb-darkening coefficient (u1).
+   */
+  limbDarkeningU1: number;
+
+  /**
+   * Quadratic limb-darkening coefficient (u2), only used by the quadratic law.
+   */
+  limbDarkeningU2: number;
+
+  /**
+   * Brightness contrast of the granulation cells (0 disables the layer).
+   */
+  granulationStrength: number;
+
+  /**
+   * Number of granulation cells across a unit of the surface direction.
+   */
+  granulationScale: number;
+
+  /**
+   * Speed at which granulation cells evolve.
+   */
+  granulationSpeed: number;
+
+  /**
+   * Brightness contrast of the supergranulation network (0 disables the layer).
+   */
+  supergranulationStrength: number;
+
+  /**
+   * Number of supergranulation cells across a unit of the surface direction.
+   */
+  supergranulationScale: number;
 }
 
 export class SunShaderService {
   public sunMaterial: ShaderMaterial;
 
+  /** Progress of the current drift cycle [0..1) */
+  private shearPhase = 0;
+
   constructor(
     private sun: ThreeSunService,
     public options: SunShaderOptions = {
@@ -102,6 +179,14 @@ export class SunShaderService {
       emissiveThresholdMin: 0.75, // Emissive ramp start
       emissiveThresholdMax: 1.0, // Emissive ramp end
       emissiveColor: new Color(1.5, 0.8, 0.3), // Emissive tint (bloom-boost color)
+      limbDarkeningModel: 'quadratic', // View-angle darkening law
+      limbDarkeningU1: 0.6, // Linear limb coefficient
+      limbDarkeningU2: 0.2, // Quadratic limb coefficient
+      granulationStrength: 0.15, // Granule contrast
+      granulationScale: 40, // Granule cell frequency
+      granulationSpeed: 0.3, // Granule evolution speed
+      supergranulationStrength: 0.06, // Network contrast
+      supergranulationScale: 6, // Supergranule cell frequency
     }
   ) {
     this.sunMaterial = this.createLavaShader();
@@ -132,17 +217,51 @@ export class SunShaderService {
         emissiveThresholdMin: new Uniform(this.options.emissiveThresholdMin),
         emissiveThresholdMax: new Uniform(this.options.emissiveThresholdMax),
         emissiveColor: new Uniform(this.options.emissiveColor.clone()),
+
+        // xyz: direction in mesh space, w: angular radius (0 = unused)
+        sunspots: new Uniform(
+          Array.from({ length: MAX_SUNSPOTS }, () => new Vector4())
+        ),
+        sunspotDarkness: new Uniform(0),
+        faculaeStrength: new Uniform(0),
+
+        limbDarkeningModel: new Uniform(this.getLimbDarkeningModelIndex()),
+        limbDarkeningU1: new Uniform(this.options.limbDarkeningU1),
+        limbDarkeningU2: new Uniform(this.options.limbDarkeningU2),
+        granulationStrength: new Uniform(this.options.granulationStrength),
+        granulationScale: new Uniform(this.options.granulationScale),
+        granulationSpeed: new Uniform(this.options.granulationSpeed),
+        supergranulationStrength: new Uniform(
+          this.options.supergranulationStrength
+        ),
+        supergranulationScale: new Uniform(this.options.supergranulationScale),
+
+        // Differential rotation, see advectSurface
+        rotationPole: new Uniform(new Vector3(0, 1, 0)),
+        equatorialDrift: new Uniform(0),
+        latitudeShear: new Uniform(new Vector2()),
+        shearBlend: new Uniform(0),
+      },
+      defines: {
+        MAX_SUNSPOTS,
       },
       vertexShader: `
         varying vec3 vPosition;
+        varying vec3 vViewNormal;
+        varying vec3 vViewDirection;
 
         void main() {
           vPosition = position;
-          gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+          vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+          vViewNormal = normalMatrix * normal;
+          vViewDirection = -mvPosition.xyz;
+          gl_Position = projectionMatrix * mvPosition;
         }
       `,
       fragmentShader: `
         varying vec3 vPosition;
+        varying vec3 vViewNormal;
+        varying vec3 vViewDirection;
 
         // Uniform parameters
         uniform float time;
@@ -159,6 +278,21 @@ export class SunShaderService {
         uniform float emissiveThresholdMin;
         uniform float emissiveThresholdMax;
         uniform vec3 emissiveColor;
+        uniform vec4 sunspots[MAX_SUNSPOTS];
+        uniform float sunspotDarkness;
+        uniform float faculaeStrength;
+        uniform int limbDarkeningModel;
+        uniform float limbDarkeningU1;
+        uniform float limbDarkeningU2;
+        uniform float granulationStrength;
+        uniform float granulationScale;
+        uniform float granulationSpeed;
+        uniform float supergranulationStrength;
+        uniform float supergranulationScale;
+        uniform vec3 rotationPole;
+        uniform float equatorialDrift;
+        uniform vec2 latitudeShear;
+        uniform float shearBlend;
 
         // 3D noise helpers
         float hash(vec3 p) {
@@ -189,14 +323,65 @@ export class SunShaderService {
           return value;
         }
 
-        void main() {
+        vec3 hash3(vec3 p) {
+          p = vec3(
+            dot(p, vec3(127.1, 311.7, 74.7)),
+            dot(p, vec3(269.5, 183.3, 246.1)),
+            dot(p, vec3(113.5, 271.9, 124.6))
+          );
+          return fract(sin(p) * 43758.5453);
+        }
+
+        // Distances to the nearest and second-nearest animated cell centers
+        vec2 cellular(vec3 p, float t) {
+          vec3 i = floor(p);
+          vec3 f = fract(p);
+          float f1 = 8.0;
+          float f2 = 8.0;
+          for (int x = -1; x <= 1; x++) {
+            for (int y = -1; y <= 1; y++) {
+              for (int z = -1; z <= 1; z++) {
+                vec3 cell = vec3(float(x), float(y), float(z));
+                vec3 center = 0.5 + 0.5 * sin(t + 6.2831 * hash3(i + cell));
+                float d = length(cell + center - f);
+                if (d < f1) {
+                  f2 = f1;
+                  f1 = d;
+                } else if (d < f2) {
+                  f2 = d;
+                }
+              }
+            }
+          }
+          return vec2(f1, f2);
+        }
+
+        // Bright convection cells separated by dark lanes [0..1]
+        float convectionCells(vec3 p, float t) {
+          vec2 c = cellular(p, t);
+          float lanes = smoothstep(0.0, 0.2, c.y - c.x);
+          return lanes * (1.0 - 0.5 * c.x);
+        }
+
+        // Turns a mesh-space position back around the pole by the drift of its latitude
+        vec3 advect(vec3 position, float shear) {
+          vec3 direction = normalize(position);
+          float sinLatitude = dot(direction, rotationPole);
+          float angle = -(equatorialDrift + shear * sinLatitude * sinLatitude);
+          return position * cos(angle)
+            + cross(rotationPole, position) * sin(angle)
+            + rotationPole * dot(rotationPole, position) * (1.0 - cos(angle));
+        }
+
+        // FBM lava, emissive glow and granulation at a mesh-space position
+        vec3 surfacePattern(vec3 position, out float n) {
           // Animate FBM position along +X and warp it radially
-          vec3 p = vPosition * fbmFrequency + vec3(time * 0.1, time * 0.07, time * 0.13);
+          vec3 p = position * fbmFrequency + vec3(time * 0.1, time * 0.07, time * 0.13);
 
 
           p += vec3(time * distortionStrength);
 
-          float n = fbm(p);
+          n = fbm(p);
 
           // Brightness shaping: contrast, scale, offset
           n = pow(n, contrastPower);
@@ -209,6 +394,62 @@ export class SunShaderService {
           float emissive = smoothstep(emissiveThresholdMin, emissiveThresholdMax, n) * emissiveStrength;
           color += emissive * emissiveColor;
 
+          vec3 direction = normalize(position);
+
+          // Granulation and supergranulation on top of the FBM
+          if (granulationStrength > 0.0) {
+            float granules = convectionCells(direction * granulationScale, time * granulationSpeed);
+            color *= 1.0 + granulationStrength * (granules - 0.5) * 2.0;
+          }
+          if (supergranulationStrength > 0.0) {
+            float supergranules = convectionCells(direction * supergranulationScale, time * granulationSpeed * 0.2);
+            color *= 1.0 + supergranulationStrength * (supergranules - 0.5) * 2.0;
+          }
+
+          return color;
+        }
+
+        void main() {
+          // Surface pattern, crossfaded between two staggered drift cycles
+          float n;
+          vec3 color = surfacePattern(advect(vPosition, latitudeShear.x), n);
+          if (shearBlend > 0.0) {
+            float n2;
+            vec3 color2 = surfacePattern(advect(vPosition, latitudeShear.y), n2);
+            color = mix(color, color2, shearBlend);
+            n = mix(n, n2, shearBlend);
+          }
+
+          // Sunspots drift on the CPU, so they use the undrifted surface
+          vec3 surfaceNormal = normalize(vPosition);
+
+          // Sunspots: dark umbra, filamentary penumbra, bright faculae ring
+          float umbra = 0.0;
+          float penumbra = 0.0;
+          float faculae = 0.0;
+          for (int i = 0; i < MAX_SUNSPOTS; i++) {
+            vec4 spot = sunspots[i];
+            if (spot.w <= 0.0) continue;
+            float d = acos(clamp(dot(surfaceNormal, spot.xyz), -1.0, 1.0));
+            umbra = max(umbra, 1.0 - smoothstep(spot.w * 0.35, spot.w * 0.5, d));
+            penumbra = max(penumbra, 1.0 - smoothstep(spot.w * 0.8, spot.w, d));
+            faculae = max(faculae, smoothstep(spot.w * 0.9, spot.w * 1.4, d) * (1.0 - smoothstep(spot.w * 1.4, spot.w * 2.6, d)));
+          }
+          float filaments = 0.75 + 0.25 * noise(vPosition * fbmFrequency * 4.0);
+          color *= 1.0 - penumbra * sunspotDarkness * 0.55 * filaments;
+          color = mix(color, deepColor * 0.2, umbra * sunspotDarkness);
+          color += faculae * faculaeStrength * hotColor * (0.5 + n);
+
+          // Limb darkening by view angle
+          float mu = clamp(dot(normalize(vViewNormal), normalize(vViewDirection)), 0.0, 1.0);
+          float limb = 1.0;
+          if (limbDarkeningModel == 1) {
+            limb = 1.0 - limbDarkeningU1 * (1.0 - mu);
+          } else if (limbDarkeningModel == 2) {
+            limb = 1.0 - limbDarkeningU1 * (1.0 - mu) - limbDarkeningU2 * (1.0 - mu) * (1.0 - mu);
+          }
+          color *= max(limb, 0.0);
+
           // Final base color mod and intensity
           color *= baseColor * brightness;
 
@@ -228,10 +469,11 @@ export class SunShaderService {
 
     u['time'].value += deltaTime;
 
-    u['baseColor'].value.copy(this.options.baseColor);
-    u['hotColor'].value.copy(this.options.hotColor);
-    u['deepColor'].value.copy(this.options.deepColor);
-    u['emissiveColor'].value.copy(this.options.emissiveColor);
+    const colors = this.sun.getSurfaceColors(this.options);
+    u['baseColor'].value.copy(colors.baseColor);
+    u['hotColor'].value.copy(colors.hotColor);
+    u['deepColor'].value.copy(colors.deepColor);
+    u['emissiveColor'].value.copy(colors.emissiveColor);
 
     // Optionally animate distortionStrength over time
     u['distortionStrength'].value = this.options.distortionStrength;
@@ -246,5 +488,105 @@ export class SunShaderService {
 
     u['emissiveThresholdMin'].value = this.options.emissiveThresholdMin;
     u['emissiveThresholdMax'].value = this.options.emissiveThresholdMax;
+
+    u['limbDarkeningModel'].value = this.getLimbDarkeningModelIndex();
+    u['limbDarkeningU1'].value = this.options.limbDarkeningU1;
+    u['limbDarkeningU2'].value = this.options.limbDarkeningU2;
+    u['granulationStrength'].value = this.options.granulationStrength;
+    u['granulationScale'].value = this.options.granulationScale;
+    u['granulationSpeed'].value = this.options.granulationSpeed;
+    u['supergranulationStrength'].value = this.options.supergranulationStrength;
+    u['supergranulationScale'].value = this.options.supergranulationScale;
+  }
+
+  /**
+   * Shader index of the limb-darkening law (unknown laws fall back to `none`).
+   */
+  private getLimbDarkeningModelIndex(): number {
+    return Math.max(
+      LIMB_DARKENING_MODELS.indexOf(this.options.limbDarkeningModel),
+      0
+    );
+  }
+
+  /**
+   * Advances the latitude-dependent drift of the surface pattern.
+   * Rates are relative to the sun mesh, which already turns rigidly.
+   * @param deltaTime Simulation delta time (in seconds).
+   * @param pole Rotation axis in the local space of the sun mesh.
+   * @param equatorialRate Drift at the equator (in radians per second).
+   * @param polarRate Drift at the poles (in radians per second).
+   */
+  advectSurface(
+    deltaTime: number,
+    pole: Vector3,
+    equatorialRate: number,
+    polarRate: number
+  ): void {
+    const u = this.sunMaterial.uniforms;
+    const shearRate = polarRate - equatorialRate;
+
+    u['rotationPole'].value.copy(pole);
+    u['equatorialDrift'].value =
+      (u['equatorialDrift'].value + equatorialRate * deltaTime) % (Math.PI * 2);
+
+    // Two cycles half a period apart; each fades out before its shear resets
+    this.shearPhase =
+      (this.shearPhase + (Math.abs(shearRate) * deltaTime) / MAX_SURFACE_SHEAR) %
+      1;
+    const shear = Math.sign(shearRate) * MAX_SURFACE_SHEAR;
+    u['latitudeShear'].value.set(
+      this.shearPhase * shear,
+      ((this.shearPhase + 0.5) % 1) * shear
+    );
+    u['shearBlend'].value = Math.abs(this.shearPhase * 2 - 1);
+  }
+
+  /**
+   * Pins the surface pattern to the sun mesh again.
+   * @param pole Rotation axis in the local space of the sun mesh.
+   */
+  resetSurfaceDrift(pole: Vector3): void {
+    const u = this.sunMaterial.uniforms;
+    this.shearPhase = 0;
+    u['rotationPole'].value.copy(pole);
+    u['equatorialDrift'].value = 0;
+    u['latitudeShear'].value.set(0, 0);
+    u['shearBlend'].value = 0;
+  }
+
+  /**
+   * Uploads sunspots to the shader. Spots beyond `MAX_SUNSPOTS` are ignored.
+   * @param spots Spots in the local space of the sun mesh.
+   * @param darkness Darkness of umbra and penumbra [0..1].
+   * @param faculaeStrength Brightening of the faculae around the spots.
+   */
+  setSunspots(
+    spots: Sunspot[],
+    darkness: number,
+    faculaeStrength: number
+  ): void {
+    const u = this.sunMaterial.uniforms;
+    const slots: Vector4[] = u['sunspots'].value;
+
+    slots.forEach((slot, i) => {
+      const spot = spots[i];
+      if (spot) {
+        const { x, y, z } = spot.direction;
+        slot.set(x, y, z, spot.radius);
+      } else {
+        slot.set(0, 0, 0, 0);
+      }
+    });
+
+    u['sunspotDarkness'].value = darkness;
+    u['faculaeStrength'].value = faculaeStrength;
+  }
+
+  /**
+   * Releases the GPU resources of the sun material.
+   */
+  dispose(): void {
+    this.sunMaterial.dispose();
   }
 }
@@ -0,0 +1,77 @@
+import { MathUtils, PerspectiveCamera, Scene, Vector4 } from 'three';
+import { ThreeSunService } from '../three-sun.service';
+
+describe('SunspotService', () => {
+  let sun: ThreeSunService;
+
+  beforeEach(() => {
+    sun = new ThreeSunService();
+    sun.options.seed = 7;
+    sun.initSun(new Scene(), new PerspectiveCamera());
+  });
+
+  afterEach(() => {
+    sun.destroy();
+  });
+
+  it('should keep the configured number of groups alive', () => {
+    sun.sunspotService.update(0);
+    expect(sun.sunspotService.groupCount).toBe(sun.options.sunspots.count);
+
+    sun.sunspotService.update(sun.options.sunspots.max.lifetime);
+    expect(sun.sunspotService.groupCount).toBe(sun.options.sunspots.count);
+  });
+
+  it('should place groups in the latitude bands of both hemispheres', () => {
+    sun.options.sunspots.count = 12;
+    sun.sunspotService.update(0);
+
+    const { min, max } = sun.options.sunspots;
+    for (const spot of sun.sunspotService.spots) {
+      const latitude = Math.abs(MathUtils.radToDeg(spot.latitude));
+      // Followers are tilted slightly off the group latitude
+      expect(latitude).toBeGreaterThan(min.latitude - 5);
+      expect(latitude).toBeLessThan(max.latitude + 5);
+    }
+  });
+
+  it('should report spot positions on the surface in world space', () => {
+    sun.root.position.set(10, 0, 0);
+    sun.sunspotService.update(0);
+
+    const spot = sun.sunspotService.spots[0];
+    const position = sun.sunspotService.getWorldPosition(spot);
+    expect(position.distanceTo(sun.root.position)).toBeCloseTo(
+      sun.sunGeometry.parameters.radius,
+      5
+    );
+  });
+
+  it('should upload spots to the surface shader', () => {
+    sun.sunspotService.update(10);
+
+    const slots: Vector4[] = sun.shader.sunMaterial.uniforms['sunspots'].value;
+    const spot = sun.sunspotService.spots[0];
+    expect(slots[0].w).toBe(spot.radius);
+
+    sun.options.sunspots.active = false;
+    sun.sunspotService.update(0);
+    expect(slots.every((slot) => slot.w === 0)).toBeTrue();
+  });
+
+  it('should drift spots by latitude in differential rotation', () => {
+    sun.options.rotation.differential.active = true;
+    sun.sunspotService.update(0);
+
+    const spots = [...sun.sunspotService.spots];
+    const longitudes = spots.map((spot) => spot.longitude);
+    sun.sunspotService.update(0.5);
+
+    spots.forEach((spot, i) => {
+      expect(spot.longitude - longitudes[i]).toBeCloseTo(
+        sun.getSurfaceDrift(spot.latitude) * 0.5,
+        6
+      );
+    });
+  });
+});
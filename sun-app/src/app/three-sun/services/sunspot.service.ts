@@ -0,0 +1,165 @@
+/**
+ * Sunspot Service
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Simulates sunspot groups (active regions) on the sun surface.
+ * Groups appear in the typical latitude bands of both hemispheres, grow and decay,
+ * and are replaced when they die. Spot positions live in the local space of the
+ * sun mesh, so they drift with its rotation (and by latitude in differential rotation),
+ * and are uploaded to the surface shader (dark umbra, lighter penumbra, bright faculae)
+ * every frame.
+ */
+
+import { MathUtils, Vector3 } from 'three';
+import { ThreeSunService } from '../three-sun.service';
+import { Sunspot } from '../classes/sunspot';
+
+/**
+ * Range of a sunspot group, used for `min` and `max`.
+ */
+export interface SunspotShapeOptions {
+  /** Angular radius of the leading spot (in degrees) */
+  size: number;
+  /** Lifetime of the group (in seconds) */
+  lifetime: number;
+  /** Distance from the equator (in degrees), mirrored to both hemispheres */
+  latitude: number;
+}
+
+export interface SunspotOptions {
+  active: boolean;
+  /** Number of sunspot groups kept on the surface */
+  count: number;
+  /** Maximum number of spots per group */
+  spotsPerGroup: number;
+  /** Darkness of umbra and penumbra [0..1] */
+  darkness: number;
+  /** Brightening of the faculae around the spots */
+  faculaeStrength: number;
+  min: SunspotShapeOptions;
+  max: SunspotShapeOptions;
+}
+
+export class SunspotService {
+  /**
+   * Spots currently on the surface. Only the first `MAX_SUNSPOTS` (see SunShaderService) are rendered.
+   */
+  spots: Sunspot[] = [];
+
+  private nextGroup = 0;
+  private filled = false;
+
+  /**
+   * @param sun Reference to the ThreeSunService that owns the surface.
+   * @param options Sunspot options (count, size, lifetime, darkness).
+   */
+  constructor(private sun: ThreeSunService, public options: SunspotOptions) {}
+
+  /** Number of sunspot groups currently alive */
+  get groupCount(): number {
+    return new Set(this.spots.map((spot) => spot.group)).size;
+  }
+
+  /**
+   * Advances all spots, replaces dead groups and uploads the spots to the surface shader.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  update(deltaTime: number): void {
+    if (this.options.active) {
+      this.spots.forEach((spot) => {
+        spot.animate(deltaTime);
+        spot.longitude += this.sun.getSurfaceDrift(spot.latitude) * deltaTime;
+        this.setDirection(spot);
+      });
+      this.spots = this.spots.filter((spot) => !spot.expired);
+
+      // The first fill starts groups at random ages, so they do not all grow at once
+      while (this.groupCount < this.options.count) {
+        this.spawnGroup(!this.filled);
+      }
+      this.filled = true;
+    } else {
+      this.spots = [];
+      this.filled = false;
+    }
+
+    this.sun.shader.setSunspots(
+      this.spots,
+      this.options.darkness,
+      this.options.faculaeStrength
+    );
+  }
+
+  /**
+   * Returns the current world position of a spot center on the surface.
+   */
+  getWorldPosition(spot: Sunspot, target = new Vector3()): Vector3 {
+    return this.sun.sunMesh.localToWorld(
+      target
+        .copy(spot.direction)
+        .multiplyScalar(this.sun.sunGeometry.parameters.radius)
+    );
+  }
+
+  /**
+   * Spawns an active region: a large leading spot followed by smaller spots
+   * along the east-west direction, tilted towards the equator (Joy's law).
+   * @param randomAge Starts the group at a random point of its life.
+   */
+  private spawnGroup(randomAge: boolean): void {
+    const { min, max } = this.options;
+    const group = this.nextGroup++;
+    const hemisphere = this.sun.random.next() < 0.5 ? -1 : 1;
+    const latitude =
+      hemisphere *
+      MathUtils.degToRad(this.sun.randomBetween(min.latitude, max.latitude));
+    const longitude = this.sun.random.next() * Math.PI * 2;
+    const size = MathUtils.degToRad(this.sun.randomBetween(min.size, max.size));
+    const lifetime = this.sun.randomBetween(min.lifetime, max.lifetime);
+    const tilt = MathUtils.degToRad(this.sun.randomBetween(3, 12));
+    const spotsPerGroup = Math.max(this.options.spotsPerGroup, 1);
+    const count = 1 + Math.floor(this.sun.random.next() * spotsPerGroup);
+    const age = randomAge ? this.sun.random.next() * lifetime * 0.5 : 0;
+
+    const spacing = size * 2.4;
+    for (let i = 0; i < count; i++) {
+      // Leading spot first (east), followers trail behind it
+      const offset = ((count - 1) / 2 - i) * spacing;
+      const spot = new Sunspot(
+        group,
+        latitude - hemisphere * Math.tan(tilt) * offset,
+        longitude + offset / Math.max(Math.cos(latitude), 0.2),
+        i === 0 ? size : size * this.sun.randomBetween(0.4, 0.8),
+        i === 0 ? lifetime : lifetime * this.sun.randomBetween(0.5, 0.9)
+      );
+      this.setDirection(spot);
+      spot.animate(Math.min(age, spot.lifetime * 0.9));
+      this.spots.push(spot);
+    }
+  }
+
+  /**
+   * Converts latitude and longitude of a spot into a direction, using the sun's
+   * rotation direction as the pole.
+   */
+  private setDirection(spot: Sunspot): void {
+    const pole = this.sun.getRotationPole();
+
+    // Two axes spanning the equatorial plane
+    const equatorX = new Vector3(1, 0, 0);
+    if (Math.abs(pole.dot(equatorX)) > 0.99) equatorX.set(0, 0, 1);
+    equatorX.projectOnPlane(pole).normalize();
+    const equatorY = new Vector3().crossVectors(pole, equatorX);
+
+    spot.direction
+      .copy(equatorX)
+      .multiplyScalar(Math.cos(spot.longitude))
+      .addScaledVector(equatorY, Math.sin(spot.longitude))
+      .multiplyScalar(Math.cos(spot.latitude))
+      .addScaledVector(pole, Math.sin(spot.latitude))
+      .normalize();
+  }
+}
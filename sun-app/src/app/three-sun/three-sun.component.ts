@@ -16,29 +16,29 @@ import {
   AfterViewInit,
   ViewChild,
   OnDestroy,
+  Input,
 } from '@angular/core';
 
-import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
-import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
-import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
 import {
-  Color,
   PerspectiveCamera,
   Scene,
   SRGBColorSpace,
-  Vector2,
   Vector3,
   WebGLRenderer,
-  WebGLRenderTarget,
 } from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { NgThreeSunService } from './ng-three-sun.service';
+import { ThreeSunOptions } from './three-sun.service';
+import { ThreeSunSystem } from './three-sun.system';
+import { SunPostProcessing } from './classes/sun-post-processing';
+import { SunBackground } from './classes/sun-background';
 
 @Component({
   selector: 'app-three-sun',
   standalone: false,
   templateUrl: './three-sun.component.html',
   styleUrls: ['./three-sun.component.scss'],
+  providers: [NgThreeSunService],
 })
 export class ThreeSunComponent implements AfterViewInit, OnDestroy {
   @ViewChild('sunContainer', { static: false }) sunContainer!: ElementRef;
@@ -47,26 +47,36 @@ export class ThreeSunComponent implements AfterViewInit, OnDestroy {
   scene!: Scene;
   camera!: PerspectiveCamera;
   renderer!: WebGLRenderer;
-  composer!: EffectComposer;
-  renderTarget!: WebGLRenderTarget;
-  renderPass!: RenderPass;
-  bloomPass!: UnrealBloomPass;
+  controls!: OrbitControls;
 
+  /**
+   * Renders every frame through the pass stack of `sun.options.postProcessing`.
+   */
+  postProcessing!: SunPostProcessing;
+
+  /**
+   * Starfield, nebula or image behind the scene, from `sun.options.background`.
+   */
+  background!: SunBackground;
 
   /**
-   * Settings for camera, background, and post-processing effects.
+   * Additional suns rendered in the same scene (e.g. binary systems).
+   * Each entry overrides top-level option blocks of a default sun.
+   */
+  @Input() companions: Partial<ThreeSunOptions>[] = [];
+
+  /**
+   * Holds the companion suns. The primary sun is the injected service.
+   */
+  companionSystem!: ThreeSunSystem;
+
+  /**
+   * Settings for the camera.
+   * Background and post-processing are part of the sun options
+   * (`options.background`, `options.postProcessing`).
    */
   sceneOptions = {
     camera: { fov: 75, near: 0.1, far: 1000, position: new Vector3(0, 0, 5) },
-    backgroundColor: new Color(0x00000000),
-    postProcessing: {
-      bloom: {
-        active: false,
-        strength: 0.1,
-        radius: 0.5,
-        threshold: 0,
-      },
-    },
   };
 
   private lastFrameTime = performance.now();
@@ -96,18 +106,29 @@ export class ThreeSunComponent implements AfterViewInit, OnDestroy {
    * Angular lifecycle hook — cleans up resources.
    */
   ngOnDestroy(): void {
-    this.sun.destroy();
     cancelAnimationFrame(this.animationId);
+    this.companionSystem?.destroy();
+    this.sun.destroy();
+    this.sun.stats.dom.remove();
+
+    this.controls?.dispose();
+    this.postProcessing?.dispose();
+    this.background?.dispose();
+
+    if (this.renderer) {
+      this.renderer.dispose();
+      this.renderer.domElement.remove();
+    }
   }
 
   /**
-   * Updates renderer and composer size to match the container.
+   * Updates renderer and post-processing size to match the container.
    */
   resize(): void {
     this.width = this.sunContainer.nativeElement.clientWidth;
     this.height = this.sunContainer.nativeElement.clientHeight;
     this.renderer.setSize(this.width, this.height);
-    this.composer.setSize(this.width, this.height);
+    this.postProcessing.setSize(this.width, this.height);
     this.camera.aspect = this.width / this.height;
     this.camera.updateProjectionMatrix();
   }
@@ -124,7 +145,10 @@ export class ThreeSunComponent implements AfterViewInit, OnDestroy {
     this.height = this.sunContainer.nativeElement.clientHeight;
 
     this.scene = new Scene();
-    this.scene.background = this.sceneOptions.backgroundColor;
+    this.background = new SunBackground(
+      this.scene,
+      this.sun.options.background
+    );
 
     this.camera = new PerspectiveCamera(
       this.sceneOptions.camera.fov,
@@ -136,49 +160,42 @@ export class ThreeSunComponent implements AfterViewInit, OnDestroy {
 
     this.renderer = new WebGLRenderer({ antialias: true });
     this.renderer.outputColorSpace = SRGBColorSpace;
+    // Only used while the sun light casts shadows (`options.planets.shadows`)
+    this.renderer.shadowMap.enabled = true;
     this.renderer.setSize(this.width, this.height);
     this.sunContainer.nativeElement.appendChild(this.renderer.domElement);
 
     // Create and initialize the sun
     this.sun.initSun(this.scene, this.camera);
 
-    this.renderTarget = new WebGLRenderTarget(this.width, this.height);
-    this.composer = new EffectComposer(this.renderer, this.renderTarget);
-    this.renderPass = new RenderPass(this.scene, this.camera);
-    this.composer.addPass(this.renderPass);
+    this.companionSystem = new ThreeSunSystem(this.scene, this.camera);
+    for (const companion of this.companions) {
+      this.companionSystem.addSun((options) => Object.assign(options, companion));
+    }
+
+    this.postProcessing = new SunPostProcessing(
+      this.renderer,
+      this.scene,
+      this.camera,
+      this.sun.options.postProcessing,
+      this.sun
+    );
 
-    this.createPostProcessing();
     this.initControls();
     this.resize();
     this.animate();
   }
 
-  /**
-   * Initializes bloom post-processing effects.
-   */
-  createPostProcessing(): void {
-    this.bloomPass = new UnrealBloomPass(
-      new Vector2(this.width, this.height),
-      this.sceneOptions.postProcessing.bloom.strength,
-      this.sceneOptions.postProcessing.bloom.radius,
-      this.sceneOptions.postProcessing.bloom.threshold
-    );
-
-    if (this.sceneOptions.postProcessing.bloom.active) {
-      this.composer.addPass(this.bloomPass);
-    }
-  }
-
   /**
    * Enables orbit controls for camera interaction.
    */
   initControls(): void {
-    const controls = new OrbitControls(
+    this.controls = new OrbitControls(
       this.camera,
       this.sunContainer.nativeElement
     );
-    controls.minDistance = 2;
-    controls.maxDistance = 10;
+    this.controls.minDistance = 2;
+    this.controls.maxDistance = 20;
   }
 
   /**
@@ -191,20 +208,15 @@ export class ThreeSunComponent implements AfterViewInit, OnDestroy {
     this.lastFrameTime = now;
 
     this.sun.animate(this.deltaTime);
-    this.updatePostProcessing(this.deltaTime);
-
-    this.renderer.render(this.scene, this.camera);
-    this.composer.render();
-
+    // Keeps the camera aimed at the target while the timeline moves it
+    this.controls.update();
+    // Companions follow the primary sun's clock (pause, time scale, steps)
+    this.companionSystem.simulate(this.sun.clock.deltaTime);
+
+    // The sun options may be replaced at runtime
+    this.background.options = this.sun.options.background;
+    this.background.update(this.deltaTime);
+    this.postProcessing.options = this.sun.options.postProcessing;
+    this.postProcessing.render(this.deltaTime);
   };
-
-  /**
-   * Updates bloom effect settings each frame.
-   * @param deltaTime Time since last frame.
-   */
-  private updatePostProcessing(deltaTime: number): void {
-    this.bloomPass.threshold = this.sceneOptions.postProcessing.bloom.threshold;
-    this.bloomPass.strength = this.sceneOptions.postProcessing.bloom.strength;
-    this.bloomPass.radius = this.sceneOptions.postProcessing.bloom.radius;
-  }
 }
@@ -1,5 +1,6 @@
 import { Color, Vector3 } from 'three';
 import { ThreeSunOptions } from './three-sun.service';
+import { createInnerSolarSystem } from './classes/sun-planetary-system';
 
 /**
  * Global configuration class for the Three.js Sun system.
@@ -17,9 +18,24 @@ export class ThreeSunConfig {
   };
 
   options: ThreeSunOptions = {
+    geometry: { ...this.geometry },
+    position: new Vector3(0, 0, 0),
+    orbit: {
+      active: false,
+      barycenter: new Vector3(0, 0, 0),
+      radius: 4,
+      period: 30,
+      phase: 0,
+      inclination: 0,
+    },
     rotation: {
       direction: new Vector3(0, 1, 0),
       speed: 0,
+      differential: {
+        active: false,
+        equatorialPeriod: 60,
+        polarPeriod: 84,
+      },
     },
     shader: {
       baseColor: this.baseColor,
@@ -35,9 +51,40 @@ export class ThreeSunConfig {
       emissiveThresholdMin: 0.2,
       emissiveThresholdMax: 0.8,
       emissiveColor: this.emissiveColor,
+      limbDarkeningModel: 'quadratic',
+      limbDarkeningU1: 0.6,
+      limbDarkeningU2: 0.2,
+      granulationStrength: 0.15,
+      granulationScale: 40,
+      granulationSpeed: 0.3,
+      supergranulationStrength: 0.06,
+      supergranulationScale: 6,
+    },
+    temperature: {
+      active: false,
+      temperature: 5772,
+      spread: 0.15,
+    },
+    sunspots: {
+      active: true,
+      count: 4,
+      spotsPerGroup: 3,
+      darkness: 0.85,
+      faculaeStrength: 0.4,
+      min: {
+        size: 2,
+        lifetime: 40,
+        latitude: 5,
+      },
+      max: {
+        size: 5,
+        lifetime: 120,
+        latitude: 35,
+      },
     },
     solarEruptions: {
       active: true,
+      poolSize: 256,
       min: {
         count: 4,
         interval: 500,
@@ -52,14 +99,14 @@ export class ThreeSunConfig {
           lifetime: 2,
           plasmaTrails: 2,
           flareCount: 3,
-          turbulance: 0.01,
+          turbulence: 0.01,
         },
         max: {
           size: 6,
           lifetime: 8,
           plasmaTrails: 5,
           flareCount: 6,
-          turbulance: 1,
+          turbulence: 1,
         },
         shader: {
           emissiveStrength: 1.2,
@@ -73,6 +120,162 @@ export class ThreeSunConfig {
         },
       },
     },
+    prominences: {
+      active: true,
+      poolSize: 64,
+      spawnRate: 0.4,
+      eruptionChance: 0.25,
+      flowSpeed: 1.0,
+      emissiveStrength: 1.5,
+      opacity: 0.8,
+      baseColor: new Color('#ff4a2a'),
+      hotColor: new Color('#ffc46b'),
+      min: {
+        height: 0.3,
+        separation: 0.4,
+        thickness: 0.03,
+        lifetime: 6,
+      },
+      max: {
+        height: 1.2,
+        separation: 1.2,
+        thickness: 0.08,
+        lifetime: 14,
+      },
+    },
+    coronalMassEjections: {
+      active: true,
+      probability: 0.02,
+      speed: 1.5,
+      angularWidth: 50,
+      maxDistance: 18,
+      opacity: 0.6,
+      color: new Color('#ffb07a'),
+    },
+    lensFlare: {
+      active: true,
+      intensity: 0.8,
+      edgeFade: 0.25,
+      elements: [
+        {
+          texture: 'assets/lensflare0.png',
+          size: 0.35,
+          distance: 0,
+          color: new Color('#fff2c8'),
+        },
+        {
+          texture: 'assets/lensflare3.png',
+          size: 0.04,
+          distance: 0.6,
+          color: new Color('#ffd27a'),
+        },
+        {
+          texture: 'assets/lensflare3.png',
+          size: 0.05,
+          distance: 0.7,
+          color: new Color('#ffb35c'),
+        },
+        {
+          texture: 'assets/lensflare3.png',
+          size: 0.08,
+          distance: 0.9,
+          color: new Color('#9fd0ff'),
+        },
+        {
+          texture: 'assets/lensflare3.png',
+          size: 0.05,
+          distance: 1,
+          color: new Color('#ffe9a8'),
+        },
+      ],
+    },
+    light: {
+      color: new Color('#ffffff'),
+      intensity: 20,
+      distance: 0,
+      decay: 2,
+    },
+    planets: {
+      active: false,
+      showOrbits: true,
+      orbitColor: new Color('#8fa4c8'),
+      shadows: false,
+      bodies: createInnerSolarSystem(),
+    },
+    postProcessing: {
+      hdr: true,
+      passes: [
+        {
+          type: 'godRays',
+          active: false,
+          density: 0.96,
+          decay: 0.95,
+          weight: 0.4,
+          exposure: 0.3,
+          samples: 60,
+        },
+        {
+          type: 'bloom',
+          active: false,
+          strength: 0.1,
+          radius: 0.5,
+          threshold: 0,
+        },
+        {
+          type: 'toneMapping',
+          active: false,
+          mode: 'aces',
+          exposure: 1,
+        },
+        {
+          type: 'chromaticAberration',
+          active: false,
+          amount: 0.0015,
+          angle: 0,
+        },
+        {
+          type: 'filmGrain',
+          active: false,
+          intensity: 0.15,
+          grayscale: false,
+        },
+        {
+          type: 'vignette',
+          active: false,
+          offset: 1,
+          darkness: 1.2,
+        },
+      ],
+    },
+    background: {
+      mode: 'starfield',
+      color: new Color('#000000'),
+      starfield: {
+        count: 8000,
+        seed: 1,
+        limitingMagnitude: 6.5,
+        magnitudeSlope: 0.35,
+        size: 6,
+        brightness: 3,
+        minTemperature: 3000,
+        maxTemperature: 12000,
+        twinkle: 0.3,
+        twinkleSpeed: 1,
+      },
+      nebula: {
+        primaryColor: new Color('#3a1c6e'),
+        secondaryColor: new Color('#1b6f8a'),
+        intensity: 0.6,
+        scale: 2,
+        coverage: 0.5,
+        seed: 1,
+      },
+      image: {
+        projection: 'equirectangular',
+        urls: [],
+        intensity: 1,
+      },
+    },
     coronas: [
       {
         active: true,
@@ -0,0 +1,58 @@
+/**
+ * Three.js Sun Core
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Framework-agnostic entry point of the sun system.
+ * Depends on three.js only, so it can be used in plain TypeScript projects,
+ * other frameworks and Node tools. Angular bindings live in ThreeSunModule.
+ *
+ * Usage:
+ *   const sun = new ThreeSunService(new FrameSunScheduler());
+ *   sun.initSun(scene, camera);
+ *   // per frame:
+ *   sun.animate(deltaTime);
+ */
+
+export * from './three-sun.service';
+export * from './three-sun.system';
+export * from './three-sun.config';
+export * from './classes/sun-scheduler';
+export * from './classes/sun-random';
+export * from './classes/sun-simulation-clock';
+export * from './classes/sun-corona';
+export * from './classes/solar-flare';
+export * from './classes/instanced-pool';
+export * from './classes/solar-flare-pool';
+export * from './classes/plasma-trail-pool';
+export * from './classes/sun-prominence';
+export * from './classes/sun-prominence-pool';
+export * from './classes/coronal-mass-ejection';
+export * from './classes/coronal-mass-ejection-pool';
+export * from './classes/sunspot';
+export * from './classes/sun-lens-flare';
+export * from './classes/sun-post-processing';
+export * from './classes/sun-god-rays-pass';
+export * from './classes/sun-background';
+export * from './classes/sun-blackbody';
+export * from './classes/sun-temperature-palette';
+export * from './classes/sun-planet';
+export * from './classes/sun-planetary-system';
+export * from './classes/sun-options-schema';
+export * from './classes/sun-editor-fields';
+export * from './classes/sun-legacy-params';
+export * from './classes/sun-options-migrations';
+export * from './classes/sun-options-serializer';
+export * from './classes/sun-share-state';
+export * from './classes/sun-options-history';
+export * from './classes/sun-preset-library';
+export * from './classes/sun-timeline';
+export * from './services/sun-shader.service';
+export * from './services/sun-corona.service';
+export * from './services/solar-flare.service';
+export * from './services/sun-prominence.service';
+export * from './services/coronal-mass-ejection.service';
+export * from './services/sunspot.service';
+export * from './services/sun-lens-flare.service';
@@ -19,7 +19,7 @@ import { ThreeInputColorComponent } from './components/three-sun-editor/three-in
 import { ThreeInputNumberComponent } from './components/three-sun-editor/three-input-number/three-input-number.component';
 import { ThreeInputBooleanComponent } from './components/three-sun-editor/three-input-boolean/three-input-boolean.component';
 import { ThreeInputStringComponent } from './components/three-sun-editor/three-input-string/three-input-string.component';
-import { NgThreeSunService } from './ng-three-sun.service';
+import { ThreeInputSelectComponent } from './components/three-sun-editor/three-input-select/three-input-select.component';
 
 @NgModule({
   declarations: [
@@ -28,10 +28,10 @@ import { NgThreeSunService } from './ng-three-sun.service';
     ThreeInputColorComponent,
     ThreeInputNumberComponent,
     ThreeInputBooleanComponent,
-    ThreeInputStringComponent
+    ThreeInputStringComponent,
+    ThreeInputSelectComponent
   ],
   imports: [CommonModule, ReactiveFormsModule, FormsModule],
-  providers: [NgThreeSunService],
   exports: [ThreeSunComponent],
 })
 export class ThreeSunModule {}
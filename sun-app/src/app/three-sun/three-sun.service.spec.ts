@@ -1,16 +1,204 @@
-import { TestBed } from '@angular/core/testing';
+import { PerspectiveCamera, Scene, SphereGeometry, WebGLRenderer } from 'three';
 
 import { ThreeSunService } from './three-sun.service';
+import { FrameSunScheduler } from './classes/sun-scheduler';
+import { ThreeSunConfig } from './three-sun.config';
 
 describe('ThreeSunService', () => {
   let service: ThreeSunService;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
-    service = TestBed.inject(ThreeSunService);
+    service = new ThreeSunService();
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should drive the eruption loop from the injected scheduler', () => {
+    const scheduler = new FrameSunScheduler();
+    const sun = new ThreeSunService(scheduler);
+    sun.initSun(new Scene(), new PerspectiveCamera());
+
+    const initialFlares = sun.solarFlares.length;
+    expect(initialFlares).toBeGreaterThan(0);
+
+    spyOn(sun, 'spawnFlare').and.callThrough();
+    sun.animate(sun.options.solarEruptions.max.interval / 1000);
+    expect(sun.spawnFlare).toHaveBeenCalled();
+
+    sun.stopSolarEruptionLoop();
+  });
+
+  it('should release all GPU memory on destroy and support re-initialization', () => {
+    const renderer = new WebGLRenderer();
+    const scene = new Scene();
+    const camera = new PerspectiveCamera();
+    const sun = new ThreeSunService(new FrameSunScheduler());
+    const baseline = { ...renderer.info.memory };
+    const baselinePrograms = renderer.info.programs?.length ?? 0;
+
+    for (let cycle = 0; cycle < 2; cycle++) {
+      sun.initSun(scene, camera);
+      sun.animate(1 / 60);
+      renderer.render(scene, camera);
+      expect(renderer.info.memory.geometries).toBeGreaterThan(
+        baseline.geometries
+      );
+
+      sun.destroy();
+      expect({ ...renderer.info.memory }).toEqual(baseline);
+      expect(renderer.info.programs?.length ?? 0).toBe(baselinePrograms);
+      expect(scene.children.length).toBe(0);
+    }
+
+    renderer.dispose();
+  });
+
+  it('should stop scheduling eruptions after destroy', () => {
+    const scheduler = new FrameSunScheduler();
+    const sun = new ThreeSunService(scheduler);
+    sun.options.prominences.spawnRate = 5;
+    sun.options.coronalMassEjections.active = true;
+    sun.options.coronalMassEjections.probability = 1;
+    sun.initSun(new Scene(), new PerspectiveCamera());
+    sun.destroy();
+
+    spyOn(sun, 'spawnFlare');
+    spyOn(sun, 'spawnProminence');
+    spyOn(sun, 'triggerCoronalMassEjection');
+    scheduler.update(60);
+    expect(sun.spawnFlare).not.toHaveBeenCalled();
+    expect(sun.spawnProminence).not.toHaveBeenCalled();
+    expect(sun.triggerCoronalMassEjection).not.toHaveBeenCalled();
+  });
+
+  it('should spawn identical flares for the same seed and frame sequence', () => {
+    const run = () => {
+      const sun = new ThreeSunService(new FrameSunScheduler());
+      sun.options.seed = 1234;
+      sun.initSun(new Scene(), new PerspectiveCamera());
+      const spawned: unknown[] = [];
+      for (let frame = 0; frame < 300; frame++) {
+        sun.animate(1 / 30);
+        sun.solarFlares.forEach((flare) =>
+          spawned.push([flare.spawnLocation.toArray(), { ...flare.options }])
+        );
+      }
+      sun.destroy();
+      return spawned;
+    };
+
+    const first = run();
+    expect(first.length).toBeGreaterThan(0);
+    expect(run()).toEqual(first);
+  });
+
+  it('should turn the surface faster at the equator than at the poles', () => {
+    const sun = new ThreeSunService(new FrameSunScheduler());
+    const differential = sun.options.rotation.differential;
+    differential.equatorialPeriod = 25;
+    differential.polarPeriod = 35;
+
+    expect(sun.getSurfaceAngularVelocity(0)).toBeCloseTo((Math.PI * 2) / 25);
+    expect(sun.getSurfaceAngularVelocity(Math.PI / 2)).toBeCloseTo(
+      (Math.PI * 2) / 35
+    );
+    expect(sun.getSurfaceAngularVelocity(Math.PI / 4)).toBeLessThan(
+      sun.getSurfaceAngularVelocity(0)
+    );
+
+    // Drift is relative to the rigidly turning mesh and off by default
+    sun.options.rotation.speed = 0.1;
+    differential.active = false;
+    expect(sun.getSurfaceDrift(0)).toBe(0);
+    differential.active = true;
+    expect(sun.getSurfaceDrift(0)).toBeCloseTo((Math.PI * 2) / 25 - 0.1);
+  });
+
+  it('should apply new options without recreating the scene', () => {
+    const scene = new Scene();
+    const sun = new ThreeSunService(new FrameSunScheduler());
+    sun.initSun(scene, new PerspectiveCamera());
+    const sunMesh = sun.sunMesh;
+    const oldCoronas = sun.coronas;
+    spyOn(oldCoronas[0], 'destroy').and.callThrough();
+
+    const options = new ThreeSunConfig().options;
+    options.coronas = options.coronas.slice(0, 2);
+    options.shader.brightness = 3;
+    sun.applyOptions(options);
+    sun.animate(1 / 60);
+
+    expect(sun.options).toBe(options);
+    expect(sun.sunMesh).toBe(sunMesh);
+    expect(oldCoronas[0].destroy).toHaveBeenCalled();
+    expect(sun.coronas.map((corona) => corona.options)).toEqual(
+      options.coronas
+    );
+    expect(sun.shader.sunMaterial.uniforms['brightness'].value).toBe(3);
+
+    sun.destroy();
+  });
+
+  it('should follow geometry and corona changes made by the editor', () => {
+    const sun = new ThreeSunService(new FrameSunScheduler());
+    sun.initSun(new Scene(), new PerspectiveCamera());
+    const geometry = sun.sunMesh.geometry;
+    spyOn(geometry, 'dispose').and.callThrough();
+
+    sun.options.geometry.radius = 3;
+    sun.options.coronas.push({ ...sun.options.coronas[0] });
+    sun.animate(1 / 60);
+
+    expect(geometry.dispose).toHaveBeenCalled();
+    expect(
+      (sun.sunMesh.geometry as SphereGeometry).parameters.radius
+    ).toBe(3);
+    expect(sun.coronas.length).toBe(sun.options.coronas.length);
+
+    sun.destroy();
+  });
+
+  it('should play the timeline on the simulation clock', () => {
+    const sun = new ThreeSunService(new FrameSunScheduler());
+    sun.initSun(new Scene(), new PerspectiveCamera());
+    sun.timeline.setKeyframe('options', 'shader.brightness', 0, 0);
+    sun.timeline.setKeyframe('options', 'shader.brightness', 10, 10);
+    sun.timeline.play();
+
+    sun.clock.timeScale = 2;
+    sun.animate(1);
+    expect(sun.options.shader.brightness).toBeCloseTo(2);
+
+    sun.clock.pause();
+    sun.animate(1);
+    expect(sun.timeline.time).toBeCloseTo(2);
+
+    sun.destroy();
+  });
+
+  it('should switch to temperature colors and back without losing manual colors', () => {
+    const sun = new ThreeSunService(new FrameSunScheduler());
+    sun.initSun(new Scene(), new PerspectiveCamera());
+    const manual = sun.options.shader.baseColor.clone();
+    const uniforms = sun.shader.sunMaterial.uniforms;
+
+    sun.options.temperature.active = true;
+    sun.options.temperature.temperature = 3000;
+    sun.animate(1 / 60);
+    expect(uniforms['baseColor'].value.equals(manual)).toBeFalse();
+    expect(sun.light.color.equals(sun.temperaturePalette.lightColor)).toBeTrue();
+    expect(sun.getCoronaGlowColor(sun.options.coronas[1])).toBe(
+      sun.temperaturePalette.baseColor
+    );
+    expect(sun.options.shader.baseColor.equals(manual)).toBeTrue();
+
+    sun.options.temperature.active = false;
+    sun.animate(1 / 60);
+    expect(uniforms['baseColor'].value.equals(manual)).toBeTrue();
+    expect(sun.light.color.equals(sun.options.light.color)).toBeTrue();
+
+    sun.destroy();
+  });
 });
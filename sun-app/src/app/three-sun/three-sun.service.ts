@@ -9,11 +9,18 @@
  * Initializes the sun mesh, shaders, post-processing (bloom, lens flares),
  * and updates animated layers including corona and solar flares.
  * Designed for real-time visual effects and customization.
+ *
+ * Framework-agnostic: no Angular, DOM or window globals are used here.
+ * Timing is delegated to an injectable `SunScheduler`.
  */
 
 import {
+  Color,
+  Group,
+  InstancedMesh,
   Material,
   Mesh,
+  Object3D,
   PerspectiveCamera,
   PointLight,
   Scene,
@@ -21,7 +28,14 @@ import {
   TextureLoader,
   Vector3,
 } from 'three';
-import { SolarFlare, SolarFlareOptions } from './classes/solar-flare';
+import {
+  SolarFlare,
+  SolarFlareOptions,
+  SolarFlareShaderOptions,
+} from './classes/solar-flare';
+import { SolarFlarePool } from './classes/solar-flare-pool';
+import { PlasmaTrailPool } from './classes/plasma-trail-pool';
+import { SolarFlareService } from './services/solar-flare.service';
 import { SunCorona } from './classes/sun-corona';
 import {
   SunShaderOptions,
@@ -29,7 +43,46 @@ import {
 } from './services/sun-shader.service';
 import { ThreeSunConfig } from './three-sun.config';
 import { SunCoronaOptions } from './services/sun-corona.service';
-import Stats from 'three/examples/jsm/libs/stats.module.js';
+import {
+  SunProminenceOptions,
+  SunProminenceService,
+  SunProminenceShapeOptions,
+} from './services/sun-prominence.service';
+import { SunProminence } from './classes/sun-prominence';
+import { SunProminencePool } from './classes/sun-prominence-pool';
+import {
+  CoronalMassEjectionLaunchOptions,
+  CoronalMassEjectionOptions,
+  CoronalMassEjectionService,
+} from './services/coronal-mass-ejection.service';
+import { CoronalMassEjection } from './classes/coronal-mass-ejection';
+import { CoronalMassEjectionPool } from './classes/coronal-mass-ejection-pool';
+import { SunspotOptions, SunspotService } from './services/sunspot.service';
+import {
+  SunLensFlareOptions,
+  SunLensFlareService,
+} from './services/sun-lens-flare.service';
+import { SunLensFlare } from './classes/sun-lens-flare';
+import { SunPostProcessingOptions } from './classes/sun-post-processing';
+import { SunBackgroundOptions } from './classes/sun-background';
+import {
+  SunPlanetarySystem,
+  SunPlanetarySystemOptions,
+} from './classes/sun-planetary-system';
+import { FrameSunScheduler, SunScheduler } from './classes/sun-scheduler';
+import {
+  SunSurfaceColors,
+  SunTemperatureOptions,
+  SunTemperaturePalette,
+} from './classes/sun-temperature-palette';
+import { SunSimulationClock } from './classes/sun-simulation-clock';
+import {
+  createSunRandom,
+  SunRandom,
+  SunRandomFactory,
+} from './classes/sun-random';
+import { SunTimeline } from './classes/sun-timeline';
+
 export interface SolarEruptionFlareOptions {
   min: SolarFlareOptions;
   max: SolarFlareOptions;
@@ -46,6 +99,8 @@ export interface SolarEruptionFlareOptions {
 }
 export interface SolarEruptionOptions {
   active: boolean;
+  /** Maximum number of flare planes and of plasma trails alive at once (size of the instanced pools) */
+  poolSize: number;
   min: {
     count: number;
     interval: number;
@@ -57,25 +112,102 @@ export interface SolarEruptionOptions {
   flareOptions: SolarEruptionFlareOptions;
 }
 
+/**
+ * Circular orbit of a sun around a barycenter shared with other suns.
+ * Two suns with the same barycenter and period, phases half a turn apart
+ * and radii inversely proportional to their masses form a binary system.
+ */
+export interface SunOrbitOptions {
+  active: boolean;
+  /** Center of mass the sun circles around (world space) */
+  barycenter: Vector3;
+  /** Distance from the barycenter in world units */
+  radius: number;
+  /** Duration of one full orbit (in seconds) */
+  period: number;
+  /** Start angle on the orbit (in radians) */
+  phase: number;
+  /** Tilt of the orbital plane around the X axis (in radians) */
+  inclination: number;
+}
+
+export interface SunDifferentialRotationOptions {
+  /** Lets surface features turn faster at the equator than at the poles */
+  active: boolean;
+  /** Rotation period at the equator (in simulated seconds) */
+  equatorialPeriod: number;
+  /** Rotation period at the poles (in simulated seconds) */
+  polarPeriod: number;
+}
+
+export interface SunLightOptions {
+  color: Color;
+  /** Luminous intensity (in candela) */
+  intensity: number;
+  /** Range of the light; 0 lights the whole scene */
+  distance: number;
+  /** Falloff with the distance; 2 is physically correct */
+  decay: number;
+}
+
+export interface SunGeometryOptions {
+  /** Sun radius in world units */
+  radius: number;
+  /** Width and height segments of the sphere */
+  segments: number;
+}
+
 export interface ThreeSunOptions {
+  /**
+   * Seed for all randomness (eruption counts, intervals, flare options and placement).
+   * Same seed and same `animate(deltaTime)` calls give the same result. Random when omitted.
+   */
+  seed?: number;
+  /** Sphere of the sun mesh */
+  geometry: SunGeometryOptions;
+  /** World position of the sun when not orbiting */
+  position: Vector3;
+  orbit: SunOrbitOptions;
   rotation: {
     direction: Vector3;
+    /** Rotation speed (in radians per simulated second) */
     speed: number;
+    /**
+     * Latitude-dependent rotation of surface features (FBM pattern, sunspots, flares).
+     * The mesh and coronas keep turning rigidly with `speed`.
+     */
+    differential: SunDifferentialRotationOptions;
   };
   shader: SunShaderOptions;
+  /** Derives shader, corona and light colors from a blackbody temperature */
+  temperature: SunTemperatureOptions;
+  sunspots: SunspotOptions;
   coronas: SunCoronaOptions[];
   solarEruptions: SolarEruptionOptions;
+  prominences: SunProminenceOptions;
+  coronalMassEjections: CoronalMassEjectionOptions;
+  lensFlare: SunLensFlareOptions;
+  /** PointLight at the sun center lighting planets and other scene objects */
+  light: SunLightOptions;
+  /** Optional planets orbiting this sun */
+  planets: SunPlanetarySystemOptions;
+  /** Pass stack used by renderers of this sun, e.g. ThreeSunComponent */
+  postProcessing: SunPostProcessingOptions;
+  /** Scene background used by renderers of this sun, e.g. ThreeSunComponent */
+  background: SunBackgroundOptions;
 }
 
 export class ThreeSunService {
-  editorActive = false;
-
-  stats = new Stats();
-
   // Scene graph references
   scene!: Scene;
   camera!: PerspectiveCamera;
 
+  /**
+   * Root group of this sun. Positioned in the scene, owns the sun mesh,
+   * flares and every other layer, so several suns can share one scene.
+   */
+  root = new Group();
+
   // Sun geometry and material
   sunMesh!: Mesh;
   sunGeometry!: SphereGeometry;
@@ -86,9 +218,48 @@ export class ThreeSunService {
   coronas: SunCorona[] = [];
   solarFlares: SolarFlare[] = [];
 
+  /** Shared flare materials, synced from `options.solarEruptions.flareOptions.shader` */
+  flareService!: SolarFlareService;
+
+  /** Instanced flare planes shared by all flares of this sun */
+  flarePool!: SolarFlarePool;
+
+  /** Instanced plasma trail ribbons shared by all flares of this sun */
+  trailPool!: PlasmaTrailPool;
+
+  /** Magnetic loop prominences currently alive */
+  prominences: SunProminence[] = [];
+
+  /** Shared prominence material, synced from `options.prominences` */
+  prominenceService!: SunProminenceService;
+
+  /** Instanced prominence tubes shared by all prominences of this sun */
+  prominencePool!: SunProminencePool;
+
+  /** Coronal mass ejections currently travelling outward */
+  coronalMassEjections: CoronalMassEjection[] = [];
+
+  /** Shared CME material, synced from `options.coronalMassEjections` */
+  coronalMassEjectionService!: CoronalMassEjectionService;
+
+  /** Instanced CME bubbles shared by all CMEs of this sun */
+  coronalMassEjectionPool!: CoronalMassEjectionPool;
+
   // Texture loader for lensflare elements
   textureLoader = new TextureLoader();
 
+  /** Lens flare textures and materials, synced from `options.lensFlare` */
+  lensFlareService!: SunLensFlareService;
+
+  /** Screen-space lens flare of this sun */
+  lensFlare!: SunLensFlare;
+
+  /** Planets orbiting this sun, synced from `options.planets` */
+  planetarySystem!: SunPlanetarySystem;
+
+  /** Colors derived from `options.temperature`, synced every frame */
+  temperaturePalette = new SunTemperaturePalette();
+
   config = new ThreeSunConfig();
 
   /**
@@ -98,12 +269,46 @@ export class ThreeSunService {
 
   /**
    * Handles animated lava shader logic and color options.
+   * Created by `initSun`, released by `destroy`.
+   */
+  shader!: SunShaderService;
+
+  /**
+   * Sunspot groups on the surface. Read `sunspotService.spots` for their positions.
    */
-  shader = new SunShaderService(this, this.options.shader);
+  sunspotService!: SunspotService;
+
+  private solarEruptionTimeoutId?: number;
+  private prominenceTimeoutId?: number;
+  private coronalMassEjectionTimeoutId?: number;
 
-  statsVisible = false;
+  /** Elapsed orbit time (in seconds) */
+  private orbitTime = 0;
 
-  private solarEruptionIntervalId?: number;
+  /**
+   * Simulation clock: pause/resume, time scale and single-frame stepping.
+   */
+  clock = new SunSimulationClock();
+
+  /**
+   * Keyframe animation of the options and the camera, played on the simulation clock.
+   */
+  timeline = new SunTimeline();
+
+  /**
+   * Random number source, recreated from `options.seed` on every `initSun`.
+   */
+  random: SunRandom = createSunRandom();
+
+  /**
+   * @param scheduler Timing source for delayed work such as the eruption loop.
+   * Defaults to a scheduler driven by `animate(deltaTime)`.
+   * @param randomFactory Creates the random number generator for a given seed.
+   */
+  constructor(
+    public scheduler: SunScheduler = new FrameSunScheduler(),
+    public randomFactory: SunRandomFactory = createSunRandom
+  ) {}
 
   /**
    * Initializes the sun mesh, shader, corona layers, and optional lensflares.
@@ -119,32 +324,82 @@ export class ThreeSunService {
     this.scene = scene;
     this.camera = camera;
     this.options = options;
+    this.random = this.randomFactory(options.seed);
+    this.temperaturePalette.update(options.temperature);
+    this.shader = new SunShaderService(this, options.shader);
 
-    this.sunGeometry = new SphereGeometry(
-      this.config.geometry.radius,
-      this.config.geometry.segments,
-      this.config.geometry.segments
-    );
+    this.sunGeometry = this.createGeometry(options.geometry);
     this.sunMaterial = this.shader.sunMaterial;
     this.sunMesh = new Mesh(this.sunGeometry, this.sunMaterial);
-    this.scene.add(this.sunMesh);
+    this.root.add(this.sunMesh);
+    this.sunspotService = new SunspotService(this, options.sunspots);
+    this.updatePosition();
+    this.scene.add(this.root);
 
     for (const corona of this.options.coronas) {
       this.coronas.push(new SunCorona(this, corona));
     }
 
-    this.light = new PointLight(0xffffff, 1, 100);
+    this.light = new PointLight();
     this.sunMesh.add(this.light);
+    this.updateLight();
+
+    this.flareService = new SolarFlareService(this, this.getFlareShaderOptions());
+    this.createFlarePool();
     this.startSolarEruptionLoop(this.options.solarEruptions);
+
+    this.prominenceService = new SunProminenceService(
+      this,
+      this.options.prominences
+    );
+    this.createProminencePool();
+    this.startProminenceLoop(this.options.prominences);
+
+    this.coronalMassEjectionService = new CoronalMassEjectionService(
+      this,
+      this.options.coronalMassEjections
+    );
+    this.coronalMassEjectionPool = new CoronalMassEjectionPool(
+      CoronalMassEjectionPool.defaultCapacity,
+      this.coronalMassEjectionService.ejectionMaterial
+    );
+    this.root.add(this.coronalMassEjectionPool.mesh);
+    this.startCoronalMassEjectionLoop(this.options.coronalMassEjections);
+
+    this.lensFlareService = new SunLensFlareService(
+      this,
+      this.options.lensFlare
+    );
+    this.lensFlare = new SunLensFlare(this);
+
+    this.planetarySystem = new SunPlanetarySystem(this, this.options.planets);
+  }
+
+  /**
+   * Replaces all options at runtime (e.g. when loading a preset) without
+   * recreating the scene. Most layers pick up `options` on the next frame;
+   * coronas, the random source and the eruption loops are rebuilt here.
+   * @param options New options; used directly, not copied.
+   */
+  applyOptions(options: ThreeSunOptions): void {
+    this.options = options;
+    if (!this.sunMesh) return;
+
+    this.random = this.randomFactory(options.seed);
+    this.shader.options = options.shader;
+
+    this.coronas.forEach((corona) => corona.destroy());
+    this.coronas = options.coronas.map((corona) => new SunCorona(this, corona));
+
+    this.startSolarEruptionLoop(options.solarEruptions);
+    this.startProminenceLoop(options.prominences);
+    this.startCoronalMassEjectionLoop(options.coronalMassEjections);
   }
 
   startSolarEruptionLoop(options: SolarEruptionOptions): void {
-    const scheduleNext = () => {
-      if (document.visibilityState !== 'visible') {
-        this.solarEruptionIntervalId = window.setTimeout(scheduleNext, 1000);
-        return;
-      }
+    this.stopSolarEruptionLoop();
 
+    const scheduleNext = () => {
       const count = Math.floor(
         this.randomBetween(options.min.count, options.max.count)
       );
@@ -157,57 +412,209 @@ export class ThreeSunService {
         this.spawnFlare(options.flareOptions);
       }
 
-      this.solarEruptionIntervalId = window.setTimeout(scheduleNext, interval);
+      this.solarEruptionTimeoutId = this.scheduler.setTimeout(
+        scheduleNext,
+        interval
+      );
     };
 
     scheduleNext();
   }
 
   stopSolarEruptionLoop(): void {
-    if (this.solarEruptionIntervalId) {
-      clearTimeout(this.solarEruptionIntervalId);
-      this.solarEruptionIntervalId = undefined;
+    if (this.solarEruptionTimeoutId !== undefined) {
+      this.scheduler.clearTimeout(this.solarEruptionTimeoutId);
+      this.solarEruptionTimeoutId = undefined;
+    }
+  }
+
+  /**
+   * Spawns prominences at `spawnRate` per simulated second on average.
+   * Inactive or zero-rate options keep the loop polling once per second.
+   */
+  startProminenceLoop(options: SunProminenceOptions): void {
+    this.stopProminenceLoop();
+
+    const scheduleNext = () => {
+      let delay = 1000;
+      if (options.spawnRate > 0) {
+        this.spawnProminence(options);
+        delay = (this.randomBetween(0.5, 1.5) / options.spawnRate) * 1000;
+      }
+
+      this.prominenceTimeoutId = this.scheduler.setTimeout(scheduleNext, delay);
+    };
+
+    scheduleNext();
+  }
+
+  stopProminenceLoop(): void {
+    if (this.prominenceTimeoutId !== undefined) {
+      this.scheduler.clearTimeout(this.prominenceTimeoutId);
+      this.prominenceTimeoutId = undefined;
+    }
+  }
+
+  /**
+   * Rolls once per simulated second whether a CME launches (see `probability`).
+   */
+  startCoronalMassEjectionLoop(options: CoronalMassEjectionOptions): void {
+    this.stopCoronalMassEjectionLoop();
+
+    const scheduleNext = () => {
+      if (options.active && this.random.next() < options.probability) {
+        this.triggerCoronalMassEjection();
+      }
+
+      this.coronalMassEjectionTimeoutId = this.scheduler.setTimeout(
+        scheduleNext,
+        1000
+      );
+    };
+
+    scheduleNext();
+  }
+
+  stopCoronalMassEjectionLoop(): void {
+    if (this.coronalMassEjectionTimeoutId !== undefined) {
+      this.scheduler.clearTimeout(this.coronalMassEjectionTimeoutId);
+      this.coronalMassEjectionTimeoutId = undefined;
     }
   }
-  addStats(htmlElement: HTMLElement) {
-    htmlElement.appendChild(this.stats.dom);
-    this.showStats();
+
+  /**
+   * Launches a coronal mass ejection, e.g. from a scripted scene.
+   * Works regardless of `coronalMassEjections.active`.
+   * @param direction Launch direction from the sun center (world orientation). Random when omitted.
+   * @param options Overrides for speed, angular width and fade distance of this CME.
+   * @returns The launched CME, or undefined when too many CMEs are alive.
+   */
+  triggerCoronalMassEjection(
+    direction: Vector3 = this.randomPointOnSurface(),
+    options: Partial<CoronalMassEjectionLaunchOptions> = {}
+  ): CoronalMassEjection | undefined {
+    const defaults = this.options.coronalMassEjections;
+    const ejection = new CoronalMassEjection(this, direction, {
+      speed: defaults.speed,
+      angularWidth: defaults.angularWidth,
+      maxDistance: defaults.maxDistance,
+      ...options,
+    });
+    return ejection.launch() ? ejection : undefined;
   }
 
-  showStats() {
-    this.stats.dom.style.display = 'block';
-    this.statsVisible = true;
+  /**
+   * Returns the normalized rotation axis. It is the same in the local space of
+   * `root` and of the sun mesh, since the mesh turns around it.
+   */
+  getRotationPole(target = new Vector3()): Vector3 {
+    target.copy(this.options.rotation.direction).normalize();
+    if (target.lengthSq() === 0) target.set(0, 1, 0);
+    return target;
   }
 
-  hideStats() {
-    this.stats.dom.style.display = 'none';
-    this.statsVisible = false;
+  /**
+   * Angular velocity of the surface at a latitude in differential rotation
+   * (in radians per simulated second), blending from the equatorial to the
+   * polar period with sin²(latitude).
+   * @param latitude Latitude (in radians).
+   */
+  getSurfaceAngularVelocity(latitude: number): number {
+    const { equatorialPeriod, polarPeriod } =
+      this.options.rotation.differential;
+    const equatorial = equatorialPeriod ? (Math.PI * 2) / equatorialPeriod : 0;
+    const polar = polarPeriod ? (Math.PI * 2) / polarPeriod : 0;
+    const sinLatitude = Math.sin(latitude);
+    return equatorial + (polar - equatorial) * sinLatitude * sinLatitude;
   }
 
-  toggleStats() {
-    if (this.statsVisible) {
-      this.hideStats();
-    } else {
-      this.showStats();
+  /**
+   * Angular velocity of surface features relative to the rigidly turning sun mesh
+   * (in radians per simulated second). 0 unless differential rotation is active.
+   * @param latitude Latitude (in radians).
+   */
+  getSurfaceDrift(latitude: number): number {
+    const rotation = this.options.rotation;
+    if (!rotation.differential.active) {
+      return 0;
     }
+    const meshVelocity = rotation.speed * rotation.direction.length();
+    return this.getSurfaceAngularVelocity(latitude) - meshVelocity;
   }
 
   /**
-   * Returns a random point on the sun surface in world space.
+   * Returns a random point on the sun surface in the local space of `root`,
+   * so it stays attached to this sun wherever it is placed in the scene.
    */
   randomPointOnSurface(): Vector3 {
-    const theta = Math.random() * Math.PI * 2;
-    const phi = Math.acos(2 * Math.random() - 1);
-    const r = this.sunMesh.geometry.boundingSphere?.radius ?? 1;
+    const theta = this.random.next() * Math.PI * 2;
+    const phi = Math.acos(2 * this.random.next() - 1);
+    const r = this.sunGeometry.parameters.radius;
 
     const x = r * Math.sin(phi) * Math.cos(theta);
     const y = r * Math.sin(phi) * Math.sin(theta);
     const z = r * Math.cos(phi);
 
-    return new Vector3(x, y, z).applyMatrix4(this.sunMesh.matrixWorld);
+    return new Vector3(x, y, z).applyQuaternion(this.sunMesh.quaternion);
+  }
+
+  /**
+   * Returns the current world position of the sun center.
+   */
+  getWorldPosition(target = new Vector3()): Vector3 {
+    return this.root.getWorldPosition(target);
+  }
+
+  /**
+   * Visible opaque meshes of the scene that can hide this sun from the camera
+   * (planets, other suns). The layers of this sun are never included.
+   */
+  getOccluders(): Mesh[] {
+    const occluders: Mesh[] = [];
+    this.scene.traverseVisible((object) => {
+      if (
+        object instanceof Mesh &&
+        !(object instanceof InstancedMesh) &&
+        this.isOpaque(object.material) &&
+        !this.ownsObject(object)
+      ) {
+        occluders.push(object);
+      }
+    });
+    return occluders;
+  }
+
+  private isOpaque(material: Material | Material[]): boolean {
+    const materials = Array.isArray(material) ? material : [material];
+    return materials.every((entry) => entry.visible && !entry.transparent);
+  }
+
+  private ownsObject(object: Object3D): boolean {
+    for (let node: Object3D | null = object; node; node = node.parent) {
+      if (node === this.root) return true;
+    }
+    return false;
   }
+
   randomBetween(min: number, max: number): number {
-    return min + Math.random() * (max - min);
+    return min + this.random.next() * (max - min);
+  }
+
+  /**
+   * Returns a random unit vector perpendicular to `axis`.
+   */
+  randomPerpendicular(axis: Vector3): Vector3 {
+    const vector = new Vector3(
+      this.randomBetween(-1, 1),
+      this.randomBetween(-1, 1),
+      this.randomBetween(-1, 1)
+    ).projectOnPlane(axis);
+    if (vector.lengthSq() < 1e-6) {
+      // Degenerate draw; fall back to any perpendicular
+      vector.set(0, 1, 0).cross(axis);
+      if (vector.lengthSq() < 1e-6) vector.set(1, 0, 0).cross(axis);
+    }
+    return vector.normalize();
   }
 
   generateRandomFlareOptions(
@@ -231,9 +638,9 @@ export class ThreeSunService {
           flareOptions.max.flareCount
         )
       ),
-      turbulance: this.randomBetween(
-        flareOptions.min.turbulance,
-        flareOptions.max.turbulance
+      turbulence: this.randomBetween(
+        flareOptions.min.turbulence,
+        flareOptions.max.turbulence
       ),
     };
   }
@@ -248,66 +655,346 @@ export class ThreeSunService {
     }
     const flareOptions = this.generateRandomFlareOptions(options);
 
-    const flare = new SolarFlare(this, flareOptions, {
-      baseColor: this.options.shader.baseColor,
-      hotColor: this.options.shader.hotColor,
-      deepColor: this.options.shader.deepColor,
-      emissiveStrength: options.shader.emissiveStrength,
-      opacity: options.shader.opacity,
-      distortionScale: options.shader.distortionScale,
-      fadeStart: options.shader.fadeStart,
-      fadeEnd: options.shader.fadeEnd,
-      noiseScaleX: options.shader.noiseScaleX,
-      noiseScaleY: options.shader.noiseScaleY,
-      speed: options.shader.speed,
-    });
-
+    const flare = new SolarFlare(this, flareOptions);
     flare.spawnSolarFlare();
   }
 
+  generateRandomProminenceOptions(
+    options: SunProminenceOptions
+  ): SunProminenceShapeOptions {
+    return {
+      height: this.randomBetween(options.min.height, options.max.height),
+      separation: this.randomBetween(
+        options.min.separation,
+        options.max.separation
+      ),
+      thickness: this.randomBetween(
+        options.min.thickness,
+        options.max.thickness
+      ),
+      lifetime: this.randomBetween(options.min.lifetime, options.max.lifetime),
+    };
+  }
+
+  /**
+   * Spawns a magnetic loop prominence at a random surface point.
+   * Whether it snaps and erupts is decided by `eruptionChance`.
+   */
+  spawnProminence(options: SunProminenceOptions): void {
+    if (!this.options.prominences.active) {
+      return;
+    }
+    const shapeOptions = this.generateRandomProminenceOptions(options);
+    const erupts = this.random.next() < options.eruptionChance;
+
+    const prominence = new SunProminence(this, shapeOptions, erupts);
+    prominence.spawnProminence();
+  }
+
+  /**
+   * (Re)creates the instanced prominence pool with `prominences.poolSize` slots.
+   * Live prominences are removed, since their slots belong to the old pool.
+   */
+  createProminencePool(): void {
+    [...this.prominences].forEach((prominence) => prominence.destroy());
+    this.prominencePool?.dispose();
+
+    this.prominencePool = new SunProminencePool(
+      this.options.prominences.poolSize,
+      this.prominenceService.prominenceMaterial
+    );
+    this.root.add(this.prominencePool.mesh);
+  }
+
+  /**
+   * (Re)creates the instanced flare and trail pools with `solarEruptions.poolSize` slots each.
+   * Live flares are removed, since their slots belong to the old pools.
+   */
+  createFlarePool(): void {
+    [...this.solarFlares].forEach((flare) => flare.destroy());
+    this.flarePool?.dispose();
+    this.trailPool?.dispose();
+
+    this.flarePool = new SolarFlarePool(
+      this.options.solarEruptions.poolSize,
+      this.flareService.fallingBackMaterial,
+      this.flareService.flyAwayMaterial
+    );
+    this.trailPool = new PlasmaTrailPool(
+      this.options.solarEruptions.poolSize,
+      this.flareService.trailMaterial
+    );
+    this.root.add(
+      this.flarePool.fallingBackMesh,
+      this.flarePool.flyAwayMesh,
+      this.trailPool.mesh
+    );
+  }
+
+  /**
+   * Combines sun colors and eruption shader settings for the shared flare materials.
+   */
+  private getFlareShaderOptions(): SolarFlareShaderOptions {
+    const colors = this.getSurfaceColors();
+    return {
+      ...this.options.solarEruptions.flareOptions.shader,
+      baseColor: colors.baseColor,
+      hotColor: colors.hotColor,
+      deepColor: colors.deepColor,
+    };
+  }
+
+  /**
+   * Surface colors in use: derived from the temperature in temperature mode,
+   * the manual colors otherwise.
+   * @param colors Manual colors, by default those of `options.shader`.
+   */
+  getSurfaceColors(
+    colors: SunSurfaceColors = this.options.shader
+  ): SunSurfaceColors {
+    return this.options.temperature.active ? this.temperaturePalette : colors;
+  }
+
+  /**
+   * Glow color in use for a corona layer (see `getSurfaceColors`).
+   */
+  getCoronaGlowColor(corona: SunCoronaOptions): Color {
+    return this.options.temperature.active
+      ? this.temperaturePalette.getCoronaGlowColor(
+          this.options.coronas.indexOf(corona)
+        )
+      : corona.glowColor;
+  }
+
+  /**
+   * Light color in use (see `getSurfaceColors`).
+   */
+  getLightColor(): Color {
+    return this.options.temperature.active
+      ? this.temperaturePalette.lightColor
+      : this.options.light.color;
+  }
+
   /**
    * Rotates the sun mesh based on user-defined direction and speed.
-   * @param deltaTime Frame delta time (in seconds).
+   * @param deltaTime Simulation delta time (in seconds).
    */
   private animateSunMesh(deltaTime: number): void {
-    this.sunMesh.rotation.x +=
-      this.options.rotation.direction.x * this.options.rotation.speed;
-    this.sunMesh.rotation.y +=
-      this.options.rotation.direction.y * this.options.rotation.speed;
-    this.sunMesh.rotation.z +=
-      this.options.rotation.direction.z * this.options.rotation.speed;
+    const angle = this.options.rotation.speed * deltaTime;
+    this.sunMesh.rotation.x += this.options.rotation.direction.x * angle;
+    this.sunMesh.rotation.y += this.options.rotation.direction.y * angle;
+    this.sunMesh.rotation.z += this.options.rotation.direction.z * angle;
   }
 
   /**
-   * Updates all animated elements including sun surface, corona, and flares.
-   * @param deltaTime Time since last frame (in seconds).
+   * Lets the surface pattern drift against the sun mesh by latitude.
+   * Sunspots and flares follow the same rates on their own.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  private animateDifferentialRotation(deltaTime: number): void {
+    const pole = this.getRotationPole();
+    if (!this.options.rotation.differential.active) {
+      this.shader.resetSurfaceDrift(pole);
+      return;
+    }
+    this.shader.advectSurface(
+      deltaTime,
+      pole,
+      this.getSurfaceDrift(0),
+      this.getSurfaceDrift(Math.PI / 2)
+    );
+  }
+
+  private createGeometry(options: SunGeometryOptions): SphereGeometry {
+    return new SphereGeometry(
+      options.radius,
+      options.segments,
+      options.segments
+    );
+  }
+
+  /**
+   * Rebuilds the sphere when `options.geometry` changed.
+   */
+  private updateGeometry(): void {
+    const { radius, segments } = this.options.geometry;
+    const parameters = this.sunGeometry.parameters;
+    if (parameters.radius === radius && parameters.widthSegments === segments) {
+      return;
+    }
+    this.sunGeometry.dispose();
+    this.sunGeometry = this.createGeometry(this.options.geometry);
+    this.sunMesh.geometry = this.sunGeometry;
+  }
+
+  /**
+   * Rebuilds the corona layers when coronas were added to or removed from
+   * `options.coronas`.
+   */
+  private updateCoronas(): void {
+    const coronas = this.options.coronas;
+    if (
+      coronas.length === this.coronas.length &&
+      coronas.every((options, index) => this.coronas[index].options === options)
+    ) {
+      return;
+    }
+    this.coronas.forEach((corona) => corona.destroy());
+    this.coronas = coronas.map((corona) => new SunCorona(this, corona));
+  }
+
+  /**
+   * Syncs the sun light with `options.light`. It casts shadows while
+   * planets with shadows are shown.
+   */
+  private updateLight(): void {
+    const { intensity, distance, decay } = this.options.light;
+    this.light.color.copy(this.getLightColor());
+    this.light.intensity = intensity;
+    this.light.distance = distance;
+    this.light.decay = decay;
+    this.light.castShadow =
+      this.options.planets.active && this.options.planets.shadows;
+  }
+
+  /**
+   * Places the sun root either on its orbit or at the configured position.
+   */
+  private updatePosition(): void {
+    const orbit = this.options.orbit;
+    if (!orbit.active || orbit.period === 0) {
+      this.root.position.copy(this.options.position);
+      return;
+    }
+
+    const angle = orbit.phase + (this.orbitTime / orbit.period) * Math.PI * 2;
+    this.root.position
+      .set(Math.cos(angle) * orbit.radius, 0, Math.sin(angle) * orbit.radius)
+      .applyAxisAngle(new Vector3(1, 0, 0), orbit.inclination)
+      .add(orbit.barycenter);
+  }
+
+  /**
+   * Restarts the orbit at its `phase`, e.g. to line up suns sharing an orbit.
+   */
+  resetOrbit(): void {
+    this.orbitTime = 0;
+    this.updatePosition();
+  }
+
+  /**
+   * Advances the orbit and moves the sun root accordingly.
+   * @param deltaTime Frame delta time (in seconds).
+   */
+  private animateOrbit(deltaTime: number): void {
+    if (this.options.orbit.active) {
+      this.orbitTime += deltaTime;
+    }
+    this.updatePosition();
+  }
+
+  /**
+   * Advances the simulation clock by one rendered frame and updates the sun.
+   * @param deltaTime Real time since last frame (in seconds).
    */
   animate(deltaTime: number): void {
+    this.simulate(this.clock.tick(deltaTime));
+  }
+
+  /**
+   * Updates all animated elements including sun surface, corona, flares and
+   * eruption scheduling by the given amount of simulation time.
+   * Use directly when several suns share one clock.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  simulate(deltaTime: number): void {
+    this.scheduler.update?.(deltaTime);
+    if (this.timeline.update(deltaTime)) {
+      this.timeline.apply(this.options, this.camera);
+    }
+    this.animateOrbit(deltaTime);
     this.animateSunMesh(deltaTime);
+    this.animateDifferentialRotation(deltaTime);
+    this.temperaturePalette.update(this.options.temperature);
+    this.updateGeometry();
     this.shader.update(deltaTime);
+    this.sunspotService.options = this.options.sunspots;
+    this.sunspotService.update(deltaTime);
+    this.updateCoronas();
     this.coronas.forEach((corona) => corona.animate(deltaTime));
-    this.solarFlares.forEach((flare) => flare.animate(deltaTime));
-    this.stats.update();
+
+    if (this.options.solarEruptions.poolSize !== this.flarePool.capacity) {
+      this.createFlarePool();
+    }
+    this.flareService.options = this.getFlareShaderOptions();
+    this.flareService.animate(deltaTime);
+    [...this.solarFlares].forEach((flare) => flare.animate(deltaTime));
+
+    if (this.options.prominences.poolSize !== this.prominencePool.capacity) {
+      this.createProminencePool();
+    }
+    this.prominenceService.options = this.options.prominences;
+    this.prominenceService.animate(deltaTime);
+    [...this.prominences].forEach((prominence) =>
+      prominence.animate(deltaTime)
+    );
+
+    this.coronalMassEjectionService.options = this.options.coronalMassEjections;
+    this.coronalMassEjectionService.animate(deltaTime);
+    [...this.coronalMassEjections].forEach((ejection) =>
+      ejection.animate(deltaTime)
+    );
+
+    this.updateLight();
+    this.planetarySystem.options = this.options.planets;
+    this.planetarySystem.update(deltaTime);
+
+    this.lensFlareService.options = this.options.lensFlare;
+    this.lensFlare.update();
   }
 
   /**
    * Cleans up the sun system (e.g. on scene unload).
+   * Stops the eruption, prominence and CME loops, removes every layer from
+   * the scene and disposes all geometries and materials, so `initSun` can be
+   * called again afterwards.
    */
   destroy(): void {
-    // Optional: Dispose geometry, materials, textures, etc.
-  }
-
-  showEditor() {
-    this.editorActive = true;
-  }
-  hideEditor() {
-    this.editorActive = false;
-  }
-  toggleEditor() {
-    if (this.editorActive) {
-      this.hideEditor();
-    } else {
-      this.showEditor();
+    this.stopSolarEruptionLoop();
+    this.stopProminenceLoop();
+    this.stopCoronalMassEjectionLoop();
+
+    [...this.solarFlares].forEach((flare) => flare.destroy());
+    this.solarFlares = [];
+    this.flarePool?.dispose();
+    this.trailPool?.dispose();
+    this.flareService?.dispose();
+
+    [...this.prominences].forEach((prominence) => prominence.destroy());
+    this.prominences = [];
+    this.prominencePool?.dispose();
+    this.prominenceService?.dispose();
+
+    [...this.coronalMassEjections].forEach((ejection) => ejection.destroy());
+    this.coronalMassEjections = [];
+    this.coronalMassEjectionPool?.dispose();
+    this.coronalMassEjectionService?.dispose();
+
+    this.coronas.forEach((corona) => corona.destroy());
+    this.coronas = [];
+
+    this.lensFlare?.dispose();
+    this.lensFlareService?.dispose();
+    this.planetarySystem?.dispose();
+
+    if (this.sunMesh) {
+      this.light.removeFromParent();
+      this.light.dispose();
+      this.sunMesh.removeFromParent();
+      this.sunGeometry.dispose();
+      this.shader.dispose();
     }
+
+    this.root.removeFromParent();
   }
 }
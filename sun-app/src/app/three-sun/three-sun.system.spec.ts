@@ -0,0 +1,75 @@
+import { PerspectiveCamera, Scene, Vector3 } from 'three';
+import { ThreeSunSystem } from './three-sun.system';
+
+describe('ThreeSunSystem', () => {
+  let system: ThreeSunSystem;
+
+  beforeEach(() => {
+    system = new ThreeSunSystem(new Scene(), new PerspectiveCamera());
+  });
+
+  afterEach(() => {
+    system.destroy();
+  });
+
+  it('should keep independent options and roots per sun', () => {
+    const a = system.addSun((options) => options.position.set(-5, 0, 0));
+    const b = system.addSun((options) => options.position.set(5, 0, 0));
+
+    expect(a.options).not.toBe(b.options);
+    expect(a.root.position.x).toBe(-5);
+    expect(b.root.position.x).toBe(5);
+    expect(system.scene.children).toContain(a.root);
+    expect(system.scene.children).toContain(b.root);
+  });
+
+  it('should keep binary suns on opposite sides of the barycenter', () => {
+    const a = system.addSun();
+    const b = system.addSun();
+    system.setBinaryOrbit(a, b, {
+      barycenter: new Vector3(0, 0, 0),
+      separation: 9,
+      period: 10,
+      massRatio: 0.5,
+      inclination: 0,
+    });
+
+    system.animate(2.5);
+
+    const center = b.root.position
+      .clone()
+      .multiplyScalar(0.5)
+      .add(a.root.position)
+      .divideScalar(1.5);
+    expect(center.length()).toBeCloseTo(0, 5);
+    expect(a.root.position.distanceTo(b.root.position)).toBeCloseTo(9, 5);
+  });
+
+  it('should line up binary suns that orbited before', () => {
+    const a = system.addSun((options) => (options.orbit.active = true));
+    system.animate(3);
+    const b = system.addSun();
+
+    system.setBinaryOrbit(a, b, {
+      barycenter: new Vector3(0, 0, 0),
+      separation: 8,
+      period: 10,
+      massRatio: 1,
+      inclination: 0,
+    });
+    system.animate(1);
+
+    expect(a.root.position.clone().add(b.root.position).length()).toBeCloseTo(
+      0,
+      5
+    );
+  });
+
+  it('should attach flares to the sun that owns them', () => {
+    const sun = system.addSun((options) => options.position.set(10, 0, 0));
+
+    expect(sun.solarFlares.length).toBeGreaterThan(0);
+    expect(sun.flarePool.fallingBackMesh.parent).toBe(sun.root);
+    expect(sun.flarePool.flyAwayMesh.parent).toBe(sun.root);
+  });
+});
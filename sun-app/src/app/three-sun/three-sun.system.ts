@@ -0,0 +1,124 @@
+/**
+ * Three.js Sun System
+ * Author: Moritz Petzka
+ * Website: https://petzka.com
+ * Email: info@petzka.com
+ *
+ * Description:
+ * Manages several independent suns in one scene (binary and multi-star systems).
+ * Every sun owns its options, coronas, flares and eruption loop.
+ * Framework-agnostic like ThreeSunService.
+ */
+
+import { PerspectiveCamera, Scene, Vector3 } from 'three';
+import { ThreeSunOptions, ThreeSunService } from './three-sun.service';
+import { FrameSunScheduler, SunScheduler } from './classes/sun-scheduler';
+import { SunSimulationClock } from './classes/sun-simulation-clock';
+
+export interface BinaryOrbitOptions {
+  /** Shared center of mass (world space) */
+  barycenter: Vector3;
+  /** Distance between both sun centers */
+  separation: number;
+  /** Duration of one full orbit (in seconds) */
+  period: number;
+  /** Mass of the secondary relative to the primary (0..1] */
+  massRatio: number;
+  /** Tilt of the orbital plane around the X axis (in radians) */
+  inclination: number;
+}
+
+export class ThreeSunSystem {
+  suns: ThreeSunService[] = [];
+
+  /**
+   * Shared simulation clock, so all suns pause and time-lapse together.
+   */
+  clock = new SunSimulationClock();
+
+  /**
+   * @param scene Scene all suns are added to.
+   * @param camera Active camera (used by corona logic).
+   * @param createScheduler Factory for the per-sun scheduler.
+   */
+  constructor(
+    public scene: Scene,
+    public camera: PerspectiveCamera,
+    private createScheduler: () => SunScheduler = () => new FrameSunScheduler()
+  ) {}
+
+  /**
+   * Creates and initializes an additional sun.
+   * @param configure Optional callback to adjust the default options of the new sun.
+   */
+  addSun(configure?: (options: ThreeSunOptions) => void): ThreeSunService {
+    const sun = new ThreeSunService(this.createScheduler());
+    configure?.(sun.options);
+    sun.initSun(this.scene, this.camera, sun.options);
+    this.suns.push(sun);
+    return sun;
+  }
+
+  /**
+   * Removes a sun from the system and cleans it up.
+   */
+  removeSun(sun: ThreeSunService): void {
+    const index = this.suns.indexOf(sun);
+    if (index === -1) return;
+    this.suns.splice(index, 1);
+    sun.destroy();
+  }
+
+  /**
+   * Puts two suns on opposite sides of a shared barycenter.
+   * Orbit radii are inversely proportional to the masses. Both orbits
+   * restart, so suns added at different times start in phase.
+   */
+  setBinaryOrbit(
+    primary: ThreeSunService,
+    secondary: ThreeSunService,
+    options: BinaryOrbitOptions
+  ): void {
+    const totalMass = 1 + options.massRatio;
+    const orbits: [ThreeSunService, number, number][] = [
+      [primary, (options.separation * options.massRatio) / totalMass, 0],
+      [secondary, options.separation / totalMass, Math.PI],
+    ];
+
+    for (const [sun, radius, phase] of orbits) {
+      Object.assign(sun.options.orbit, {
+        active: true,
+        radius,
+        phase,
+        period: options.period,
+        inclination: options.inclination,
+      });
+      sun.options.orbit.barycenter.copy(options.barycenter);
+      sun.resetOrbit();
+    }
+  }
+
+  /**
+   * Advances the shared clock by one rendered frame and updates all suns.
+   * @param deltaTime Real time since last frame (in seconds).
+   */
+  animate(deltaTime: number): void {
+    this.simulate(this.clock.tick(deltaTime));
+  }
+
+  /**
+   * Updates all suns by the given amount of simulation time.
+   * @param deltaTime Simulation delta time (in seconds).
+   */
+  simulate(deltaTime: number): void {
+    this.suns.forEach((sun) => sun.simulate(deltaTime));
+  }
+
+  /**
+   * Cleans up all suns of the system.
+   */
+  destroy(): void {
+    this.suns.forEach((sun) => sun.destroy());
+    this.suns = [];
+  }
+}